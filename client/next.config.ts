@@ -1,8 +1,16 @@
+import path from "node:path";
 import type { NextConfig } from "next";
 
+// The rules engine and types live in ../shared, outside the app directory.
+const repoRoot = path.join(__dirname, "..");
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  outputFileTracingRoot: repoRoot,
+  turbopack: {
+    root: repoRoot,
+  },
 };
 
 export default nextConfig;
@@ -123,7 +123,9 @@ export default function Home() {
                   <h4 className='font-semibold mb-2'>Objective</h4>
                   <p className='text-sm text-muted-foreground'>
                     Be the first player to get 5 of your pieces in a row
-                    (horizontally, vertically, or diagonally) on a 16x16 board.
+                    (horizontally, vertically, or diagonally). Rooms play on a
+                    16x16 board by default, or pick 15x15, 19x19, an infinite
+                    board and a different win length.
                   </p>
                 </div>
                 <div>
@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { ReplayViewer } from '@/components/game/replay-viewer';
+import { Button } from '@/components/ui/button';
+import { ROUTES } from '@/lib/constants';
+
+interface ReplayPageProps {
+  params: Promise<{ gameId: string }>;
+  searchParams: Promise<{ move?: string }>;
+}
+
+export default async function ReplayPage({
+  params,
+  searchParams,
+}: ReplayPageProps) {
+  const { gameId } = await params;
+  const { move } = await searchParams;
+  const initialMove = move === undefined ? undefined : Number(move);
+
+  return (
+    <div className='min-h-screen flex flex-col'>
+      <header className='border-b'>
+        <div className='container mx-auto px-4 py-4 flex items-center justify-between'>
+          <h1 className='text-2xl font-bold'>Caro Game</h1>
+          <Link href={ROUTES.HOME}>
+            <Button variant='ghost'>Home</Button>
+          </Link>
+        </div>
+      </header>
+      <main className='container mx-auto flex-1 px-4 py-8'>
+        <ReplayViewer gameId={gameId} initialMove={initialMove} />
+      </main>
+    </div>
+  );
+}
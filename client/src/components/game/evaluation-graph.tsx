@@ -0,0 +1,91 @@
+'use client';
+
+import type { MouseEvent } from 'react';
+import type { MoveQuality } from '@shared/types/game.types';
+
+interface EvaluationGraphProps {
+  // Evaluation from X's side after each move, points[0] the empty board
+  points: number[];
+  qualities: MoveQuality[];
+  step: number;
+  onSelect: (step: number) => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 120;
+const MAX_EVALUATION = 1000;
+
+const QUALITY_COLORS: Partial<Record<MoveQuality, string>> = {
+  inaccuracy: '#d97706',
+  blunder: '#dc2626',
+};
+
+export function EvaluationGraph({
+  points,
+  qualities,
+  step,
+  onSelect,
+}: EvaluationGraphProps) {
+  const last = Math.max(points.length - 1, 1);
+  const x = (index: number) => (index / last) * WIDTH;
+  // X winning at the top, O at the bottom
+  const y = (evaluation: number) =>
+    HEIGHT / 2 - (evaluation / MAX_EVALUATION) * (HEIGHT / 2 - 4);
+
+  const line = points
+    .map((evaluation, index) => `${x(index)},${y(evaluation)}`)
+    .join(' ');
+
+  const select = (event: MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - bounds.left) / bounds.width;
+    onSelect(Math.round(ratio * last));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className='h-32 w-full cursor-pointer rounded-md border bg-muted/30'
+      preserveAspectRatio='none'
+      onClick={select}
+      role='img'
+      aria-label='Evaluation after each move, X winning at the top'
+    >
+      <line
+        x1={0}
+        x2={WIDTH}
+        y1={HEIGHT / 2}
+        y2={HEIGHT / 2}
+        stroke='currentColor'
+        strokeOpacity={0.2}
+      />
+      <polyline
+        points={line}
+        fill='none'
+        stroke='currentColor'
+        strokeWidth={1.5}
+        vectorEffect='non-scaling-stroke'
+      />
+      <line
+        x1={x(step)}
+        x2={x(step)}
+        y1={0}
+        y2={HEIGHT}
+        stroke='#2563eb'
+        vectorEffect='non-scaling-stroke'
+      />
+      {qualities.map((quality, index) => {
+        const color = QUALITY_COLORS[quality];
+        return color ? (
+          <circle
+            key={index}
+            cx={x(index + 1)}
+            cy={y(points[index + 1])}
+            r={3}
+            fill={color}
+          />
+        ) : null;
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type {
+  PlayerSymbol,
+  TimeControl,
+  TimerUpdatePayload,
+} from '@shared/types/game.types';
+import { clocksAt, formatClock, type ClockSync } from '@/lib/game/clock';
+import { cn } from '@/lib/utils';
+
+interface GameClockProps {
+  symbol: PlayerSymbol;
+  timeControl: TimeControl;
+  // Last TIMER_UPDATE for the game, null before the game starts
+  update: TimerUpdatePayload | null;
+  sync: ClockSync;
+}
+
+// Fast enough for tenths of a second
+const TICK_MS = 100;
+const LOW_TIME_MS = 10_000;
+
+export function GameClock({
+  symbol,
+  timeControl,
+  update,
+  sync,
+}: GameClockProps) {
+  const [now, setNow] = useState(() => sync.serverNow());
+  const isRunning = update?.currentTurn === symbol;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(sync.serverNow()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [isRunning, sync]);
+
+  if (!update) {
+    return null;
+  }
+
+  const clock = clocksAt(update, timeControl, Math.max(now, update.serverTime))[
+    symbol
+  ];
+  return (
+    <div
+      className={cn(
+        'flex items-baseline gap-2 rounded-md border px-3 py-1 font-mono',
+        isRunning && 'border-primary',
+        isRunning && clock.remaining < LOW_TIME_MS && 'text-red-600'
+      )}
+    >
+      <span className='text-2xl tabular-nums'>
+        {formatClock(clock.remaining)}
+      </span>
+      {clock.inByoyomi && (
+        <span className='text-xs text-muted-foreground'>
+          {clock.periods} × byo-yomi
+        </span>
+      )}
+    </div>
+  );
+}
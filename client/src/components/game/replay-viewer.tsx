@@ -0,0 +1,337 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { GameReplay, ReplayPlayer } from '@shared/types/game.types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { EvaluationGraph } from '@/components/game/evaluation-graph';
+import { getGameReplay } from '@/lib/api/games';
+import { formatTimeControl } from '@/lib/game/clock';
+import {
+  QUALITY_MARKS,
+  REPLAY_SPEEDS,
+  REPLAY_STEP_MS,
+  annotationNotes,
+  clampStep,
+  evaluationPoints,
+  moveLabels,
+  replayBoards,
+  winningCells,
+} from '@/lib/game/replay';
+import type { ApiError } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ReplayViewerProps {
+  gameId: string;
+  initialMove?: number;
+}
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+function formatSeconds(ms?: number): string {
+  return ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatEvaluation(evaluation: number): string {
+  return `${evaluation > 0 ? '+' : ''}${(evaluation / 100).toFixed(1)}`;
+}
+
+function PlayerLine({ player }: { player: ReplayPlayer }) {
+  const change = player.eloAfter - player.eloBefore;
+  return (
+    <div className='flex items-center justify-between gap-4'>
+      <span className='font-semibold'>
+        {player.symbol} · {player.username}
+      </span>
+      <span className='text-sm text-muted-foreground'>
+        {player.eloBefore} → {player.eloAfter} ({change >= 0 ? '+' : ''}
+        {change})
+      </span>
+      <Badge variant={player.result === 'win' ? 'default' : 'secondary'}>
+        {player.result}
+      </Badge>
+    </div>
+  );
+}
+
+export function ReplayViewer({ gameId, initialMove }: ReplayViewerProps) {
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [requestedStep, setRequestedStep] = useState(initialMove ?? 0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+
+  useEffect(() => {
+    let cancelled = false;
+    getGameReplay(gameId)
+      .then((data) => {
+        if (!cancelled) setReplay(data);
+      })
+      .catch((err: ApiError) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  const boards = useMemo(() => (replay ? replayBoards(replay) : []), [replay]);
+  const labels = useMemo(() => (replay ? moveLabels(replay) : []), [replay]);
+  const points = useMemo(
+    () => (replay ? evaluationPoints(replay) : null),
+    [replay]
+  );
+  const step = replay ? clampStep(requestedStep, replay) : 0;
+  const total = replay?.moves.length ?? 0;
+  const atEnd = step === total;
+  const isPlaying = playing && !atEnd;
+
+  // Keep the current move in the URL so the position can be linked
+  useEffect(() => {
+    if (!replay) return;
+    window.history.replaceState(
+      null,
+      '',
+      `${window.location.pathname}?move=${step}`
+    );
+  }, [replay, step]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(
+      () => setRequestedStep((current) => current + 1),
+      REPLAY_STEP_MS / speed
+    );
+    return () => clearInterval(timer);
+  }, [isPlaying, speed]);
+
+  const goTo = (next: number) => {
+    setPlaying(false);
+    setRequestedStep(next);
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setPlaying(false);
+      return;
+    }
+    if (atEnd) setRequestedStep(0);
+    setPlaying(true);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowLeft') goTo(step - 1);
+      if (event.key === 'ArrowRight') goTo(step + 1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [step]);
+
+  if (error) {
+    return <p className='text-destructive'>{error}</p>;
+  }
+  if (!replay) {
+    return <p className='text-muted-foreground'>Loading replay…</p>;
+  }
+
+  const board = boards[step];
+  const origin = board.origin ?? { row: 0, col: 0 };
+  const lastMove = replay.moves[step - 1];
+  const highlighted = new Set(
+    atEnd && replay.winningLine
+      ? winningCells(replay.winningLine).map(({ row, col }) =>
+          cellKey(row, col)
+        )
+      : []
+  );
+
+  return (
+    <div className='grid gap-6 lg:grid-cols-[auto_1fr]'>
+      <div className='overflow-auto'>
+        <div
+          className='grid w-fit border'
+          style={{ gridTemplateColumns: `repeat(${board.size}, 1.75rem)` }}
+        >
+          {board.cells.flatMap((cells, r) =>
+            cells.map((cell, c) => {
+              const row = origin.row + r;
+              const col = origin.col + c;
+              const isLast =
+                lastMove?.position.row === row &&
+                lastMove?.position.col === col;
+              return (
+                <div
+                  key={cellKey(row, col)}
+                  className={cn(
+                    'flex size-7 items-center justify-center border text-sm font-bold',
+                    cell === 'X' && 'text-blue-600',
+                    cell === 'O' && 'text-red-600',
+                    isLast && 'bg-muted',
+                    highlighted.has(cellKey(row, col)) && 'bg-yellow-200'
+                  )}
+                >
+                  {cell}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      <div className='space-y-4'>
+        <Card>
+          <CardHeader>
+            <CardTitle>Replay</CardTitle>
+            <CardDescription>
+              {replay.winner ? `${replay.winner} won` : 'Draw'} by{' '}
+              {replay.reason} · {formatTimeControl(replay.timeControl)} ·{' '}
+              {new Date(replay.endedAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='space-y-2'>
+            {replay.players.map((player) => (
+              <PlayerLine key={player.id} player={player} />
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className='space-y-4 pt-6'>
+            <div className='flex flex-wrap items-center gap-2'>
+              <Button variant='outline' onClick={() => goTo(0)}>
+                ⏮
+              </Button>
+              <Button variant='outline' onClick={() => goTo(step - 1)}>
+                ◀
+              </Button>
+              <Button onClick={togglePlay}>
+                {isPlaying ? 'Pause' : 'Play'}
+              </Button>
+              <Button variant='outline' onClick={() => goTo(step + 1)}>
+                ▶
+              </Button>
+              <Button variant='outline' onClick={() => goTo(total)}>
+                ⏭
+              </Button>
+              <select
+                className='h-9 rounded-md border bg-background px-2 text-sm'
+                value={speed}
+                onChange={(event) => setSpeed(Number(event.target.value))}
+              >
+                {REPLAY_SPEEDS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}x
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              type='range'
+              className='w-full'
+              min={0}
+              max={total}
+              value={step}
+              onChange={(event) => goTo(Number(event.target.value))}
+            />
+            <p className='text-sm text-muted-foreground'>
+              Move {step} of {total}
+              {lastMove &&
+                ` · ${lastMove.player} ${labels[step - 1]} in ${formatSeconds(
+                  lastMove.elapsed
+                )}, ${formatSeconds(lastMove.timeRemaining)} left`}
+            </p>
+          </CardContent>
+        </Card>
+
+        {replay.analysis && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Analysis</CardTitle>
+            </CardHeader>
+            <CardContent className='space-y-2'>
+              {points ? (
+                <>
+                  <EvaluationGraph
+                    points={points}
+                    qualities={replay.moves.map(
+                      (move) => move.annotation?.quality ?? 'good'
+                    )}
+                    step={step}
+                    onSelect={goTo}
+                  />
+                  <p className='text-sm text-muted-foreground'>
+                    Evaluation {formatEvaluation(points[step])}
+                    {lastMove?.annotation &&
+                      lastMove.annotation.quality !== 'good' &&
+                      ` · ${lastMove.player} ${labels[step - 1]} was ${
+                        lastMove.annotation.quality === 'blunder'
+                          ? 'a blunder'
+                          : 'an inaccuracy'
+                      }`}
+                  </p>
+                  {lastMove?.annotation &&
+                    annotationNotes(lastMove.annotation, replay).map((note) => (
+                      <p key={note} className='text-sm'>
+                        {note}
+                      </p>
+                    ))}
+                </>
+              ) : (
+                <p className='text-sm text-muted-foreground'>
+                  {replay.analysis === 'failed'
+                    ? 'This game could not be analysed.'
+                    : 'The engine is still analysing this game.'}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Moves</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className='grid grid-cols-2 gap-1 text-sm'>
+              {replay.moves.map((move, index) => (
+                <li key={move.moveNumber}>
+                  <button
+                    type='button'
+                    className={cn(
+                      'w-full rounded px-2 py-1 text-left hover:bg-muted',
+                      move.moveNumber === step && 'bg-muted font-semibold'
+                    )}
+                    onClick={() => goTo(move.moveNumber)}
+                  >
+                    {move.moveNumber}. {move.player} {labels[index]}
+                    {move.annotation && (
+                      <span
+                        className={cn(
+                          'ml-1',
+                          move.annotation.quality === 'blunder' &&
+                            'text-red-600',
+                          move.annotation.quality === 'inaccuracy' &&
+                            'text-amber-600'
+                        )}
+                      >
+                        {QUALITY_MARKS[move.annotation.quality]}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Games API
+ * Archived games: replays and records
+ */
+
+import type { GameReplay } from '@shared/types/game.types';
+import { apiClient } from './client';
+
+export async function getGameReplay(gameId: string): Promise<GameReplay> {
+  const response = await apiClient.get<GameReplay>(
+    `/api/games/${gameId}/replay`
+  );
+  return response.data;
+}
@@ -3,16 +3,12 @@
  * Shared constants for the Caro game
  */
 
-export const GAME_CONFIG = {
-  BOARD_SIZE: 16,
-  WIN_CONDITION: 5,
-  TURN_TIMEOUT: 30000, // 30 seconds
-  CHALLENGE_TIMEOUT: 10000, // 10 seconds
-  STARTING_ELO: 1000,
-  ELO_WIN_POINTS: 3,
-  ELO_DRAW_POINTS: 1,
-  ELO_LOSE_POINTS: 0,
-} as const;
+// Board size and win length are chosen per room; these are only the defaults.
+// Read a game's real geometry from GameState.geometry.
+export {
+  DEFAULT_BOARD_GEOMETRY,
+  GAME_CONFIG,
+} from '@shared/types/game.types';
 
 export const ROUTES = {
   HOME: '/',
@@ -22,6 +18,7 @@ export const ROUTES = {
   LOBBY: '/lobby',
   PROFILE: '/profile',
   RANKINGS: '/rankings',
+  REPLAY: '/replay',
 } as const;
 
 export const STORAGE_KEYS = {
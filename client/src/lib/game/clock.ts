@@ -0,0 +1,115 @@
+/**
+ * Game clocks
+ * Runs both players' clocks locally between TIMER_UPDATE broadcasts, on
+ * the server's time as estimated from SYNC_CLOCK round trips
+ */
+
+import {
+  SocketEvent,
+  type ClockSyncedPayload,
+  type GameState,
+  type TimeControl,
+  type TimerUpdatePayload,
+} from '@shared/types/game.types';
+import {
+  bestClockOffset,
+  currentClocks,
+  sampleClockOffset,
+  type ClockOffsetSample,
+} from '@shared/types/game.clock';
+import { socketClient } from '../socket/client';
+
+export {
+  currentClocks,
+  formatTimeControl,
+  isFlagged,
+  runClock,
+  startingClock,
+  timeUntilFlag,
+  validateTimeControl,
+} from '@shared/types/game.clock';
+
+export const CLOCK_SYNC_SAMPLES = 5;
+const CLOCK_SYNC_SPACING_MS = 200;
+// Both clocks drift, so the offset is measured again this often
+const CLOCK_RESYNC_MS = 60_000;
+
+/**
+ * Estimates the offset between this client's clock and the server's from a
+ * round of SYNC_CLOCK samples, keeping the least skewed one. A fresh round
+ * runs every minute to follow drift.
+ */
+export class ClockSync {
+  private offset = 0;
+  private samples: ClockOffsetSample[] = [];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private resync: ReturnType<typeof setInterval> | null = null;
+
+  private readonly onSynced = (payload: ClockSyncedPayload) => {
+    const sample = sampleClockOffset(payload, Date.now());
+    if (!sample) return;
+    this.samples.push(sample);
+    this.offset = bestClockOffset(this.samples)!.offset;
+  };
+
+  /** Starts sampling; call again after reconnecting. */
+  start(samples = CLOCK_SYNC_SAMPLES): void {
+    this.stop();
+    socketClient.on(SocketEvent.CLOCK_SYNCED, this.onSynced);
+    this.sample(samples);
+    this.resync = setInterval(() => this.sample(samples), CLOCK_RESYNC_MS);
+  }
+
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+    if (this.resync) {
+      clearInterval(this.resync);
+      this.resync = null;
+    }
+    socketClient.off(SocketEvent.CLOCK_SYNCED, this.onSynced);
+  }
+
+  /** The server's time now, in epoch ms. */
+  serverNow(): number {
+    return Date.now() + this.offset;
+  }
+
+  // The previous offset stands until the new round's first reply
+  private sample(samples: number): void {
+    this.samples = [];
+    this.timers = Array.from({ length: samples }, (_, index) =>
+      setTimeout(
+        () =>
+          socketClient.emit(SocketEvent.SYNC_CLOCK, { clientTime: Date.now() }),
+        index * CLOCK_SYNC_SPACING_MS
+      )
+    );
+  }
+}
+
+/** Both clocks as they stand at `serverNow`, from the last TIMER_UPDATE. */
+export function clocksAt(
+  update: TimerUpdatePayload,
+  timeControl: TimeControl,
+  serverNow: number
+): GameState['clocks'] {
+  return currentClocks(
+    {
+      clocks: update.clocks,
+      currentTurn: update.currentTurn,
+      timeControl,
+      turnStartedAt: update.serverTime,
+    },
+    serverNow
+  );
+}
+
+/** m:ss, with tenths under ten seconds. */
+export function formatClock(ms: number): string {
+  if (ms < 10_000) {
+    return `${(Math.max(ms, 0) / 1000).toFixed(1)}`;
+  }
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,32 @@
+/**
+ * Game engine
+ * Client entry point for the shared rules engine, so move previews follow
+ * exactly the same rules the server applies
+ */
+
+export {
+  applyMove,
+  checkWin,
+  createBoard,
+  createBoardFromGeometry,
+  findForbiddenMove,
+  getCell,
+  getOpponent,
+  isBoardFull,
+  isOnBoard,
+  playMove,
+  toGameBoard,
+  validateBoardGeometry,
+  validateMove,
+} from '@shared/types/game.engine';
+export type {
+  EngineOptions,
+  ForbiddenMove,
+  MoveOutcome,
+} from '@shared/types/game.engine';
+export {
+  DEFAULT_RULE_VARIANT,
+  RULESETS,
+  getRuleSet,
+} from '@shared/types/game.rules';
+export type { RuleSet } from '@shared/types/game.rules';
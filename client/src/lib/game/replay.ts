@@ -0,0 +1,105 @@
+/**
+ * Replay helpers
+ * Rebuild the board of a finished game at every move
+ */
+
+import type {
+  ForcedWin,
+  GameBoard,
+  GameReplay,
+  MoveAnnotation,
+  MoveQuality,
+  Position,
+  WinningLine,
+} from '@shared/types/game.types';
+import { formatPosition, recordOrigin } from '@shared/types/game.notation';
+import { applyMove, createBoardFromGeometry } from './engine';
+
+// Autoplay delay between moves at 1x
+export const REPLAY_STEP_MS = 1000;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+/** boards[n] is the board after n moves, boards[0] the empty board. */
+export function replayBoards(replay: GameReplay): GameBoard[] {
+  const boards = [createBoardFromGeometry(replay.geometry)];
+  for (const move of replay.moves) {
+    boards.push(applyMove(boards[boards.length - 1], move));
+  }
+  return boards;
+}
+
+/** Every cell of a winning line, from start to end. */
+export function winningCells(line: WinningLine): Position[] {
+  const rowStep = Math.sign(line.end.row - line.start.row);
+  const colStep = Math.sign(line.end.col - line.start.col);
+  const length =
+    Math.max(
+      Math.abs(line.end.row - line.start.row),
+      Math.abs(line.end.col - line.start.col)
+    ) + 1;
+  return Array.from({ length }, (_, index) => ({
+    row: line.start.row + rowStep * index,
+    col: line.start.col + colStep * index,
+  }));
+}
+
+/** Square names for the move list, as in the game's exported record. */
+export function moveLabels(replay: GameReplay): string[] {
+  const origin = recordOrigin(replay);
+  return replay.moves.map((move) => formatPosition(move.position, origin));
+}
+
+/** Clamps a requested move number to the moves the game has. */
+export function clampStep(step: number, replay: GameReplay): number {
+  if (!Number.isFinite(step)) {
+    return replay.moves.length;
+  }
+  return Math.min(Math.max(Math.trunc(step), 0), replay.moves.length);
+}
+
+// Annotation marks after a move, as in chess notation
+export const QUALITY_MARKS: Record<MoveQuality, string> = {
+  good: '',
+  inaccuracy: '?!',
+  blunder: '??',
+};
+
+const FORCED_WIN_NAMES: Record<ForcedWin, string> = {
+  five: 'a five',
+  'open-four': 'an open four',
+  'double-four': 'a double four',
+  'four-three': 'a four-three',
+};
+
+/**
+ * Evaluation from X's side after each move, points[0] being the empty
+ * board. Null until the game has been analysed.
+ */
+export function evaluationPoints(replay: GameReplay): number[] | null {
+  if (replay.analysis !== 'complete') {
+    return null;
+  }
+  return [0, ...replay.moves.map((move) => move.annotation?.evaluation ?? 0)];
+}
+
+/** What the engine has to say about a move, one sentence per finding. */
+export function annotationNotes(
+  annotation: MoveAnnotation,
+  replay: GameReplay
+): string[] {
+  const notes: string[] = [];
+  if (annotation.missedWin) {
+    notes.push(`Missed ${FORCED_WIN_NAMES[annotation.missedWin]}.`);
+  }
+  if (annotation.allowedWin) {
+    notes.push(
+      `Allowed the opponent ${FORCED_WIN_NAMES[annotation.allowedWin]}.`
+    );
+  }
+  if (annotation.quality !== 'good' && annotation.bestMove) {
+    notes.push(
+      `Best was ${formatPosition(annotation.bestMove, recordOrigin(replay))}.`
+    );
+  }
+  return notes;
+}
@@ -6,13 +6,23 @@ import { AppService } from './app.service';
 import databaseConfig from './config/database.config';
 import redisConfig from './config/redis.config';
 import jwtConfig from './config/jwt.config';
+import gameConfig from './config/game.config';
+import chatConfig from './config/chat.config';
 import { CommonModule } from './common/common.module';
+import { AuthModule } from './modules/auth/auth.module';
+import { GameModule } from './modules/game/game.module';
+import { PlayerModule } from './modules/player/player.module';
+import { RankingModule } from './modules/ranking/ranking.module';
+import { RecordModule } from './modules/record/record.module';
+import { RoomModule } from './modules/room/room.module';
+import { StatsModule } from './modules/stats/stats.module';
+import { TournamentModule } from './modules/tournament/tournament.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig, redisConfig, jwtConfig],
+      load: [databaseConfig, redisConfig, jwtConfig, gameConfig, chatConfig],
       envFilePath: '.env',
     }),
     TypeOrmModule.forRootAsync({
@@ -26,6 +36,14 @@ import { CommonModule } from './common/common.module';
       },
     }),
     CommonModule,
+    PlayerModule,
+    AuthModule,
+    RoomModule,
+    GameModule,
+    RankingModule,
+    StatsModule,
+    RecordModule,
+    TournamentModule,
   ],
   controllers: [AppController],
   providers: [AppService],
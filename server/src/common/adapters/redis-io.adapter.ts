@@ -0,0 +1,36 @@
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis, { RedisOptions } from 'ioredis';
+import { Server, ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter that relays broadcasts, channel joins and socket
+ * lookups through Redis pub/sub, so every server instance behind the load
+ * balancer reaches every client whichever instance it is connected to.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private adapterConstructor: ReturnType<typeof createAdapter> | null = null;
+  private clients: Redis[] = [];
+
+  connectToRedis(options: RedisOptions): void {
+    const pubClient = new Redis(options);
+    // A subscribed connection cannot issue other commands
+    const subClient = pubClient.duplicate();
+    this.clients = [pubClient, subClient];
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+
+  async dispose(): Promise<void> {
+    await super.dispose();
+    await Promise.all(this.clients.map((client) => client.quit()));
+    this.clients = [];
+  }
+}
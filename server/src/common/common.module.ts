@@ -1,10 +1,10 @@
 import { Global, Module } from '@nestjs/common';
 import { RedisService } from './services/redis.service';
+import { SchedulerLeaseService } from './services/scheduler-lease.service';
 
 @Global()
 @Module({
-  providers: [RedisService],
-  exports: [RedisService],
+  providers: [RedisService, SchedulerLeaseService],
+  exports: [RedisService, SchedulerLeaseService],
 })
 export class CommonModule {}
-
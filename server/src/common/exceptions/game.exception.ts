@@ -0,0 +1,16 @@
+import { SocketErrorCode } from '@shared/types/game.types';
+
+/**
+ * Domain error raised by game and room services. Transport layers map it to
+ * an ErrorPayload (WebSocket) or an HTTP error response.
+ */
+export class GameException extends Error {
+  constructor(
+    readonly code: SocketErrorCode,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = GameException.name;
+  }
+}
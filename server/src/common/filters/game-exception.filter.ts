@@ -0,0 +1,45 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { SocketErrorCode } from '@shared/types/game.types';
+import { GameException } from '../exceptions/game.exception';
+
+const STATUS_BY_CODE: Record<SocketErrorCode, HttpStatus> = {
+  UNAUTHORIZED: HttpStatus.UNAUTHORIZED,
+  VALIDATION_ERROR: HttpStatus.BAD_REQUEST,
+  ROOM_NOT_FOUND: HttpStatus.NOT_FOUND,
+  ROOM_FULL: HttpStatus.CONFLICT,
+  GAME_NOT_FOUND: HttpStatus.NOT_FOUND,
+  NOT_IN_GAME: HttpStatus.FORBIDDEN,
+  INVALID_STATE: HttpStatus.CONFLICT,
+  SPECTATOR: HttpStatus.FORBIDDEN,
+  NOT_ROOM_OWNER: HttpStatus.FORBIDDEN,
+  NOT_ORGANIZER: HttpStatus.FORBIDDEN,
+  TOURNAMENT_NOT_FOUND: HttpStatus.NOT_FOUND,
+  RATE_LIMITED: HttpStatus.TOO_MANY_REQUESTS,
+  OUT_OF_SEQUENCE: HttpStatus.CONFLICT,
+  INTERNAL_ERROR: HttpStatus.INTERNAL_SERVER_ERROR,
+};
+
+/**
+ * Maps GameException to an HTTP response for REST controllers, keeping the
+ * shape of Nest's default error body plus the domain `code`.
+ */
+@Catch(GameException)
+export class GameExceptionFilter implements ExceptionFilter {
+  catch(exception: GameException, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const statusCode = STATUS_BY_CODE[exception.code];
+
+    response.status(statusCode).json({
+      statusCode,
+      message: exception.message,
+      code: exception.code,
+      details: exception.details,
+    });
+  }
+}
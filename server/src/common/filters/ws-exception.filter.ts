@@ -0,0 +1,68 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { ErrorPayload, SocketEvent } from '@shared/types/game.types';
+import { GameException } from '../exceptions/game.exception';
+
+/**
+ * Replies to the emitting socket with a typed ErrorPayload on the `error`
+ * event instead of Nest's default `exception` event.
+ */
+@Catch()
+export class WsExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(WsExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const client = host.switchToWs().getClient<Socket>();
+    client.emit(SocketEvent.ERROR, this.toPayload(exception));
+  }
+
+  private toPayload(exception: unknown): ErrorPayload {
+    if (exception instanceof GameException) {
+      return {
+        message: exception.message,
+        code: exception.code,
+        details: exception.details,
+      };
+    }
+
+    if (exception instanceof WsException) {
+      const error = exception.getError();
+      return typeof error === 'string'
+        ? { message: error }
+        : (error as ErrorPayload);
+    }
+
+    // ValidationPipe raises BadRequestException with the constraint messages
+    if (exception instanceof BadRequestException) {
+      const response = exception.getResponse();
+      return {
+        message: exception.message,
+        code: 'VALIDATION_ERROR',
+        details:
+          typeof response === 'object' && 'message' in response
+            ? response.message
+            : undefined,
+      };
+    }
+
+    if (exception instanceof UnauthorizedException) {
+      return { message: exception.message, code: 'UNAUTHORIZED' };
+    }
+
+    if (exception instanceof HttpException) {
+      return { message: exception.message };
+    }
+
+    this.logger.error('Unhandled socket error', exception);
+    return { message: 'Internal server error', code: 'INTERNAL_ERROR' };
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Identity attached to a request or socket once its access token is verified
+ */
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+}
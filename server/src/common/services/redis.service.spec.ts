@@ -0,0 +1,82 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisService } from './redis.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+describe('RedisService', () => {
+  let redisService: RedisService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RedisService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+  });
+
+  function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  describe('withLock', () => {
+    it('should run tasks on one key one at a time', async () => {
+      const order: string[] = [];
+      const task = (name: string) => async () => {
+        order.push(`${name} start`);
+        await sleep(20);
+        order.push(`${name} end`);
+      };
+
+      await Promise.all([
+        redisService.withLock('lock', task('first')),
+        redisService.withLock('lock', task('second')),
+      ]);
+
+      expect(order).toEqual([
+        'first start',
+        'first end',
+        'second start',
+        'second end',
+      ]);
+    });
+
+    it('should keep the lock while a task outlasts its ttl', async () => {
+      const slow = redisService.withLock('lock', () => sleep(400), {
+        ttlMs: 150,
+      });
+      await sleep(10);
+
+      await expect(
+        redisService.withLock('lock', () => Promise.resolve(), {
+          waitMs: 300,
+        }),
+      ).rejects.toThrow('Timed out waiting for lock lock');
+
+      await slow;
+      expect(await redisService.get('lock')).toBeNull();
+    });
+
+    it('should release the lock when the task fails', async () => {
+      await expect(
+        redisService.withLock('lock', () =>
+          Promise.reject(new Error('failed')),
+        ),
+      ).rejects.toThrow('failed');
+
+      expect(await redisService.get('lock')).toBeNull();
+    });
+  });
+});
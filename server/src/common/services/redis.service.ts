@@ -1,9 +1,30 @@
-import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  Injectable,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import Redis, { ChainableCommander } from 'ioredis';
+
+const LOCK_TTL_MS = 10_000;
+const LOCK_WAIT_MS = 5_000;
+const LOCK_RETRY_MS = 20;
+// Extends the lock only if it still holds the caller's token
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+// Deletes the lock only if it still holds the caller's token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
 
 @Injectable()
-export class RedisService implements OnModuleInit, OnModuleDestroy {
+export class RedisService implements OnModuleInit, OnApplicationShutdown {
   private client: Redis;
 
   constructor(private configService: ConfigService) {}
@@ -25,7 +46,9 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
-  async onModuleDestroy() {
+  // Closed only once every module is destroyed, since their own teardown
+  // (releasing the scheduler lease) may still need Redis
+  async onApplicationShutdown() {
     await this.client.quit();
   }
 
@@ -58,6 +81,11 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return result === 1;
   }
 
+  // Commands queued on it run together when exec() is called
+  multi(): ChainableCommander {
+    return this.client.multi();
+  }
+
   async hget(key: string, field: string): Promise<string | null> {
     return this.client.hget(key, field);
   }
@@ -81,5 +109,140 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   async ttl(key: string): Promise<number> {
     return this.client.ttl(key);
   }
-}
 
+  async rpush(key: string, value: string): Promise<void> {
+    await this.client.rpush(key, value);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.client.ltrim(key, start, stop);
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.client.lrange(key, start, stop);
+  }
+
+  async sadd(key: string, member: string): Promise<void> {
+    await this.client.sadd(key, member);
+  }
+
+  async srem(key: string, member: string): Promise<number> {
+    return this.client.srem(key, member);
+  }
+
+  async sismember(key: string, member: string): Promise<boolean> {
+    return (await this.client.sismember(key, member)) === 1;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return this.client.smembers(key);
+  }
+
+  async scard(key: string): Promise<number> {
+    return this.client.scard(key);
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    await this.client.zadd(key, score, member);
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    return this.client.zrem(key, member);
+  }
+
+  /**
+   * Adds many members in a single ZADD per chunk; entries are
+   * [score, member] pairs.
+   */
+  async zaddMany(
+    key: string,
+    entries: [number, string][],
+    chunkSize = 1000,
+  ): Promise<void> {
+    for (let i = 0; i < entries.length; i += chunkSize) {
+      const args = entries.slice(i, i + chunkSize).flat();
+      await this.client.zadd(key, ...args);
+    }
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.client.zrange(key, start, stop);
+  }
+
+  async zrevrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.client.zrevrange(key, start, stop);
+  }
+
+  async zrevrank(key: string, member: string): Promise<number | null> {
+    return this.client.zrevrank(key, member);
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<string[]> {
+    return this.client.zrangebyscore(key, min, max);
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    const score = await this.client.zscore(key, member);
+    return score === null ? null : Number(score);
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.client.zcard(key);
+  }
+
+  async rename(key: string, newKey: string): Promise<void> {
+    await this.client.rename(key, newKey);
+  }
+
+  async eval(
+    script: string,
+    keys: string[],
+    args: (string | number)[] = [],
+  ): Promise<unknown> {
+    return this.client.eval(script, keys.length, ...keys, ...args);
+  }
+
+  /**
+   * Runs `task` holding `key` as a lock shared by every process on this
+   * Redis, waiting up to `waitMs` for it. The lock is extended every third
+   * of `ttlMs` for as long as the task runs, so a slow task keeps it; it
+   * lapses `ttlMs` after its holder dies, and only the holder can release
+   * it.
+   */
+  async withLock<T>(
+    key: string,
+    task: () => Promise<T>,
+    { ttlMs = LOCK_TTL_MS, waitMs = LOCK_WAIT_MS } = {},
+  ): Promise<T> {
+    const token = randomUUID();
+    const deadline = Date.now() + waitMs;
+    while ((await this.client.set(key, token, 'PX', ttlMs, 'NX')) !== 'OK') {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock ${key}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    const renewal = setInterval(() => {
+      this.eval(EXTEND_LOCK_SCRIPT, [key], [token, ttlMs]).then(
+        (extended) => {
+          if (extended !== 1) {
+            console.error(`❌ Lost lock ${key} while holding it`);
+          }
+        },
+        (err) => console.error(`❌ Could not extend lock ${key}:`, err),
+      );
+    }, ttlMs / 3);
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(renewal);
+      await this.eval(RELEASE_LOCK_SCRIPT, [key], [token]);
+    }
+  }
+}
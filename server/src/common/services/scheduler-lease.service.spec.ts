@@ -0,0 +1,72 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisService } from './redis.service';
+import { SchedulerLeaseService } from './scheduler-lease.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+describe('SchedulerLeaseService', () => {
+  let first: SchedulerLeaseService;
+  let second: SchedulerLeaseService;
+  let redisServices: RedisService[];
+
+  // One server instance; both share the same (mock) Redis
+  async function createInstance() {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerLeaseService,
+        RedisService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+      ],
+    }).compile();
+
+    const redis = module.get(RedisService);
+    await redis.onModuleInit();
+    return { lease: module.get(SchedulerLeaseService), redis };
+  }
+
+  beforeEach(async () => {
+    const instances = [await createInstance(), await createInstance()];
+    [first, second] = instances.map(({ lease }) => lease);
+    redisServices = instances.map(({ redis }) => redis);
+    await redisServices[0].getClient().flushall();
+  });
+
+  afterEach(async () => {
+    await first.onModuleDestroy();
+    await second.onModuleDestroy();
+    await Promise.all(
+      redisServices.map((redis) => redis.onApplicationShutdown()),
+    );
+  });
+
+  it('should let only one instance hold the lease', async () => {
+    expect(await first.renew()).toBe(true);
+    expect(await second.renew()).toBe(false);
+    expect(await first.renew()).toBe(true);
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+
+  it('should hand the lease over when its holder shuts down', async () => {
+    await first.renew();
+
+    await first.onModuleDestroy();
+
+    expect(first.isLeader()).toBe(false);
+    expect(await second.renew()).toBe(true);
+  });
+
+  it('should stop acting on the lease before it expires', async () => {
+    const now = Date.now();
+
+    await first.renew();
+
+    expect(first.isLeader(now + 3_000)).toBe(true);
+    expect(first.isLeader(now + 5_000)).toBe(false);
+  });
+});
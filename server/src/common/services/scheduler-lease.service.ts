@@ -0,0 +1,97 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { RedisService } from './redis.service';
+
+const LEASE_KEY = 'schedulers:lease';
+const LEASE_TTL_MS = 5_000;
+const RENEW_INTERVAL_MS = 1_000;
+// Stop acting on the lease this long before Redis would let it lapse, so
+// two instances never both believe they hold it
+const SAFETY_MARGIN_MS = 1_000;
+// Extends the lease if the caller holds it, or takes it if nobody does
+const ACQUIRE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+if redis.call('set', KEYS[1], ARGV[1], 'PX', ARGV[2], 'NX') then
+  return 1
+end
+return 0`;
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Elects the one server instance that runs the schedulers. Deadlines and
+ * queues live in Redis, so any instance can take over; the lease only
+ * keeps two of them from sweeping and broadcasting at the same time. It is
+ * renewed every second and lapses within five once its holder stops.
+ */
+@Injectable()
+export class SchedulerLeaseService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  readonly instanceId = randomUUID();
+  private readonly logger = new Logger(SchedulerLeaseService.name);
+  private interval: NodeJS.Timeout | null = null;
+  private heldUntil = 0;
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async onApplicationBootstrap() {
+    await this.renew();
+    this.interval = setInterval(() => void this.renew(), RENEW_INTERVAL_MS);
+  }
+
+  async onModuleDestroy() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    // Hand over at once rather than when the lease lapses
+    if (this.isLeader()) {
+      this.heldUntil = 0;
+      await this.redisService.eval(
+        RELEASE_SCRIPT,
+        [LEASE_KEY],
+        [this.instanceId],
+      );
+    }
+  }
+
+  isLeader(now = Date.now()): boolean {
+    return now < this.heldUntil;
+  }
+
+  /** Takes or extends the lease; returns whether this instance holds it. */
+  async renew(): Promise<boolean> {
+    // Timed from before the request, so the lease never outlives Redis's
+    const requestedAt = Date.now();
+    const wasLeader = this.isLeader(requestedAt);
+    try {
+      const held =
+        (await this.redisService.eval(
+          ACQUIRE_SCRIPT,
+          [LEASE_KEY],
+          [this.instanceId, LEASE_TTL_MS],
+        )) === 1;
+      this.heldUntil = held ? requestedAt + LEASE_TTL_MS - SAFETY_MARGIN_MS : 0;
+      if (held !== wasLeader) {
+        this.logger.log(
+          held ? 'Now running the schedulers' : 'Lost the scheduler lease',
+        );
+      }
+      return held;
+    } catch (error) {
+      this.logger.error('Scheduler lease renewal failed', error);
+      return this.isLeader();
+    }
+  }
+}
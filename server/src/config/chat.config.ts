@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('chat', () => ({
+  // Messages a player may send per window, across all rooms
+  rateLimit: parseInt(process.env.CHAT_RATE_LIMIT || '5', 10),
+  rateWindow: parseInt(process.env.CHAT_RATE_WINDOW_MS || '10000', 10),
+  // Comma-separated words masked in chat messages
+  bannedWords: (process.env.CHAT_BANNED_WORDS || '')
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean),
+}));
@@ -0,0 +1,8 @@
+import { DataSource, DataSourceOptions } from 'typeorm';
+import databaseConfig from './database.config';
+
+/**
+ * Data source for the TypeORM CLI (migration:generate/run/revert); the app
+ * itself connects through TypeOrmModule with the same options.
+ */
+export default new DataSource(databaseConfig() as DataSourceOptions);
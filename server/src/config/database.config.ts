@@ -11,7 +11,10 @@ export default registerAs(
     password: process.env.DATABASE_PASSWORD || 'postgres',
     database: process.env.DATABASE_NAME || 'caro_game',
     entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-    synchronize: process.env.NODE_ENV === 'development', // Only in development
+    migrations: [__dirname + '/../migrations/*{.ts,.js}'],
+    // The schema is owned by the migrations in every environment
+    synchronize: false,
+    migrationsRun: true,
     logging: process.env.NODE_ENV === 'development',
     autoLoadEntities: true,
   }),
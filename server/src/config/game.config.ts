@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('game', () => ({
+  // How often TIMER_UPDATE is broadcast to players, in milliseconds
+  timerUpdateInterval: parseInt(
+    process.env.TIMER_UPDATE_INTERVAL_MS || '1000',
+    10,
+  ),
+  // How long a disconnected player's seat is held before the game is
+  // abandoned, in milliseconds
+  reconnectGracePeriod: parseInt(
+    process.env.RECONNECT_GRACE_PERIOD_MS || '60000',
+    10,
+  ),
+  // Worker threads running bot searches
+  botWorkers: parseInt(process.env.BOT_WORKERS || '1', 10),
+  // A bot search taking longer than this is abandoned, in milliseconds
+  botMoveTimeout: parseInt(process.env.BOT_MOVE_TIMEOUT_MS || '10000', 10),
+}));
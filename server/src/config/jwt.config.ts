@@ -2,6 +2,9 @@ import { registerAs } from '@nestjs/config';
 
 export default registerAs('jwt', () => ({
   secret: process.env.JWT_SECRET || 'your-secret-key',
-  expiresIn: process.env.JWT_EXPIRATION || '7d',
+  expiresIn: process.env.JWT_EXPIRATION || '15m',
+  refreshSecret:
+    process.env.JWT_REFRESH_SECRET ||
+    `${process.env.JWT_SECRET || 'your-secret-key'}-refresh`,
+  refreshExpiresIn: process.env.JWT_REFRESH_EXPIRATION || '7d',
 }));
-
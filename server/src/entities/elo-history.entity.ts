@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { GameResult, PlayerSymbol } from '@shared/types/game.types';
+import { GameEntity } from './game.entity';
+import { PlayerEntity } from './player.entity';
+
+@Entity('elo_history')
+@Index(['playerId', 'gameId'], { unique: true })
+@Index(['playerId', 'createdAt'])
+export class EloHistoryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  playerId: string;
+
+  @ManyToOne(() => PlayerEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'playerId' })
+  player: PlayerEntity;
+
+  @Column({ type: 'uuid' })
+  gameId: string;
+
+  @ManyToOne(() => GameEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'gameId' })
+  game: GameEntity;
+
+  @Column({ type: 'uuid' })
+  opponentId: string;
+
+  // Opponent's rating before the game
+  @Column({ type: 'int' })
+  opponentElo: number;
+
+  @Column({ type: 'int' })
+  previousElo: number;
+
+  @Column({ type: 'int' })
+  newElo: number;
+
+  @Column({ type: 'int' })
+  change: number;
+
+  @Column({ type: 'varchar', length: 4 })
+  result: GameResult;
+
+  // The symbol the player had and the length of the game, kept so stats can
+  // be broken down without loading the game itself
+  @Column({ type: 'varchar', length: 1 })
+  symbol: PlayerSymbol;
+
+  @Column({ type: 'int' })
+  moveCount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
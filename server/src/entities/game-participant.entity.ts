@@ -0,0 +1,48 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { GameResult, PlayerSymbol } from '@shared/types/game.types';
+import { GameEntity } from './game.entity';
+import { PlayerEntity } from './player.entity';
+
+@Entity('game_participants')
+@Index(['gameId', 'playerId'], { unique: true })
+@Index(['gameId', 'symbol'], { unique: true })
+@Index(['playerId'])
+export class GameParticipantEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  gameId: string;
+
+  @ManyToOne(() => GameEntity, (game) => game.participants, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'gameId' })
+  game: GameEntity;
+
+  @Column({ type: 'uuid' })
+  playerId: string;
+
+  @ManyToOne(() => PlayerEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'playerId' })
+  player: PlayerEntity;
+
+  @Column({ type: 'varchar', length: 1 })
+  symbol: PlayerSymbol;
+
+  @Column({ type: 'varchar', length: 4 })
+  result: GameResult;
+
+  @Column({ type: 'int' })
+  eloBefore: number;
+
+  @Column({ type: 'int' })
+  eloAfter: number;
+}
@@ -0,0 +1,77 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryColumn,
+} from 'typeorm';
+import type {
+  AnalysisStatus,
+  BoardGeometry,
+  GameEndReason,
+  GameStatus,
+  RuleVariant,
+  TimeControl,
+  WinningLine,
+} from '@shared/types/game.types';
+import { GameParticipantEntity } from './game-participant.entity';
+import { MoveEntity } from './move.entity';
+import { PlayerEntity } from './player.entity';
+
+/** A finished game, archived from Redis once it is over. */
+@Entity('games')
+@Index(['endedAt'])
+export class GameEntity {
+  // Same id the game had in Redis
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  roomId: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  status: Extract<GameStatus, 'completed' | 'abandoned'>;
+
+  @Column({ type: 'varchar', length: 10 })
+  ruleset: RuleVariant;
+
+  @Column({ type: 'jsonb' })
+  geometry: BoardGeometry;
+
+  @Column({ type: 'jsonb' })
+  timeControl: TimeControl;
+
+  @Column({ type: 'varchar', length: 16 })
+  reason: GameEndReason;
+
+  @Column({ type: 'uuid', nullable: true })
+  winnerId: string | null;
+
+  @ManyToOne(() => PlayerEntity, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'winnerId' })
+  winner: PlayerEntity | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  winningLine: WinningLine | null;
+
+  @Column({ type: 'int' })
+  moveCount: number;
+
+  @Column({ type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp' })
+  endedAt: Date;
+
+  // Null for games archived before analysis existed
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  analysis: AnalysisStatus | null;
+
+  @OneToMany(() => GameParticipantEntity, (participant) => participant.game)
+  participants: GameParticipantEntity[];
+
+  @OneToMany(() => MoveEntity, (move) => move.game)
+  moves: MoveEntity[];
+}
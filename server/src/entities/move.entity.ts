@@ -0,0 +1,70 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type {
+  ForcedWin,
+  MoveQuality,
+  PlayerSymbol,
+} from '@shared/types/game.types';
+import { GameEntity } from './game.entity';
+
+@Entity('moves')
+@Index(['gameId', 'moveNumber'], { unique: true })
+export class MoveEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  gameId: string;
+
+  @ManyToOne(() => GameEntity, (game) => game.moves, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'gameId' })
+  game: GameEntity;
+
+  // 1-based position in the game
+  @Column({ type: 'int' })
+  moveNumber: number;
+
+  // Move.player in the shared types
+  @Column({ type: 'varchar', length: 1 })
+  symbol: PlayerSymbol;
+
+  // Absolute board coordinates; may be negative on infinite boards
+  @Column({ type: 'int' })
+  row: number;
+
+  @Column({ type: 'int' })
+  col: number;
+
+  @Column({ type: 'timestamp' })
+  playedAt: Date;
+
+  // Milliseconds left on the mover's turn clock
+  @Column({ type: 'int', nullable: true })
+  timeRemaining: number | null;
+
+  // Analysis annotations, null until the game has been analysed
+
+  @Column({ type: 'int', nullable: true })
+  evaluation: number | null;
+
+  @Column({ type: 'varchar', length: 12, nullable: true })
+  quality: MoveQuality | null;
+
+  @Column({ type: 'int', nullable: true })
+  bestRow: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  bestCol: number | null;
+
+  @Column({ type: 'varchar', length: 12, nullable: true })
+  missedWin: ForcedWin | null;
+
+  @Column({ type: 'varchar', length: 12, nullable: true })
+  allowedWin: ForcedWin | null;
+}
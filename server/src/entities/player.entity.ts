@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { GAME_CONFIG } from '@shared/types/game.types';
+
+@Entity('players')
+export class PlayerEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50, unique: true })
+  @Index()
+  username: string;
+
+  @Column({ type: 'varchar', length: 255, select: false })
+  passwordHash: string;
+
+  @Column({ type: 'int', default: GAME_CONFIG.STARTING_ELO })
+  elo: number;
+
+  @Column({ type: 'int', default: 0 })
+  wins: number;
+
+  @Column({ type: 'int', default: 0 })
+  losses: number;
+
+  @Column({ type: 'int', default: 0 })
+  draws: number;
+
+  @Column({ type: 'boolean', default: false })
+  isOnline: boolean;
+
+  // Computer opponents; they cannot log in and their games are unrated
+  @Column({ type: 'boolean', default: false })
+  isBot: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
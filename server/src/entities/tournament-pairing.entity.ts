@@ -0,0 +1,47 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { PairingResult } from '@shared/types/game.types';
+import { TournamentEntity } from './tournament.entity';
+
+@Entity('tournament_pairings')
+@Index(['tournamentId', 'round', 'board'], { unique: true })
+@Index(['roomId'])
+export class TournamentPairingEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  tournamentId: string;
+
+  @ManyToOne(() => TournamentEntity, (tournament) => tournament.pairings, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'tournamentId' })
+  tournament: TournamentEntity;
+
+  @Column({ type: 'int' })
+  round: number;
+
+  @Column({ type: 'int' })
+  board: number;
+
+  @Column({ type: 'uuid' })
+  firstPlayerId: string;
+
+  // Null for a bye
+  @Column({ type: 'uuid', nullable: true })
+  secondPlayerId: string | null;
+
+  // The room the game is played in, once it is opened
+  @Column({ type: 'uuid', nullable: true })
+  roomId: string | null;
+
+  @Column({ type: 'varchar', length: 6, nullable: true })
+  result: PairingResult | null;
+}
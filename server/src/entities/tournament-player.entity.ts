@@ -0,0 +1,44 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { PlayerEntity } from './player.entity';
+import { TournamentEntity } from './tournament.entity';
+
+@Entity('tournament_players')
+@Index(['tournamentId', 'playerId'], { unique: true })
+export class TournamentPlayerEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  tournamentId: string;
+
+  @ManyToOne(() => TournamentEntity, (tournament) => tournament.players, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'tournamentId' })
+  tournament: TournamentEntity;
+
+  @Column({ type: 'uuid' })
+  playerId: string;
+
+  @ManyToOne(() => PlayerEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'playerId' })
+  player: PlayerEntity;
+
+  // Rating at registration, which seeds the player
+  @Column({ type: 'int' })
+  elo: number;
+
+  @Column({ type: 'int', nullable: true })
+  seed: number | null;
+
+  @CreateDateColumn()
+  registeredAt: Date;
+}
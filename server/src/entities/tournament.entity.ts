@@ -0,0 +1,74 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type {
+  RuleVariant,
+  TimeControl,
+  TournamentFormat,
+  TournamentStatus,
+} from '@shared/types/game.types';
+import { PlayerEntity } from './player.entity';
+import { TournamentPairingEntity } from './tournament-pairing.entity';
+import { TournamentPlayerEntity } from './tournament-player.entity';
+
+@Entity('tournaments')
+@Index(['status', 'createdAt'])
+export class TournamentEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  format: TournamentFormat;
+
+  @Column({ type: 'varchar', length: 10 })
+  ruleset: RuleVariant;
+
+  @Column({ type: 'jsonb' })
+  timeControl: TimeControl;
+
+  @Column({ type: 'varchar', length: 12, default: 'registration' })
+  status: TournamentStatus;
+
+  @Column({ type: 'uuid' })
+  organizerId: string;
+
+  @ManyToOne(() => PlayerEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizerId' })
+  organizer: PlayerEntity;
+
+  // Rounds the organizer asked for; Swiss only
+  @Column({ type: 'int', nullable: true })
+  requestedRounds: number | null;
+
+  // Set on start, from the format and the number of players
+  @Column({ type: 'int', nullable: true })
+  rounds: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  currentRound: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  endedAt: Date | null;
+
+  @OneToMany(() => TournamentPlayerEntity, (player) => player.tournament)
+  players: TournamentPlayerEntity[];
+
+  @OneToMany(() => TournamentPairingEntity, (pairing) => pairing.tournament)
+  pairings: TournamentPairingEntity[];
+}
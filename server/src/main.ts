@@ -1,7 +1,9 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { RedisOptions } from 'ioredis';
 import { AppModule } from './app.module';
+import { RedisIoAdapter } from './common/adapters/redis-io.adapter';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -25,6 +27,11 @@ async function bootstrap() {
   // Global prefix
   app.setGlobalPrefix('api');
 
+  // Share Socket.IO broadcasts between server instances through Redis
+  const ioAdapter = new RedisIoAdapter(app);
+  ioAdapter.connectToRedis(configService.getOrThrow<RedisOptions>('redis'));
+  app.useWebSocketAdapter(ioAdapter);
+
   const port = configService.get('PORT') || 3001;
   await app.listen(port);
 
@@ -0,0 +1,116 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1792404000000 implements MigrationInterface {
+  name = 'InitialSchema1792404000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+    await queryRunner.query(
+      `CREATE TABLE "players" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "username" character varying(50) NOT NULL, "passwordHash" character varying(255) NOT NULL, "elo" integer NOT NULL DEFAULT '1000', "wins" integer NOT NULL DEFAULT '0', "losses" integer NOT NULL DEFAULT '0', "draws" integer NOT NULL DEFAULT '0', "isOnline" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_0ba988c87a279b5067d273c5924" UNIQUE ("username"), CONSTRAINT "PK_de22b8fdeee0c33ab55ae71da3b" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0ba988c87a279b5067d273c592" ON "players" ("username")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "games" ("id" uuid NOT NULL, "roomId" uuid NOT NULL, "status" character varying(10) NOT NULL, "ruleset" character varying(10) NOT NULL, "geometry" jsonb NOT NULL, "reason" character varying(16) NOT NULL, "winnerId" uuid, "winningLine" jsonb, "moveCount" integer NOT NULL, "startedAt" TIMESTAMP NOT NULL, "endedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_c9b16b62917b5595af982d66337" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_9352f052f3b45924e17c330261" ON "games" ("endedAt")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "game_participants" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "gameId" uuid NOT NULL, "playerId" uuid NOT NULL, "symbol" character varying(1) NOT NULL, "result" character varying(4) NOT NULL, "eloBefore" integer NOT NULL, "eloAfter" integer NOT NULL, CONSTRAINT "PK_618ce5d9c1d1fc107c16f3d0e17" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_1d9529f5fd7b50927ad5d365c5" ON "game_participants" ("playerId")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_ea4e361baa1f30abc0ab1bd107" ON "game_participants" ("gameId", "symbol")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_b6a612bd9f2f100ab1d31aa0b3" ON "game_participants" ("gameId", "playerId")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "moves" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "gameId" uuid NOT NULL, "moveNumber" integer NOT NULL, "symbol" character varying(1) NOT NULL, "row" integer NOT NULL, "col" integer NOT NULL, "playedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_fcbf4e07f988d7d37d00e933133" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_15d0043b746539c4a57f9c0a84" ON "moves" ("gameId", "moveNumber")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "elo_history" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "playerId" uuid NOT NULL, "gameId" uuid NOT NULL, "opponentId" uuid NOT NULL, "opponentElo" integer NOT NULL, "previousElo" integer NOT NULL, "newElo" integer NOT NULL, "change" integer NOT NULL, "result" character varying(4) NOT NULL, "symbol" character varying(1) NOT NULL, "moveCount" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_db7ab79cbc57f1616c8c3c575a5" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b07fb89bf0c2c7d3180cdc18fa" ON "elo_history" ("playerId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_a7d2e56ecaf097b1665b4592cf" ON "elo_history" ("playerId", "gameId")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "game_participants" ADD CONSTRAINT "FK_4f36bd9a2771883a2465b9cfc04" FOREIGN KEY ("gameId") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "game_participants" ADD CONSTRAINT "FK_1d9529f5fd7b50927ad5d365c5b" FOREIGN KEY ("playerId") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moves" ADD CONSTRAINT "FK_56ec01a71f76da6fca3509439d6" FOREIGN KEY ("gameId") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "games" ADD CONSTRAINT "FK_e528275f53e8f4a97f1b2e7dfb8" FOREIGN KEY ("winnerId") REFERENCES "players"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "elo_history" ADD CONSTRAINT "FK_9b567319b99f8eae70b0c256a17" FOREIGN KEY ("playerId") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "elo_history" ADD CONSTRAINT "FK_bc55deb58fcd7dd87db28e11207" FOREIGN KEY ("gameId") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "elo_history" DROP CONSTRAINT "FK_bc55deb58fcd7dd87db28e11207"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "elo_history" DROP CONSTRAINT "FK_9b567319b99f8eae70b0c256a17"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "games" DROP CONSTRAINT "FK_e528275f53e8f4a97f1b2e7dfb8"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moves" DROP CONSTRAINT "FK_56ec01a71f76da6fca3509439d6"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "game_participants" DROP CONSTRAINT "FK_1d9529f5fd7b50927ad5d365c5b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "game_participants" DROP CONSTRAINT "FK_4f36bd9a2771883a2465b9cfc04"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_a7d2e56ecaf097b1665b4592cf"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b07fb89bf0c2c7d3180cdc18fa"`,
+    );
+    await queryRunner.query(`DROP TABLE "elo_history"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_15d0043b746539c4a57f9c0a84"`,
+    );
+    await queryRunner.query(`DROP TABLE "moves"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b6a612bd9f2f100ab1d31aa0b3"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ea4e361baa1f30abc0ab1bd107"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_1d9529f5fd7b50927ad5d365c5"`,
+    );
+    await queryRunner.query(`DROP TABLE "game_participants"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_9352f052f3b45924e17c330261"`,
+    );
+    await queryRunner.query(`DROP TABLE "games"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0ba988c87a279b5067d273c592"`,
+    );
+    await queryRunner.query(`DROP TABLE "players"`);
+  }
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMoveTimeRemaining1792407600000 implements MigrationInterface {
+  name = 'AddMoveTimeRemaining1792407600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "moves" ADD "timeRemaining" integer`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "timeRemaining"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGameAnalysis1792414800000 implements MigrationInterface {
+  name = 'AddGameAnalysis1792414800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "games" ADD "analysis" character varying(10)`,
+    );
+    await queryRunner.query(`ALTER TABLE "moves" ADD "evaluation" integer`);
+    await queryRunner.query(
+      `ALTER TABLE "moves" ADD "quality" character varying(12)`,
+    );
+    await queryRunner.query(`ALTER TABLE "moves" ADD "bestRow" integer`);
+    await queryRunner.query(`ALTER TABLE "moves" ADD "bestCol" integer`);
+    await queryRunner.query(
+      `ALTER TABLE "moves" ADD "missedWin" character varying(12)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "moves" ADD "allowedWin" character varying(12)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "allowedWin"`);
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "missedWin"`);
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "bestCol"`);
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "bestRow"`);
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "quality"`);
+    await queryRunner.query(`ALTER TABLE "moves" DROP COLUMN "evaluation"`);
+    await queryRunner.query(`ALTER TABLE "games" DROP COLUMN "analysis"`);
+  }
+}
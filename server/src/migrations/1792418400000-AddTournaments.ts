@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTournaments1792418400000 implements MigrationInterface {
+  name = 'AddTournaments1792418400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "tournaments" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying(100) NOT NULL, "format" character varying(20) NOT NULL, "ruleset" character varying(10) NOT NULL, "status" character varying(12) NOT NULL DEFAULT 'registration', "organizerId" uuid NOT NULL, "requestedRounds" integer, "rounds" integer, "currentRound" integer NOT NULL DEFAULT '0', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "startedAt" TIMESTAMP, "endedAt" TIMESTAMP, CONSTRAINT "PK_6d5d129da7a80cf99e8ad4833a9" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0a107a6e79885845f989ad52a7" ON "tournaments" ("status", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "tournament_players" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "tournamentId" uuid NOT NULL, "playerId" uuid NOT NULL, "elo" integer NOT NULL, "seed" integer, "registeredAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_f6d9adf041fd0f856fd78734994" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_8ee22389db88f79f4975a2524f" ON "tournament_players" ("tournamentId", "playerId")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "tournament_pairings" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "tournamentId" uuid NOT NULL, "round" integer NOT NULL, "board" integer NOT NULL, "firstPlayerId" uuid NOT NULL, "secondPlayerId" uuid, "roomId" uuid, "result" character varying(6), CONSTRAINT "PK_115d81a0b40ff548e87aa86d7ae" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0565b315d22b165fbbed875e9c" ON "tournament_pairings" ("roomId")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_f85ec629fce9a7cc4eeef9f37e" ON "tournament_pairings" ("tournamentId", "round", "board")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournaments" ADD CONSTRAINT "FK_56d61850223447c3b8900979dec" FOREIGN KEY ("organizerId") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournament_players" ADD CONSTRAINT "FK_97c7b74185fba6e51ba4eddb8cd" FOREIGN KEY ("tournamentId") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournament_players" ADD CONSTRAINT "FK_fa4365688b938033978f81c2c24" FOREIGN KEY ("playerId") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournament_pairings" ADD CONSTRAINT "FK_72410f4e0b847743aa0cf30cab9" FOREIGN KEY ("tournamentId") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tournament_pairings" DROP CONSTRAINT "FK_72410f4e0b847743aa0cf30cab9"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournament_players" DROP CONSTRAINT "FK_fa4365688b938033978f81c2c24"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournament_players" DROP CONSTRAINT "FK_97c7b74185fba6e51ba4eddb8cd"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tournaments" DROP CONSTRAINT "FK_56d61850223447c3b8900979dec"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_f85ec629fce9a7cc4eeef9f37e"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0565b315d22b165fbbed875e9c"`,
+    );
+    await queryRunner.query(`DROP TABLE "tournament_pairings"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_8ee22389db88f79f4975a2524f"`,
+    );
+    await queryRunner.query(`DROP TABLE "tournament_players"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0a107a6e79885845f989ad52a7"`,
+    );
+    await queryRunner.query(`DROP TABLE "tournaments"`);
+  }
+}
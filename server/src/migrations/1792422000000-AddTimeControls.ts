@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTimeControls1792422000000 implements MigrationInterface {
+  name = 'AddTimeControls1792422000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "games" ADD "timeControl" jsonb`);
+    await queryRunner.query(
+      `ALTER TABLE "tournaments" ADD "timeControl" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tournaments" DROP COLUMN "timeControl"`,
+    );
+    await queryRunner.query(`ALTER TABLE "games" DROP COLUMN "timeControl"`);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// The flat 30 seconds per move that came before time controls
+const TURN_CLOCK =
+  '{"initial":0,"increment":0,"byoyomiPeriods":1,"byoyomiTime":30000}';
+
+export class RequireTimeControls1792425600000 implements MigrationInterface {
+  name = 'RequireTimeControls1792425600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['games', 'tournaments']) {
+      await queryRunner.query(
+        `UPDATE "${table}" SET "timeControl" = $1 WHERE "timeControl" IS NULL`,
+        [TURN_CLOCK],
+      );
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "timeControl" SET NOT NULL`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tournaments" ALTER COLUMN "timeControl" DROP NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "games" ALTER COLUMN "timeControl" DROP NOT NULL`,
+    );
+  }
+}
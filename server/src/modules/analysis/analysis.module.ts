@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { GameEntity } from '../../entities/game.entity';
+import { BotModule } from '../bot/bot.module';
+import { AnalysisScheduler } from './analysis.scheduler';
+import { AnalysisService } from './analysis.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([GameEntity]), BotModule],
+  providers: [AnalysisService, AnalysisScheduler],
+  exports: [AnalysisService],
+})
+export class AnalysisModule {}
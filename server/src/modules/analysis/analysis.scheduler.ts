@@ -0,0 +1,100 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { AnalysisService } from './analysis.service';
+
+const SWEEP_INTERVAL_MS = 1000;
+
+/**
+ * Works through the analysis queue one game at a time, in the background.
+ * Games a stopped process left pending are queued again by whichever
+ * instance takes over the scheduler lease.
+ */
+@Injectable()
+export class AnalysisScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(AnalysisScheduler.name);
+  private interval: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private leading = false;
+
+  constructor(
+    private readonly analysisService: AnalysisService,
+    private readonly lease: SchedulerLeaseService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.interval = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async sweep(): Promise<void> {
+    // A game can take longer to analyse than the interval
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+    try {
+      await this.requeueOnTakeover();
+      const gameIds = await this.analysisService.findQueued();
+      for (const gameId of gameIds) {
+        // Shutting down: the rest stay queued for the next start
+        if (!this.interval) {
+          return;
+        }
+        if (await this.analysisService.claim(gameId)) {
+          await this.analyse(gameId);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Analysis sweep failed', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Only the lease holder queues the pending games again: a replica starting
+   * up alongside others would queue the ones they are still analysing.
+   */
+  private async requeueOnTakeover(): Promise<void> {
+    const leading = this.lease.isLeader();
+    if (leading && !this.leading) {
+      try {
+        const count = await this.analysisService.requeuePending();
+        if (count > 0) {
+          this.logger.log(`Queued ${count} pending games for analysis`);
+        }
+      } catch (error) {
+        // Tried again on the next sweep
+        this.logger.error('Failed to queue pending games for analysis', error);
+        return;
+      }
+    }
+    this.leading = leading;
+  }
+
+  private async analyse(gameId: string): Promise<void> {
+    try {
+      await this.analysisService.analyse(gameId);
+    } catch (error) {
+      // Shutting down: the game stays pending for the next start
+      if (!this.interval) {
+        return;
+      }
+      this.logger.error(`Failed to analyse game ${gameId}`, error);
+      await this.analysisService.markFailed(gameId);
+    }
+  }
+}
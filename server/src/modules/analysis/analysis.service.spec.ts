@@ -0,0 +1,148 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { DataSource } from 'typeorm';
+import { DEFAULT_TIME_CONTROL } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+import { createTestDataSource } from '../../testing/test-data-source';
+import { BotWorkerPool } from '../bot/bot-worker.pool';
+import { PositionRequest } from '../bot/search';
+import { analysePosition } from './analysis';
+import { AnalysisService } from './analysis.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+// O lets X's open three become an open four on move 6; X wins on move 9
+const MOVES: [row: number, col: number][] = [
+  [7, 5],
+  [0, 0],
+  [7, 6],
+  [0, 14],
+  [7, 7],
+  [14, 0],
+  [7, 8],
+  [7, 4],
+  [7, 9],
+];
+
+describe('AnalysisService', () => {
+  let dataSource: DataSource;
+  let redisService: RedisService;
+  let analysisService: AnalysisService;
+  const analyse = jest.fn();
+  const gameId = randomUUID();
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    analyse.mockReset();
+    analyse.mockImplementation((request: PositionRequest) =>
+      Promise.resolve(analysePosition(request)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisService,
+        RedisService,
+        { provide: DataSource, useValue: dataSource },
+        {
+          provide: getRepositoryToken(GameEntity),
+          useValue: dataSource.getRepository(GameEntity),
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+        { provide: BotWorkerPool, useValue: { analyse } },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    analysisService = module.get(AnalysisService);
+
+    await dataSource.getRepository(GameEntity).insert({
+      id: gameId,
+      roomId: randomUUID(),
+      status: 'completed',
+      ruleset: 'freestyle',
+      geometry: { size: 15, winLength: 5, infinite: false },
+      timeControl: DEFAULT_TIME_CONTROL,
+      reason: 'five-in-a-row',
+      winnerId: null,
+      winningLine: null,
+      moveCount: MOVES.length,
+      startedAt: new Date(0),
+      endedAt: new Date(10_000),
+      analysis: 'pending',
+    });
+    await dataSource.getRepository(MoveEntity).insert(
+      MOVES.map(([row, col], index) => ({
+        gameId,
+        moveNumber: index + 1,
+        symbol: index % 2 === 0 ? 'X' : 'O',
+        row,
+        col,
+        playedAt: new Date(index * 1000),
+        timeRemaining: null,
+      })),
+    );
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+    await dataSource.destroy();
+  });
+
+  it('should annotate every move of a game', async () => {
+    await analysisService.analyse(gameId);
+
+    expect(
+      await dataSource.getRepository(GameEntity).findOneBy({ id: gameId }),
+    ).toMatchObject({ analysis: 'complete' });
+    const moves = await dataSource
+      .getRepository(MoveEntity)
+      .find({ where: { gameId }, order: { moveNumber: 'ASC' } });
+    expect(moves.every((move) => move.quality !== null)).toBe(true);
+    expect(moves[5]).toMatchObject({
+      quality: 'blunder',
+      allowedWin: 'open-four',
+      evaluation: 1000,
+    });
+    // Already lost after move 6, so blocking one end is not blamed
+    expect(moves[7]).toMatchObject({ allowedWin: null });
+    expect(moves[8]).toMatchObject({ quality: 'good', evaluation: 1000 });
+    // Every position but the final, won one
+    expect(analyse).toHaveBeenCalledTimes(MOVES.length);
+  }, 60_000);
+
+  it('should leave the game pending when a position cannot be analysed', async () => {
+    analyse.mockRejectedValue(new Error('Bot search timed out'));
+
+    await expect(analysisService.analyse(gameId)).rejects.toThrow(
+      'Bot search timed out',
+    );
+    expect(
+      await dataSource.getRepository(GameEntity).findOneBy({ id: gameId }),
+    ).toMatchObject({ analysis: 'pending' });
+
+    await analysisService.markFailed(gameId);
+    expect(
+      await dataSource.getRepository(GameEntity).findOneBy({ id: gameId }),
+    ).toMatchObject({ analysis: 'failed' });
+  });
+
+  it('should queue games so only one caller claims each', async () => {
+    const other = randomUUID();
+    await analysisService.enqueue(other, 20_000);
+
+    expect(await analysisService.requeuePending()).toBe(1);
+    expect(await analysisService.findQueued()).toEqual([gameId, other]);
+    expect(await analysisService.claim(gameId)).toBe(true);
+    expect(await analysisService.claim(gameId)).toBe(false);
+    expect(await analysisService.findQueued()).toEqual([other]);
+  });
+});
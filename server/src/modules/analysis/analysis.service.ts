@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import {
+  applyMove,
+  checkWin,
+  createBoardFromGeometry,
+  getOpponent,
+} from '@shared/types/game.engine';
+import { Move, MoveAnnotation } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+import { BotWorkerPool } from '../bot/bot-worker.pool';
+import { annotateMoves, LOST_POSITION, PositionAnalysis } from './analysis';
+
+// Sorted set of archived games waiting for analysis, scored by when they
+// were queued
+const ANALYSIS_QUEUE_KEY = 'games:analysis-queue';
+
+/**
+ * Engine analysis of archived games. Every position is evaluated on the
+ * bot worker pool and each move is stored with its annotation.
+ */
+@Injectable()
+export class AnalysisService {
+  private readonly logger = new Logger(AnalysisService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(GameEntity)
+    private readonly gameRepository: Repository<GameEntity>,
+    private readonly redisService: RedisService,
+    private readonly workerPool: BotWorkerPool,
+  ) {}
+
+  /**
+   * Queues an archived game for analysis. A failure is logged rather than
+   * thrown; the game stays pending and is queued again when an instance
+   * next takes over the scheduler lease.
+   */
+  async enqueue(gameId: string, now = Date.now()): Promise<void> {
+    try {
+      await this.redisService.zadd(ANALYSIS_QUEUE_KEY, now, gameId);
+    } catch (error) {
+      this.logger.error(`Failed to queue game ${gameId} for analysis`, error);
+    }
+  }
+
+  /** Queues every game still pending, such as one cut off by a restart. */
+  async requeuePending(): Promise<number> {
+    const games = await this.gameRepository.find({
+      select: { id: true, endedAt: true },
+      where: { analysis: 'pending' },
+    });
+    for (const game of games) {
+      await this.redisService.zadd(
+        ANALYSIS_QUEUE_KEY,
+        game.endedAt.getTime(),
+        game.id,
+      );
+    }
+    return games.length;
+  }
+
+  /** Queued games, oldest first. */
+  async findQueued(): Promise<string[]> {
+    return this.redisService.zrangebyscore(ANALYSIS_QUEUE_KEY, '-inf', '+inf');
+  }
+
+  /**
+   * Takes a game off the queue. Only the caller that gets true may analyse
+   * it.
+   */
+  async claim(gameId: string): Promise<boolean> {
+    return (await this.redisService.zrem(ANALYSIS_QUEUE_KEY, gameId)) === 1;
+  }
+
+  /**
+   * Replays the game, analyses every position and stores an annotation on
+   * each move. Throws when a position cannot be analysed, leaving the game
+   * pending.
+   */
+  async analyse(gameId: string): Promise<void> {
+    const game = await this.gameRepository.findOne({
+      where: { id: gameId },
+      relations: { moves: true },
+      order: { moves: { moveNumber: 'ASC' } },
+    });
+    if (!game) {
+      this.logger.warn(`Game ${gameId} to analyse no longer exists`);
+      return;
+    }
+
+    const annotations = await this.annotate(game);
+    await this.dataSource.transaction(async (manager) => {
+      for (const [index, annotation] of annotations.entries()) {
+        await manager.update(
+          MoveEntity,
+          { gameId, moveNumber: index + 1 },
+          {
+            evaluation: annotation.evaluation,
+            quality: annotation.quality,
+            bestRow: annotation.bestMove?.row ?? null,
+            bestCol: annotation.bestMove?.col ?? null,
+            missedWin: annotation.missedWin,
+            allowedWin: annotation.allowedWin,
+          },
+        );
+      }
+      await manager.update(
+        GameEntity,
+        { id: gameId },
+        { analysis: 'complete' },
+      );
+    });
+    this.logger.log(`Analysed game ${gameId}`);
+  }
+
+  async markFailed(gameId: string): Promise<void> {
+    await this.gameRepository.update({ id: gameId }, { analysis: 'failed' });
+  }
+
+  /**
+   * Analyses the position before every move and the final one, a position
+   * at a time so bot moves are not held up behind a whole game.
+   */
+  private async annotate(game: GameEntity): Promise<MoveAnnotation[]> {
+    if (game.moves.length === 0) {
+      return [];
+    }
+    const moves: Move[] = game.moves.map((move) => ({
+      position: { row: move.row, col: move.col },
+      player: move.symbol,
+      timestamp: move.playedAt.getTime(),
+    }));
+    const options = {
+      ruleset: game.ruleset,
+      winLength: game.geometry.winLength,
+    };
+
+    let board = createBoardFromGeometry(game.geometry);
+    const positions: PositionAnalysis[] = [];
+    for (const move of moves) {
+      positions.push(
+        await this.workerPool.analyse({
+          board,
+          symbol: move.player,
+          ...options,
+        }),
+      );
+      board = applyMove(board, move);
+    }
+
+    const last = moves[moves.length - 1];
+    positions.push(
+      checkWin(board, last.position, options).isWin
+        ? LOST_POSITION
+        : await this.workerPool.analyse({
+            board,
+            symbol: getOpponent(last.player),
+            ...options,
+          }),
+    );
+    return annotateMoves(moves, positions);
+  }
+}
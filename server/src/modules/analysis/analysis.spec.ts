@@ -0,0 +1,158 @@
+import { createBoard } from '@shared/types/game.engine';
+import { Move, PlayerSymbol, Position } from '@shared/types/game.types';
+import {
+  analysePosition,
+  annotateMoves,
+  LOST_POSITION,
+  PositionAnalysis,
+} from './analysis';
+
+function position(
+  evaluation: number,
+  changes: Partial<PositionAnalysis> = {},
+): PositionAnalysis {
+  return {
+    evaluation,
+    best: { row: 0, col: 0 },
+    forcedWin: null,
+    forcedAfterBest: null,
+    ...changes,
+  };
+}
+
+function move(player: PlayerSymbol, row: number, col: number): Move {
+  return { position: { row, col }, player, timestamp: 0 };
+}
+
+describe('annotateMoves', () => {
+  it('should grade moves by the evaluation they give up', () => {
+    const moves = [move('X', 7, 7), move('O', 7, 8), move('X', 6, 6)];
+    // Each evaluation is for the side to move
+    const positions = [
+      position(50),
+      position(-40), // X gave up 10
+      position(190), // O gave up 150
+      position(110), // X gave up 300
+    ];
+
+    expect(
+      annotateMoves(moves, positions).map(({ evaluation, quality }) => ({
+        evaluation,
+        quality,
+      })),
+    ).toEqual([
+      { evaluation: 40, quality: 'good' },
+      { evaluation: 190, quality: 'inaccuracy' },
+      { evaluation: -110, quality: 'blunder' },
+    ]);
+  });
+
+  it('should flag a forced win the mover let go', () => {
+    const win: Position = { row: 7, col: 4 };
+    const positions = [
+      position(1000, {
+        best: win,
+        forcedWin: { kind: 'open-four', moves: [win] },
+      }),
+      position(0),
+    ];
+
+    expect(annotateMoves([move('X', 1, 1)], positions)).toEqual([
+      {
+        evaluation: 0,
+        quality: 'blunder',
+        bestMove: win,
+        missedWin: 'open-four',
+        allowedWin: null,
+      },
+    ]);
+  });
+
+  it('should not flag a forced win the move still wins', () => {
+    const positions = [
+      position(1000, {
+        forcedWin: { kind: 'five', moves: [{ row: 7, col: 4 }] },
+      }),
+      LOST_POSITION,
+    ];
+
+    expect(annotateMoves([move('X', 7, 9)], positions)).toMatchObject([
+      { evaluation: 1000, quality: 'good', missedWin: null },
+    ]);
+  });
+
+  it('should flag a forced win handed to the opponent', () => {
+    const positions = [
+      position(0),
+      position(1000, {
+        forcedWin: { kind: 'four-three', moves: [{ row: 3, col: 3 }] },
+      }),
+    ];
+
+    expect(annotateMoves([move('O', 1, 1)], positions)).toMatchObject([
+      { evaluation: 1000, quality: 'blunder', allowedWin: 'four-three' },
+    ]);
+  });
+
+  it('should not blame a move when even the best one allowed the win', () => {
+    const positions = [
+      position(-1000, { forcedAfterBest: 'double-four' }),
+      position(1000, {
+        forcedWin: { kind: 'double-four', moves: [{ row: 3, col: 3 }] },
+      }),
+    ];
+
+    expect(annotateMoves([move('X', 1, 1)], positions)).toMatchObject([
+      { quality: 'good', allowedWin: null },
+    ]);
+  });
+
+  it('should need the position after the last move', () => {
+    expect(() => annotateMoves([move('X', 7, 7)], [position(0)])).toThrow(
+      'Expected 2 positions, got 1',
+    );
+  });
+});
+
+describe('analysePosition', () => {
+  it('should see the win in an open three', () => {
+    const board = createBoard(15);
+    board.cells[7][5] = 'X';
+    board.cells[7][6] = 'X';
+    board.cells[7][7] = 'X';
+    board.cells[2][2] = 'O';
+    board.cells[12][12] = 'O';
+
+    const analysis = analysePosition({
+      board,
+      symbol: 'X',
+      ruleset: 'freestyle',
+      winLength: 5,
+    });
+
+    expect(analysis.evaluation).toBe(1000);
+    expect(analysis.forcedWin?.kind).toBe('open-four');
+    expect(analysis.forcedWin?.moves).toContainEqual(analysis.best);
+  });
+
+  it("should stop the opponent's open three", () => {
+    const board = createBoard(15);
+    board.cells[7][5] = 'O';
+    board.cells[7][6] = 'O';
+    board.cells[7][7] = 'O';
+    board.cells[2][2] = 'X';
+    board.cells[12][12] = 'X';
+
+    const analysis = analysePosition({
+      board,
+      symbol: 'X',
+      ruleset: 'freestyle',
+      winLength: 5,
+    });
+
+    expect(analysis.forcedWin).toBeNull();
+    expect(analysis.best?.row).toBe(7);
+    expect(analysis.forcedAfterBest).toBeNull();
+    expect(analysis.evaluation).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,157 @@
+import { getOpponent } from '@shared/types/game.engine';
+import {
+  ForcedWin,
+  GameBoard,
+  Move,
+  MoveAnnotation,
+  MoveQuality,
+  PlayerSymbol,
+  Position,
+} from '@shared/types/game.types';
+import {
+  DifficultyProfile,
+  findForcedWin,
+  ForcedWinThreat,
+  isDecisive,
+  PositionRequest,
+  searchPosition,
+} from '../bot/search';
+
+export interface PositionAnalysis {
+  // For the side to move, from -1000 (lost) to 1000 (won)
+  evaluation: number;
+  best: Position | null;
+  forcedWin: ForcedWinThreat | null;
+  // The opponent's forced win after the best move, when even that allows one
+  forcedAfterBest: ForcedWin | null;
+}
+
+// Deeper and wider than the hard bot, with a time budget per position
+export const ANALYSIS_PROFILE: DifficultyProfile = {
+  depth: 4,
+  width: 12,
+  spread: 1,
+  defense: 1,
+  threats: true,
+  timeBudget: 1000,
+};
+
+export const MAX_EVALUATION = 1000;
+// Search score at which the evaluation is about three quarters won
+const EVALUATION_SCALE = 2000;
+// Evaluation given up against the best move
+const INACCURACY_LOSS = 100;
+const BLUNDER_LOSS = 300;
+
+/** The final position of a game won on its last move, the loser to move. */
+export const LOST_POSITION: PositionAnalysis = {
+  evaluation: -MAX_EVALUATION,
+  best: null,
+  forcedWin: null,
+  forcedAfterBest: null,
+};
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+function toEvaluation(score: number): number {
+  if (isDecisive(score)) {
+    return Math.sign(score) * MAX_EVALUATION;
+  }
+  return Math.round(MAX_EVALUATION * Math.tanh(score / EVALUATION_SCALE));
+}
+
+function withStone(
+  board: GameBoard,
+  position: Position,
+  symbol: PlayerSymbol,
+): GameBoard {
+  const origin = board.origin ?? { row: 0, col: 0 };
+  const cells = board.cells.map((row) => [...row]);
+  cells[position.row - origin.row][position.col - origin.col] = symbol;
+  return { ...board, cells };
+}
+
+/**
+ * Evaluates a position for the side to move: the engine's best move and
+ * score, any win it can force, and whether the opponent can force one even
+ * after the best move.
+ */
+export function analysePosition(request: PositionRequest): PositionAnalysis {
+  const forcedWin = findForcedWin(request);
+  const { score, move } = searchPosition(request, ANALYSIS_PROFILE);
+  if (forcedWin) {
+    const keeps = move && forcedWin.moves.some((m) => samePosition(m, move));
+    return {
+      evaluation: MAX_EVALUATION,
+      best: keeps ? move : forcedWin.moves[0],
+      forcedWin,
+      forcedAfterBest: null,
+    };
+  }
+
+  const after =
+    move &&
+    findForcedWin({
+      ...request,
+      board: withStone(request.board, move, request.symbol),
+      symbol: getOpponent(request.symbol),
+    });
+  return {
+    evaluation: toEvaluation(score),
+    best: move,
+    forcedWin: null,
+    forcedAfterBest: after?.kind ?? null,
+  };
+}
+
+/**
+ * Annotates each move from the analyses of the positions around it:
+ * positions[i] is the position before moves[i], and the one after the last
+ * move closes the list. A move is judged by how much evaluation it gave up
+ * against the best move; missing or allowing a forced win is a blunder
+ * whatever the numbers say.
+ */
+export function annotateMoves(
+  moves: Move[],
+  positions: PositionAnalysis[],
+): MoveAnnotation[] {
+  if (positions.length !== moves.length + 1) {
+    throw new Error(
+      `Expected ${moves.length + 1} positions, got ${positions.length}`,
+    );
+  }
+
+  return moves.map((move, index) => {
+    const before = positions[index];
+    const after = positions[index + 1];
+    // The next position is evaluated for the opponent; 0 - x avoids -0
+    const kept = 0 - after.evaluation;
+    const loss = before.evaluation - kept;
+
+    const missedWin =
+      before.forcedWin &&
+      kept < MAX_EVALUATION &&
+      !before.forcedWin.moves.some((m) => samePosition(m, move.position))
+        ? before.forcedWin.kind
+        : null;
+    const allowedWin =
+      after.forcedWin && !before.forcedAfterBest ? after.forcedWin.kind : null;
+
+    let quality: MoveQuality = 'good';
+    if (missedWin || allowedWin || loss >= BLUNDER_LOSS) {
+      quality = 'blunder';
+    } else if (loss >= INACCURACY_LOSS) {
+      quality = 'inaccuracy';
+    }
+
+    return {
+      evaluation: move.player === 'X' ? kept : after.evaluation,
+      quality,
+      bestMove: before.best,
+      missedWin,
+      allowedWin,
+    };
+  });
+}
@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse, AuthResponse, Player } from '@shared/types/game.types';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { AuthService } from './auth.service';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RegisterDto } from './dto/register.dto';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('register')
+  async register(@Body() dto: RegisterDto): Promise<AuthResponse> {
+    return { success: true, data: await this.authService.register(dto) };
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() dto: LoginDto): Promise<AuthResponse> {
+    return { success: true, data: await this.authService.login(dto) };
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() dto: RefreshTokenDto): Promise<AuthResponse> {
+    return {
+      success: true,
+      data: await this.authService.refresh(dto.refreshToken),
+    };
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@Body() dto: RefreshTokenDto): Promise<ApiResponse> {
+    await this.authService.logout(dto.refreshToken);
+    return { success: true };
+  }
+
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  async me(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ApiResponse<Player>> {
+    return { success: true, data: await this.authService.getProfile(user.id) };
+  }
+}
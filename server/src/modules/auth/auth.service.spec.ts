@@ -0,0 +1,60 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { QueryFailedError } from 'typeorm';
+import { PlayerService } from '../player/player.service';
+import { AuthService } from './auth.service';
+import { TokenService } from './token.service';
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  const playerService = {
+    findByUsername: jest.fn(),
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PlayerService, useValue: playerService },
+        { provide: TokenService, useValue: {} },
+      ],
+    }).compile();
+
+    authService = module.get(AuthService);
+  });
+
+  it('should reject a username taken before the check', async () => {
+    playerService.findByUsername.mockResolvedValue({ id: 'player-1' });
+
+    await expect(
+      authService.register({ username: 'alice', password: 'secret123' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(playerService.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject a username taken between the check and the insert', async () => {
+    playerService.findByUsername.mockResolvedValue(null);
+    playerService.create.mockRejectedValue(
+      new QueryFailedError('INSERT INTO "players"', [], {
+        name: 'error',
+        message: 'duplicate key value violates unique constraint',
+        code: '23505',
+      } as Error),
+    );
+
+    await expect(
+      authService.register({ username: 'alice', password: 'secret123' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should pass on other insert failures', async () => {
+    playerService.findByUsername.mockResolvedValue(null);
+    playerService.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(
+      authService.register({ username: 'alice', password: 'secret123' }),
+    ).rejects.toThrow('connection lost');
+  });
+});
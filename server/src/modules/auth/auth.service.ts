@@ -0,0 +1,103 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { QueryFailedError } from 'typeorm';
+import { AuthResponse, Player } from '@shared/types/game.types';
+import { PlayerService } from '../player/player.service';
+import { PlayerEntity } from '../../entities/player.entity';
+import { LoginDto } from './dto/login.dto';
+import { RegisterDto } from './dto/register.dto';
+import { TokenService } from './token.service';
+
+const BCRYPT_ROUNDS = 10;
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    private readonly playerService: PlayerService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  async register(dto: RegisterDto): Promise<AuthResponse['data']> {
+    if (await this.playerService.findByUsername(dto.username)) {
+      throw new ConflictException('Username is already taken');
+    }
+
+    const passwordHash = await bcrypt.hash(dto.password, BCRYPT_ROUNDS);
+    let player: PlayerEntity;
+    try {
+      player = await this.playerService.create(dto.username, passwordHash);
+    } catch (error) {
+      // Someone took the name since the check above
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('Username is already taken');
+      }
+      throw error;
+    }
+    this.logger.log(`Player registered: ${player.username}`);
+
+    return this.createSession(player);
+  }
+
+  async login(dto: LoginDto): Promise<AuthResponse['data']> {
+    const player = await this.playerService.findByUsernameWithPassword(
+      dto.username,
+    );
+    const matches =
+      player !== null &&
+      !player.isBot &&
+      (await bcrypt.compare(dto.password, player.passwordHash));
+
+    if (!matches) {
+      throw new UnauthorizedException('Invalid username or password');
+    }
+
+    return this.createSession(player);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthResponse['data']> {
+    const { user, tokens } = await this.tokenService.rotate(refreshToken);
+    const player = await this.playerService.findById(user.id);
+    if (!player) {
+      throw new UnauthorizedException('Player no longer exists');
+    }
+
+    return { ...tokens, user: this.playerService.toPlayer(player) };
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    await this.tokenService.revoke(refreshToken);
+  }
+
+  async getProfile(playerId: string): Promise<Player> {
+    const player = await this.playerService.findById(playerId);
+    if (!player) {
+      throw new UnauthorizedException('Player no longer exists');
+    }
+    return this.playerService.toPlayer(player);
+  }
+
+  private async createSession(
+    player: PlayerEntity,
+  ): Promise<AuthResponse['data']> {
+    const tokens = await this.tokenService.issueTokens({
+      id: player.id,
+      username: player.username,
+    });
+    return { ...tokens, user: this.playerService.toPlayer(player) };
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof QueryFailedError &&
+    (error.driverError as { code?: string }).code === UNIQUE_VIOLATION
+  );
+}
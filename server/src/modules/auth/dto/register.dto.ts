@@ -0,0 +1,23 @@
+import {
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { RegisterRequest } from '@shared/types/game.types';
+
+export class RegisterDto implements RegisterRequest {
+  @IsString()
+  @Length(3, 20)
+  @Matches(/^[a-zA-Z0-9_]+$/, {
+    message: 'username may only contain letters, numbers and underscores',
+  })
+  username: string;
+
+  // bcrypt only uses the first 72 bytes of a password
+  @IsString()
+  @MinLength(8)
+  @MaxLength(72)
+  password: string;
+}
@@ -0,0 +1,28 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { AuthenticatedUser } from '../../../common/interfaces/authenticated-user.interface';
+import { AccessTokenClaims, TokenService } from '../token.service';
+
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
+  constructor(
+    configService: ConfigService,
+    private readonly tokenService: TokenService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      secretOrKey: configService.getOrThrow<string>('jwt.secret'),
+    });
+  }
+
+  // Signature and expiry are already checked; reject revoked sessions.
+  async validate(claims: AccessTokenClaims): Promise<AuthenticatedUser> {
+    if (!(await this.tokenService.isFamilyActive(claims.fam))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    return { id: claims.sub, username: claims.username };
+  }
+}
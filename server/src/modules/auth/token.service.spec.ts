@@ -0,0 +1,98 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisService } from '../../common/services/redis.service';
+import { TokenService } from './token.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+const config: Record<string, unknown> = {
+  redis: { host: 'localhost', port: 6379 },
+  'jwt.secret': 'access-secret',
+  'jwt.expiresIn': '15m',
+  'jwt.refreshSecret': 'refresh-secret',
+  'jwt.refreshExpiresIn': '7d',
+};
+
+describe('TokenService', () => {
+  let tokenService: TokenService;
+  let redisService: RedisService;
+  const user = { id: 'player-1', username: 'alice' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        RedisService,
+        JwtService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => config[key],
+            getOrThrow: (key: string) => config[key],
+          },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    tokenService = module.get(TokenService);
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+  });
+
+  it('should issue an access token bound to an active family', async () => {
+    const { accessToken } = await tokenService.issueTokens(user);
+    const claims = await tokenService.verifyAccessToken(accessToken);
+    expect(claims.sub).toBe(user.id);
+    expect(await tokenService.isFamilyActive(claims.fam)).toBe(true);
+  });
+
+  it('should rotate refresh tokens', async () => {
+    const first = await tokenService.issueTokens(user);
+    const { tokens } = await tokenService.rotate(first.refreshToken);
+    expect(tokens.refreshToken).not.toBe(first.refreshToken);
+
+    const again = await tokenService.rotate(tokens.refreshToken);
+    expect(again.user).toEqual(user);
+  });
+
+  it('should revoke the whole family when an old token is reused', async () => {
+    const first = await tokenService.issueTokens(user);
+    const { tokens } = await tokenService.rotate(first.refreshToken);
+
+    await expect(tokenService.rotate(first.refreshToken)).rejects.toThrow(
+      'Refresh token reuse detected',
+    );
+    await expect(tokenService.rotate(tokens.refreshToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      tokenService.verifyAccessToken(tokens.accessToken),
+    ).rejects.toThrow('Session has been revoked');
+  });
+
+  it('should reject tokens after logout', async () => {
+    const { accessToken, refreshToken } = await tokenService.issueTokens(user);
+    await tokenService.revoke(refreshToken);
+
+    await expect(tokenService.rotate(refreshToken)).rejects.toThrow(
+      'Refresh token has been revoked',
+    );
+    await expect(tokenService.verifyAccessToken(accessToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject tokens signed with the wrong secret', async () => {
+    const { accessToken } = await tokenService.issueTokens(user);
+    await expect(tokenService.rotate(accessToken)).rejects.toThrow(
+      'Invalid refresh token',
+    );
+  });
+});
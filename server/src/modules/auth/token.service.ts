@@ -0,0 +1,183 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { JwtPayload } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+export interface AccessTokenClaims extends JwtPayload {
+  fam: string; // refresh token family the access token was issued with
+}
+
+export interface RefreshTokenClaims extends AccessTokenClaims {
+  jti: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Swap the family's current token id only if the presented one is current.
+// Returns 1 on rotation, -1 on reuse (family revoked), 0 if already revoked.
+const ROTATE_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'current')
+if not current then
+  return 0
+end
+if current ~= ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  return -1
+end
+redis.call('HSET', KEYS[1], 'current', ARGV[2])
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+return 1
+`;
+
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Issues an access/refresh pair that starts a new refresh token family.
+   */
+  async issueTokens(user: AuthenticatedUser): Promise<TokenPair> {
+    const familyId = randomUUID();
+    const { refreshToken, jti, ttl } = await this.signRefreshToken(
+      user,
+      familyId,
+    );
+
+    const key = this.familyKey(familyId);
+    await this.redisService.hset(key, 'userId', user.id);
+    await this.redisService.hset(key, 'current', jti);
+    await this.redisService.expire(key, ttl);
+
+    return {
+      accessToken: await this.signAccessToken(user, familyId),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new pair. Presenting a token that has
+   * already been rotated revokes the whole family.
+   */
+  async rotate(
+    refreshToken: string,
+  ): Promise<{ user: AuthenticatedUser; tokens: TokenPair }> {
+    const claims = await this.verifyRefreshToken(refreshToken);
+    const user = { id: claims.sub, username: claims.username };
+    const next = await this.signRefreshToken(user, claims.fam);
+
+    const result = await this.redisService.eval(
+      ROTATE_SCRIPT,
+      [this.familyKey(claims.fam)],
+      [claims.jti, next.jti, next.ttl],
+    );
+
+    if (result === -1) {
+      this.logger.warn(
+        `Refresh token reuse detected for user ${claims.sub}, family ${claims.fam} revoked`,
+      );
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+    if (result !== 1) {
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    return {
+      user,
+      tokens: {
+        accessToken: await this.signAccessToken(user, claims.fam),
+        refreshToken: next.refreshToken,
+      },
+    };
+  }
+
+  async revoke(refreshToken: string): Promise<void> {
+    const claims = await this.verifyRefreshToken(refreshToken, true);
+    await this.redisService.del(this.familyKey(claims.fam));
+  }
+
+  async verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+    let claims: AccessTokenClaims;
+    try {
+      claims = await this.jwtService.verifyAsync<AccessTokenClaims>(token, {
+        secret: this.configService.getOrThrow<string>('jwt.secret'),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid access token');
+    }
+
+    if (!(await this.isFamilyActive(claims.fam))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    return claims;
+  }
+
+  async isFamilyActive(familyId: string): Promise<boolean> {
+    return this.redisService.exists(this.familyKey(familyId));
+  }
+
+  private async signAccessToken(
+    user: AuthenticatedUser,
+    familyId: string,
+  ): Promise<string> {
+    return this.jwtService.signAsync(
+      { sub: user.id, username: user.username, fam: familyId },
+      {
+        secret: this.configService.getOrThrow<string>('jwt.secret'),
+        expiresIn: this.configService.getOrThrow<string>(
+          'jwt.expiresIn',
+        ) as JwtSignOptions['expiresIn'],
+      },
+    );
+  }
+
+  private async signRefreshToken(
+    user: AuthenticatedUser,
+    familyId: string,
+  ): Promise<{ refreshToken: string; jti: string; ttl: number }> {
+    const jti = randomUUID();
+    const refreshToken = await this.jwtService.signAsync(
+      { sub: user.id, username: user.username, fam: familyId, jti },
+      {
+        secret: this.configService.getOrThrow<string>('jwt.refreshSecret'),
+        expiresIn: this.configService.getOrThrow<string>(
+          'jwt.refreshExpiresIn',
+        ) as JwtSignOptions['expiresIn'],
+      },
+    );
+
+    // The family lives exactly as long as its newest refresh token.
+    const { exp } = this.jwtService.decode<RefreshTokenClaims>(refreshToken);
+    const ttl = Math.max(exp - Math.floor(Date.now() / 1000), 1);
+    return { refreshToken, jti, ttl };
+  }
+
+  private async verifyRefreshToken(
+    token: string,
+    ignoreExpiration = false,
+  ): Promise<RefreshTokenClaims> {
+    try {
+      return await this.jwtService.verifyAsync<RefreshTokenClaims>(token, {
+        secret: this.configService.getOrThrow<string>('jwt.refreshSecret'),
+        ignoreExpiration,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+  }
+
+  private familyKey(familyId: string): string {
+    return `auth:family:${familyId}`;
+  }
+}
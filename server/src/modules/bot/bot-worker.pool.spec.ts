@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { createBoard } from '@shared/types/game.engine';
+import { BotWorkerPool } from './bot-worker.pool';
+import { SearchRequest } from './search';
+
+describe('BotWorkerPool', () => {
+  let pool: BotWorkerPool;
+  let config: Record<string, number>;
+  const board = createBoard(15);
+  board.cells[7][7] = 'X';
+  const request: SearchRequest = {
+    board,
+    symbol: 'O',
+    ruleset: 'caro',
+    winLength: 5,
+    difficulty: 'hard',
+  };
+
+  beforeEach(() => {
+    config = {};
+    pool = new BotWorkerPool({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+  });
+
+  afterEach(async () => {
+    await pool.onModuleDestroy();
+  });
+
+  it('should search on a worker thread', async () => {
+    const position = await pool.run(request);
+
+    expect(Math.abs(position.row - 7)).toBeLessThanOrEqual(2);
+    expect(Math.abs(position.col - 7)).toBeLessThanOrEqual(2);
+  }, 30_000);
+
+  it('should analyse a position on a worker thread', async () => {
+    const analysis = await pool.analyse({
+      board,
+      symbol: 'O',
+      ruleset: 'caro',
+      winLength: 5,
+    });
+
+    expect(analysis).toMatchObject({ forcedWin: null, forcedAfterBest: null });
+    expect(Math.abs(analysis.evaluation)).toBeLessThan(1000);
+    expect(analysis.best).not.toBeNull();
+  }, 30_000);
+
+  it('should give up on a search that overruns the move timeout', async () => {
+    config['game.botMoveTimeout'] = 1;
+
+    await expect(pool.run(request)).rejects.toThrow('Bot search timed out');
+  });
+
+  it('should refuse work once shut down', async () => {
+    await pool.onModuleDestroy();
+
+    await expect(pool.run(request)).rejects.toThrow(
+      'Bot workers are shutting down',
+    );
+  });
+});
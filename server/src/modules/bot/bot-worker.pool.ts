@@ -0,0 +1,145 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { extname, join } from 'path';
+import { Worker } from 'worker_threads';
+import { Position } from '@shared/types/game.types';
+import type { PositionAnalysis } from '../analysis/analysis';
+import type { BotJob, BotJobResult, BotTask } from './bot.worker';
+import { PositionRequest, SearchRequest } from './search';
+
+const DEFAULT_MOVE_TIMEOUT = 10_000;
+
+// Run from source (ts-node, jest) the worker has to compile itself as well
+const WORKER_FILE = join(__dirname, `bot.worker${extname(__filename)}`);
+const WORKER_EXEC_ARGV =
+  extname(__filename) === '.ts'
+    ? ['-r', 'ts-node/register/transpile-only', '-r', 'tsconfig-paths/register']
+    : [];
+
+interface PendingJob {
+  worker: Worker;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs bot searches and position analysis in worker threads so a deep
+ * search never blocks the event loop that serves the sockets. Workers start
+ * on first use; one that crashes or overruns the move timeout is replaced.
+ */
+@Injectable()
+export class BotWorkerPool implements OnModuleDestroy {
+  private readonly logger = new Logger(BotWorkerPool.name);
+  private readonly pending = new Map<number, PendingJob>();
+  private workers: Worker[] = [];
+  private nextJobId = 0;
+  private nextWorker = 0;
+  private closed = false;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  run(request: SearchRequest): Promise<Position> {
+    return this.submit({ type: 'move', request });
+  }
+
+  /**
+   * Analyses one position. Games are analysed a position at a time, so a
+   * bot's move never queues behind a whole game.
+   */
+  analyse(request: PositionRequest): Promise<PositionAnalysis> {
+    return this.submit({ type: 'analyse', request });
+  }
+
+  async onModuleDestroy() {
+    this.closed = true;
+    const workers = this.workers;
+    this.workers = [];
+    for (const worker of workers) {
+      this.rejectPending(worker, new Error('Bot workers are shutting down'));
+    }
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private submit<T>(task: BotTask): Promise<T> {
+    // A worker started now would outlive the pool and keep the process up
+    if (this.closed) {
+      return Promise.reject(new Error('Bot workers are shutting down'));
+    }
+    const worker = this.pickWorker();
+    const id = ++this.nextJobId;
+    const timeout =
+      this.configService.get<number>('game.botMoveTimeout') ??
+      DEFAULT_MOVE_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.fail(worker, new Error('Bot search timed out')),
+        timeout,
+      );
+      this.pending.set(id, {
+        worker,
+        resolve: (result) => resolve(result as T),
+        reject,
+        timer,
+      });
+      worker.postMessage({ id, task } satisfies BotJob);
+    });
+  }
+
+  private pickWorker(): Worker {
+    const size = Math.max(
+      1,
+      this.configService.get<number>('game.botWorkers') ?? 1,
+    );
+    if (this.workers.length < size) {
+      this.workers.push(this.spawn());
+    }
+    this.nextWorker = (this.nextWorker + 1) % this.workers.length;
+    return this.workers[this.nextWorker];
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV });
+    worker.on('message', (result: BotJobResult) => this.settle(result));
+    worker.on('error', (error) => this.fail(worker, error));
+    worker.on('exit', (code) => {
+      if (this.workers.includes(worker)) {
+        this.fail(worker, new Error(`Bot worker exited with code ${code}`));
+      }
+    });
+    return worker;
+  }
+
+  private settle(result: BotJobResult): void {
+    const job = this.pending.get(result.id);
+    if (!job) {
+      return;
+    }
+    clearTimeout(job.timer);
+    this.pending.delete(result.id);
+    if ('error' in result) {
+      job.reject(new Error(result.error));
+    } else {
+      job.resolve(result.result);
+    }
+  }
+
+  /** Drops a broken worker and fails the searches it was running. */
+  private fail(worker: Worker, error: Error): void {
+    this.logger.error(`Bot worker failed: ${error.message}`);
+    this.workers = this.workers.filter((other) => other !== worker);
+    this.rejectPending(worker, error);
+    void worker.terminate();
+  }
+
+  private rejectPending(worker: Worker, error: Error): void {
+    for (const [id, job] of this.pending) {
+      if (job.worker === worker) {
+        clearTimeout(job.timer);
+        this.pending.delete(id);
+        job.reject(error);
+      }
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PlayerEntity } from '../../entities/player.entity';
+import { PlayerModule } from '../player/player.module';
+import { BotWorkerPool } from './bot-worker.pool';
+import { BotService } from './bot.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PlayerEntity]), PlayerModule],
+  providers: [BotService, BotWorkerPool],
+  exports: [BotService, BotWorkerPool],
+})
+export class BotModule {}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { createBoard } from '@shared/types/game.engine';
+import {
+  DEFAULT_BOARD_GEOMETRY,
+  GamePlayer,
+  GameState,
+} from '@shared/types/game.types';
+import { PlayerEntity } from '../../entities/player.entity';
+import { createTestDataSource } from '../../testing/test-data-source';
+import { PlayerService } from '../player/player.service';
+import { BotWorkerPool } from './bot-worker.pool';
+import { BotService } from './bot.service';
+
+describe('BotService', () => {
+  let dataSource: DataSource;
+  let botService: BotService;
+  const run = jest.fn();
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    run.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BotService,
+        PlayerService,
+        {
+          provide: getRepositoryToken(PlayerEntity),
+          useValue: dataSource.getRepository(PlayerEntity),
+        },
+        { provide: BotWorkerPool, useValue: { run } },
+      ],
+    }).compile();
+    botService = module.get(BotService);
+    await botService.ensureBots();
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should create each bot player once', async () => {
+    await botService.ensureBots();
+
+    const bots = await dataSource
+      .getRepository(PlayerEntity)
+      .findBy({ isBot: true });
+    expect(bots.map((bot) => bot.username).sort()).toEqual([
+      'Easy Bot',
+      'Hard Bot',
+      'Medium Bot',
+    ]);
+
+    const hard = await botService.getBot('hard');
+    expect(hard).toMatchObject({ username: 'Hard Bot', isBot: true });
+    expect(botService.difficultyOf(hard)).toBe('hard');
+  });
+
+  it('should fall back to the pattern score when the worker fails', async () => {
+    run.mockRejectedValue(new Error('Bot search timed out'));
+    const board = createBoard(DEFAULT_BOARD_GEOMETRY.size);
+    for (const col of [3, 4, 5, 6]) {
+      board.cells[7][col] = 'O';
+    }
+    const seat = {
+      player: await botService.getBot('hard'),
+      symbol: 'O',
+    } as GamePlayer;
+    const game = {
+      id: 'game-1',
+      board: board.cells,
+      boardOrigin: { row: 0, col: 0 },
+      geometry: DEFAULT_BOARD_GEOMETRY,
+      ruleset: 'freestyle',
+      players: [seat],
+    } as unknown as GameState;
+
+    const position = await botService.chooseMove(game, seat);
+
+    expect(run).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'O', difficulty: 'hard' }),
+    );
+    expect([
+      { row: 7, col: 2 },
+      { row: 7, col: 7 },
+    ]).toContainEqual(position);
+  });
+});
@@ -0,0 +1,105 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { toGameBoard } from '@shared/types/game.engine';
+import {
+  BotDifficulty,
+  GamePlayer,
+  GameState,
+  Player,
+  Position,
+} from '@shared/types/game.types';
+import { PlayerEntity } from '../../entities/player.entity';
+import { PlayerService } from '../player/player.service';
+import { BotWorkerPool } from './bot-worker.pool';
+import { chooseMove, SearchRequest } from './search';
+
+// Spaces keep these out of reach of registration
+export const BOT_USERNAMES: Record<BotDifficulty, string> = {
+  easy: 'Easy Bot',
+  medium: 'Medium Bot',
+  hard: 'Hard Bot',
+};
+
+// Bots never log in; no bcrypt hash compares equal to this
+const BOT_PASSWORD_HASH = '!';
+
+/**
+ * Computer opponents. Each difficulty is a player row of its own, so bot
+ * games are archived like any other; they are simply never rated.
+ */
+@Injectable()
+export class BotService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(BotService.name);
+
+  constructor(
+    @InjectRepository(PlayerEntity)
+    private readonly playerRepository: Repository<PlayerEntity>,
+    private readonly playerService: PlayerService,
+    private readonly workerPool: BotWorkerPool,
+  ) {}
+
+  async onApplicationBootstrap() {
+    await this.ensureBots();
+  }
+
+  /** Creates the bot players that do not exist yet. */
+  async ensureBots(): Promise<void> {
+    await this.playerRepository
+      .createQueryBuilder()
+      .insert()
+      .values(
+        Object.values(BOT_USERNAMES).map((username) => ({
+          username,
+          passwordHash: BOT_PASSWORD_HASH,
+          isBot: true,
+        })),
+      )
+      .orIgnore()
+      .execute();
+  }
+
+  async getBot(difficulty: BotDifficulty): Promise<Player> {
+    const entity = await this.playerRepository.findOne({
+      where: { username: BOT_USERNAMES[difficulty], isBot: true },
+    });
+    if (!entity) {
+      throw new Error(`Bot player for ${difficulty} is missing`);
+    }
+    return this.playerService.toPlayer(entity);
+  }
+
+  difficultyOf(player: Player): BotDifficulty | null {
+    if (!player.isBot) {
+      return null;
+    }
+    const entry = Object.entries(BOT_USERNAMES).find(
+      ([, username]) => username === player.username,
+    );
+    return entry ? (entry[0] as BotDifficulty) : null;
+  }
+
+  /**
+   * Picks the move for the bot in `seat` on a worker thread. Should the
+   * worker fail, the bot falls back to the pattern score alone, which is
+   * cheap enough to run here.
+   */
+  async chooseMove(game: GameState, seat: GamePlayer): Promise<Position> {
+    const request: SearchRequest = {
+      board: toGameBoard(game.board, game.boardOrigin, game.geometry.infinite),
+      symbol: seat.symbol,
+      ruleset: game.ruleset,
+      winLength: game.geometry.winLength,
+      difficulty: this.difficultyOf(seat.player) ?? 'medium',
+    };
+
+    try {
+      return await this.workerPool.run(request);
+    } catch (error) {
+      this.logger.warn(
+        `Bot search for game ${game.id} failed: ${(error as Error).message}`,
+      );
+      return chooseMove({ ...request, difficulty: 'medium' });
+    }
+  }
+}
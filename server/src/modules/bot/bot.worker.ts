@@ -0,0 +1,36 @@
+import { parentPort } from 'worker_threads';
+import { analysePosition } from '../analysis/analysis';
+import { chooseMove, PositionRequest, SearchRequest } from './search';
+
+export type BotTask =
+  | { type: 'move'; request: SearchRequest }
+  | { type: 'analyse'; request: PositionRequest };
+
+export interface BotJob {
+  id: number;
+  task: BotTask;
+}
+
+export type BotJobResult =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+function runTask(task: BotTask): unknown {
+  switch (task.type) {
+    case 'move':
+      return chooseMove(task.request);
+    case 'analyse':
+      return analysePosition(task.request);
+  }
+}
+
+// Entry point of a BotWorkerPool thread: one task per message
+parentPort?.on('message', (job: BotJob) => {
+  let result: BotJobResult;
+  try {
+    result = { id: job.id, result: runTask(job.task) };
+  } catch (error) {
+    result = { id: job.id, error: (error as Error).message };
+  }
+  parentPort?.postMessage(result);
+});
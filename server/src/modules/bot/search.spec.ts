@@ -0,0 +1,203 @@
+import { createBoard, validateMove } from '@shared/types/game.engine';
+import {
+  BotDifficulty,
+  GameBoard,
+  PlayerSymbol,
+  RuleVariant,
+} from '@shared/types/game.types';
+import { chooseMove, findForcedWin } from './search';
+
+type Stone = [row: number, col: number, symbol: PlayerSymbol];
+
+function boardWith(stones: Stone[], size = 15): GameBoard {
+  const board = createBoard(size);
+  for (const [row, col, symbol] of stones) {
+    board.cells[row][col] = symbol;
+  }
+  return board;
+}
+
+function play(
+  board: GameBoard,
+  difficulty: BotDifficulty,
+  symbol: PlayerSymbol = 'X',
+  ruleset: RuleVariant = 'freestyle',
+) {
+  return chooseMove(
+    { board, symbol, ruleset, winLength: 5, difficulty },
+    () => 0,
+  );
+}
+
+describe('chooseMove', () => {
+  it('should open in the centre of an empty board', () => {
+    expect(play(createBoard(15), 'hard')).toEqual({ row: 7, col: 7 });
+  });
+
+  it.each<BotDifficulty>(['medium', 'hard'])(
+    'should take a win on %s',
+    (difficulty) => {
+      const board = boardWith([
+        [7, 3, 'X'],
+        [7, 4, 'X'],
+        [7, 5, 'X'],
+        [7, 6, 'X'],
+        [7, 2, 'O'],
+        [8, 3, 'O'],
+        [8, 4, 'O'],
+        [8, 5, 'O'],
+        [8, 6, 'O'],
+      ]);
+
+      expect(play(board, difficulty)).toEqual({ row: 7, col: 7 });
+    },
+  );
+
+  it.each<BotDifficulty>(['medium', 'hard'])(
+    "should block the opponent's four on %s",
+    (difficulty) => {
+      const board = boardWith([
+        [3, 3, 'O'],
+        [4, 4, 'O'],
+        [5, 5, 'O'],
+        [6, 6, 'O'],
+        [2, 2, 'X'],
+        [10, 2, 'X'],
+        [10, 3, 'X'],
+      ]);
+
+      expect(play(board, difficulty)).toEqual({ row: 7, col: 7 });
+    },
+  );
+
+  it('should stop an open three before it becomes an open four', () => {
+    const board = boardWith([
+      [7, 5, 'O'],
+      [7, 6, 'O'],
+      [7, 7, 'O'],
+      [2, 2, 'X'],
+      [12, 12, 'X'],
+    ]);
+
+    const move = play(board, 'hard');
+    expect(move.row).toBe(7);
+    expect([3, 4, 8, 9]).toContain(move.col);
+  });
+
+  it('should not play a move the ruleset forbids', () => {
+    // Filling the gap would make six in a row, an overline Renju forbids X
+    const board = boardWith([
+      [7, 2, 'X'],
+      [7, 3, 'X'],
+      [7, 4, 'X'],
+      [7, 5, 'X'],
+      [7, 7, 'X'],
+      [8, 2, 'O'],
+      [8, 3, 'O'],
+      [8, 4, 'O'],
+      [6, 5, 'O'],
+      [6, 7, 'O'],
+    ]);
+
+    for (const difficulty of ['easy', 'medium', 'hard'] as const) {
+      const position = play(board, difficulty, 'X', 'renju');
+      const move = { position, player: 'X' as const, timestamp: 0 };
+      expect(validateMove(board, move, 'X', { ruleset: 'renju' }).isValid).toBe(
+        true,
+      );
+    }
+  });
+
+  it('should answer in world coordinates on a grown infinite board', () => {
+    const board = {
+      ...boardWith([
+        [4, 4, 'O'],
+        [4, 5, 'O'],
+        [4, 6, 'O'],
+        [4, 7, 'O'],
+        [6, 6, 'X'],
+      ]),
+      origin: { row: -4, col: -4 },
+      infinite: true,
+    };
+
+    const move = play(board, 'medium');
+    expect([
+      { row: 0, col: -1 },
+      { row: 0, col: 4 },
+    ]).toContainEqual(move);
+  });
+});
+
+describe('findForcedWin', () => {
+  function forcedWin(board: GameBoard, symbol: PlayerSymbol = 'X') {
+    return findForcedWin({ board, symbol, ruleset: 'freestyle', winLength: 5 });
+  }
+
+  it('should find a five to complete', () => {
+    const board = boardWith([
+      [7, 3, 'X'],
+      [7, 4, 'X'],
+      [7, 5, 'X'],
+      [7, 6, 'X'],
+      [7, 7, 'O'],
+    ]);
+
+    expect(forcedWin(board)).toEqual({
+      kind: 'five',
+      moves: [{ row: 7, col: 2 }],
+    });
+  });
+
+  it('should find the open four an open three makes', () => {
+    const board = boardWith([
+      [7, 5, 'X'],
+      [7, 6, 'X'],
+      [7, 7, 'X'],
+      [2, 2, 'O'],
+      [12, 12, 'O'],
+    ]);
+
+    const win = forcedWin(board);
+    expect(win?.kind).toBe('open-four');
+    expect(win?.moves).toEqual(
+      expect.arrayContaining([
+        { row: 7, col: 4 },
+        { row: 7, col: 8 },
+      ]),
+    );
+  });
+
+  it('should find a four-three', () => {
+    // (7, 8) makes a closed four across and an open three down
+    const board = boardWith([
+      [7, 4, 'O'],
+      [7, 5, 'X'],
+      [7, 6, 'X'],
+      [7, 7, 'X'],
+      [8, 8, 'X'],
+      [9, 8, 'X'],
+      [2, 2, 'O'],
+      [12, 2, 'O'],
+    ]);
+
+    const win = forcedWin(board);
+    expect(win?.kind).toBe('four-three');
+    expect(win?.moves).toContainEqual({ row: 7, col: 8 });
+  });
+
+  it('should not count a win while the opponent has a five to complete', () => {
+    const board = boardWith([
+      [7, 5, 'X'],
+      [7, 6, 'X'],
+      [7, 7, 'X'],
+      [3, 10, 'O'],
+      [4, 10, 'O'],
+      [5, 10, 'O'],
+      [6, 10, 'O'],
+      [2, 10, 'X'],
+    ]);
+
+    expect(forcedWin(board)).toBeNull();
+  });
+});
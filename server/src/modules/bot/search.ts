@@ -0,0 +1,695 @@
+import {
+  checkWin,
+  findForbiddenMove,
+  getOpponent,
+} from '@shared/types/game.engine';
+import { getRuleSet } from '@shared/types/game.rules';
+import {
+  BotDifficulty,
+  CellValue,
+  ForcedWin,
+  GameBoard,
+  PlayerSymbol,
+  Position,
+  RuleVariant,
+} from '@shared/types/game.types';
+
+export interface SearchRequest {
+  board: GameBoard;
+  symbol: PlayerSymbol;
+  ruleset: RuleVariant;
+  winLength: number;
+  difficulty: BotDifficulty;
+}
+
+export type PositionRequest = Omit<SearchRequest, 'difficulty'>;
+
+export interface PositionScore {
+  // For the side to move; see isDecisive
+  score: number;
+  move: Position | null;
+}
+
+export interface ForcedWinThreat {
+  kind: ForcedWin; // the strongest one on the board
+  moves: Position[]; // every cell that starts a forced win of any kind
+}
+
+export interface DifficultyProfile {
+  // Alpha-beta depth in plies; 0 plays the best scoring cell outright
+  depth: number;
+  // Candidates searched per node, best scoring first
+  width: number;
+  // Picks at random among this many of the best scoring cells
+  spread: number;
+  // Weight of blocking the opponent against extending its own lines
+  defense: number;
+  // Always takes a win and blocks the opponent's
+  threats: boolean;
+  // Search stops deepening once this many ms have passed
+  timeBudget: number;
+}
+
+export const DIFFICULTY_PROFILES: Record<BotDifficulty, DifficultyProfile> = {
+  easy: {
+    depth: 0,
+    width: 1,
+    spread: 4,
+    defense: 0.5,
+    threats: false,
+    timeBudget: 0,
+  },
+  medium: {
+    depth: 0,
+    width: 1,
+    spread: 1,
+    defense: 0.9,
+    threats: true,
+    timeBudget: 0,
+  },
+  hard: {
+    depth: 4,
+    width: 10,
+    spread: 1,
+    defense: 0.9,
+    threats: true,
+    timeBudget: 2000,
+  },
+};
+
+const WIN_SCORE = 1_000_000_000;
+// Strongest first
+const FORCED_WINS: ForcedWin[] = [
+  'five',
+  'open-four',
+  'double-four',
+  'four-three',
+];
+// Candidates are empty cells this close to a stone
+const NEIGHBOURHOOD = 2;
+const STEPS = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [-1, 1],
+] as const;
+
+class SearchTimeout extends Error {}
+
+interface RootResult {
+  move: Candidate;
+  score: number;
+}
+
+interface DeepenResult extends RootResult {
+  // Score of the depth before the last one completed
+  previous: number | null;
+}
+
+interface Candidate {
+  row: number; // board-local
+  col: number;
+  score: number;
+  wins: boolean; // the mover wins here
+  blocks: boolean; // the opponent would win here
+}
+
+/**
+ * Mutable scratch copy of the board the search plays stones on and takes
+ * back. Positions are board-local; the engine is handed world positions.
+ */
+class SearchBoard {
+  readonly board: GameBoard;
+  readonly size: number;
+  readonly origin: Position;
+  readonly stones: Position[] = [];
+
+  constructor(
+    board: GameBoard,
+    readonly ruleset: RuleVariant,
+    readonly winLength: number,
+    private readonly deadline: number,
+  ) {
+    this.origin = board.origin ?? { row: 0, col: 0 };
+    this.size = board.size;
+    this.board = { ...board, cells: board.cells.map((row) => [...row]) };
+    this.board.cells.forEach((cells, row) =>
+      cells.forEach((cell, col) => {
+        if (cell) this.stones.push({ row, col });
+      }),
+    );
+  }
+
+  at(row: number, col: number): CellValue | undefined {
+    return this.board.cells[row]?.[col];
+  }
+
+  place(row: number, col: number, symbol: PlayerSymbol): void {
+    this.board.cells[row][col] = symbol;
+    this.stones.push({ row, col });
+  }
+
+  undo(row: number, col: number): void {
+    this.board.cells[row][col] = null;
+    this.stones.pop();
+  }
+
+  world(row: number, col: number): Position {
+    return { row: row + this.origin.row, col: col + this.origin.col };
+  }
+
+  isWin(row: number, col: number): boolean {
+    return checkWin(this.board, this.world(row, col), {
+      ruleset: this.ruleset,
+      winLength: this.winLength,
+    }).isWin;
+  }
+
+  /** Whether `symbol` playing here wins under the ruleset. */
+  wouldWin(row: number, col: number, symbol: PlayerSymbol): boolean {
+    this.place(row, col, symbol);
+    const wins = this.isWin(row, col);
+    this.undo(row, col);
+    return wins;
+  }
+
+  isForbidden(row: number, col: number, symbol: PlayerSymbol): boolean {
+    return (
+      getRuleSet(this.ruleset).restrictedSymbol === symbol &&
+      findForbiddenMove(
+        this.board,
+        this.world(row, col),
+        symbol,
+        this.winLength,
+      ) !== null
+    );
+  }
+
+  checkTime(): void {
+    if (Date.now() > this.deadline) {
+      throw new SearchTimeout();
+    }
+  }
+}
+
+/**
+ * Points for a window of winLength cells holding `stones` of one player
+ * and none of the other. A full window is a win.
+ */
+function windowScore(stones: number, winLength: number): number {
+  if (stones >= winLength) {
+    return WIN_SCORE;
+  }
+  return stones === 0 ? 0 : 10 ** (stones - 1);
+}
+
+/**
+ * Scores an empty cell for both players: the windows through it that the
+ * player could still complete, weighted by how many of their stones each
+ * already holds.
+ */
+function scoreCell(
+  search: SearchBoard,
+  row: number,
+  col: number,
+): Record<PlayerSymbol, number> {
+  const scores = { X: 0, O: 0 };
+  const length = search.winLength;
+
+  for (const [dRow, dCol] of STEPS) {
+    for (let start = -(length - 1); start <= 0; start++) {
+      let x = 0;
+      let o = 0;
+      let onBoard = true;
+      for (let offset = start; offset < start + length; offset++) {
+        const cell = search.at(row + dRow * offset, col + dCol * offset);
+        if (cell === undefined) {
+          onBoard = false;
+          break;
+        }
+        if (cell === 'X') x++;
+        if (cell === 'O') o++;
+      }
+      if (!onBoard) continue;
+      if (o === 0) scores.X += windowScore(x + 1, length);
+      if (x === 0) scores.O += windowScore(o + 1, length);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Static evaluation for the side to move: every open window on the board,
+ * theirs counted positively. A window one stone short for the side to move
+ * is as good as won.
+ */
+function evaluate(search: SearchBoard, symbol: PlayerSymbol): number {
+  const length = search.winLength;
+  let minRow = search.size;
+  let maxRow = -1;
+  let minCol = search.size;
+  let maxCol = -1;
+  for (const { row, col } of search.stones) {
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+  }
+
+  const totals = { X: 0, O: 0 };
+  const fours = { X: false, O: false };
+  for (let row = minRow - length + 1; row <= maxRow + length - 1; row++) {
+    for (let col = minCol - length + 1; col <= maxCol + length - 1; col++) {
+      for (const [dRow, dCol] of STEPS) {
+        let x = 0;
+        let o = 0;
+        let onBoard = true;
+        for (let offset = 0; offset < length; offset++) {
+          const cell = search.at(row + dRow * offset, col + dCol * offset);
+          if (cell === undefined) {
+            onBoard = false;
+            break;
+          }
+          if (cell === 'X') x++;
+          if (cell === 'O') o++;
+        }
+        if (!onBoard || (x > 0 && o > 0)) continue;
+        if (o === 0 && x > 0) {
+          totals.X += windowScore(x, length);
+          fours.X ||= x === length - 1;
+        }
+        if (x === 0 && o > 0) {
+          totals.O += windowScore(o, length);
+          fours.O ||= o === length - 1;
+        }
+      }
+    }
+  }
+
+  if (fours[symbol]) {
+    return WIN_SCORE / 2;
+  }
+  return totals[symbol] - totals[getOpponent(symbol)];
+}
+
+/** Empty cells near the stones, board-local. */
+function emptyNeighbours(search: SearchBoard): Position[] {
+  const seen = new Set<number>();
+  const cells: Position[] = [];
+
+  for (const stone of search.stones) {
+    for (let dRow = -NEIGHBOURHOOD; dRow <= NEIGHBOURHOOD; dRow++) {
+      for (let dCol = -NEIGHBOURHOOD; dCol <= NEIGHBOURHOOD; dCol++) {
+        const row = stone.row + dRow;
+        const col = stone.col + dCol;
+        const key = row * search.size + col;
+        if (search.at(row, col) !== null || seen.has(key)) continue;
+        seen.add(key);
+        cells.push({ row, col });
+      }
+    }
+  }
+  return cells;
+}
+
+/**
+ * Legal empty cells near the stones, best first. With `threats`, a winning
+ * cell is returned alone, and when the opponent threatens to win only the
+ * cells that stop it are.
+ */
+function candidates(
+  search: SearchBoard,
+  symbol: PlayerSymbol,
+  profile: DifficultyProfile,
+): Candidate[] {
+  const opponent = getOpponent(symbol);
+  const found: Candidate[] = [];
+
+  for (const { row, col } of emptyNeighbours(search)) {
+    if (search.isForbidden(row, col, symbol)) continue;
+
+    const scores = scoreCell(search, row, col);
+    found.push({
+      row,
+      col,
+      score: scores[symbol] + scores[opponent] * profile.defense,
+      wins: scores[symbol] >= WIN_SCORE && search.wouldWin(row, col, symbol),
+      blocks:
+        scores[opponent] >= WIN_SCORE && search.wouldWin(row, col, opponent),
+    });
+  }
+
+  found.sort((a, b) => b.score - a.score);
+  if (!profile.threats) {
+    return found;
+  }
+  const win = found.find((candidate) => candidate.wins);
+  if (win) {
+    return [win];
+  }
+  const blocks = found.filter((candidate) => candidate.blocks);
+  return blocks.length > 0 ? blocks : found;
+}
+
+function negamax(
+  search: SearchBoard,
+  symbol: PlayerSymbol,
+  depth: number,
+  ply: number,
+  alpha: number,
+  beta: number,
+  profile: DifficultyProfile,
+): number {
+  search.checkTime();
+  if (depth === 0) {
+    return evaluate(search, symbol);
+  }
+
+  const moves = candidates(search, symbol, profile).slice(0, profile.width);
+  if (moves.length === 0) {
+    return 0;
+  }
+
+  let best = -Infinity;
+  for (const { row, col } of moves) {
+    search.place(row, col, symbol);
+    const score = search.isWin(row, col)
+      ? WIN_SCORE - ply
+      : -negamax(
+          search,
+          getOpponent(symbol),
+          depth - 1,
+          ply + 1,
+          -beta,
+          -alpha,
+          profile,
+        );
+    search.undo(row, col);
+
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) {
+      break;
+    }
+  }
+  return best;
+}
+
+/** Searches every root move to `depth` plies and returns the best. */
+function searchRoot(
+  search: SearchBoard,
+  symbol: PlayerSymbol,
+  moves: Candidate[],
+  depth: number,
+  profile: DifficultyProfile,
+): RootResult {
+  let best = moves[0];
+  let alpha = -Infinity;
+  for (const move of moves) {
+    search.place(move.row, move.col, symbol);
+    const score = search.isWin(move.row, move.col)
+      ? WIN_SCORE
+      : -negamax(
+          search,
+          getOpponent(symbol),
+          depth - 1,
+          1,
+          -Infinity,
+          -alpha,
+          profile,
+        );
+    search.undo(move.row, move.col);
+
+    if (score > alpha) {
+      alpha = score;
+      best = move;
+    }
+  }
+  return { move: best, score: alpha };
+}
+
+/**
+ * Iterative deepening over the root moves up to the profile's depth. When
+ * the time budget runs out the last completed depth's result stands.
+ */
+function deepen(
+  search: SearchBoard,
+  symbol: PlayerSymbol,
+  moves: Candidate[],
+  profile: DifficultyProfile,
+): DeepenResult {
+  const roots = moves.slice(0, profile.width);
+  let result: DeepenResult = { move: roots[0], score: 0, previous: null };
+  try {
+    for (let depth = 1; depth <= profile.depth; depth++) {
+      const previous = depth > 1 ? result.score : null;
+      result = {
+        ...searchRoot(search, symbol, roots, depth, profile),
+        previous,
+      };
+      const best = result.move;
+      roots.sort((a, b) => (a === best ? -1 : b === best ? 1 : 0));
+    }
+  } catch (error) {
+    if (!(error instanceof SearchTimeout)) {
+      throw error;
+    }
+  }
+  return result;
+}
+
+/** Any legal cell, for boards where nothing is near a stone. */
+function firstLegalCell(
+  search: SearchBoard,
+  symbol: PlayerSymbol,
+): Candidate | null {
+  const centre = Math.floor(search.size / 2);
+  const cells: Position[] = [{ row: centre, col: centre }];
+  for (let row = 0; row < search.size; row++) {
+    for (let col = 0; col < search.size; col++) {
+      cells.push({ row, col });
+    }
+  }
+  const cell = cells.find(
+    ({ row, col }) =>
+      search.at(row, col) === null && !search.isForbidden(row, col, symbol),
+  );
+  return cell ? { ...cell, score: 0, wins: false, blocks: false } : null;
+}
+
+/**
+ * Picks the bot's move for `symbol`. The pattern score alone decides the
+ * move at depth 0; deeper profiles run an iteratively deepened alpha-beta
+ * search over the best scoring cells until the time budget runs out.
+ * Throws when the board has no legal cell left.
+ */
+export function chooseMove(
+  request: SearchRequest,
+  random: () => number = Math.random,
+): Position {
+  const profile = DIFFICULTY_PROFILES[request.difficulty];
+  const search = new SearchBoard(
+    request.board,
+    request.ruleset,
+    request.winLength,
+    Date.now() + profile.timeBudget,
+  );
+
+  const moves = candidates(search, request.symbol, profile);
+  if (moves.length === 0) {
+    const fallback = firstLegalCell(search, request.symbol);
+    if (!fallback) {
+      throw new Error('No legal move left');
+    }
+    return search.world(fallback.row, fallback.col);
+  }
+
+  if (profile.depth === 0 || moves.length === 1) {
+    const pick =
+      moves[Math.floor(random() * Math.min(profile.spread, moves.length))];
+    return search.world(pick.row, pick.col);
+  }
+
+  const { move } = deepen(search, request.symbol, moves, profile);
+  return search.world(move.row, move.col);
+}
+
+/**
+ * Searches a position for the side to move with the given profile and
+ * returns its best move and score; the move is null on a full board. Odd
+ * and even depths lean opposite ways, as whoever moves last gets a move
+ * the other cannot answer, so the score averages the last two depths.
+ */
+export function searchPosition(
+  request: PositionRequest,
+  profile: DifficultyProfile,
+): PositionScore {
+  const search = new SearchBoard(
+    request.board,
+    request.ruleset,
+    request.winLength,
+    Date.now() + profile.timeBudget,
+  );
+
+  const moves = candidates(search, request.symbol, profile);
+  if (moves.length === 0) {
+    const fallback = firstLegalCell(search, request.symbol);
+    return {
+      score: 0,
+      move: fallback && search.world(fallback.row, fallback.col),
+    };
+  }
+
+  const { move, score, previous } = deepen(
+    search,
+    request.symbol,
+    moves,
+    profile,
+  );
+  return {
+    score:
+      previous === null || isDecisive(score) ? score : (score + previous) / 2,
+    move: search.world(move.row, move.col),
+  };
+}
+
+/** Whether a search score means one side wins by force. */
+export function isDecisive(score: number): boolean {
+  return Math.abs(score) >= WIN_SCORE / 2;
+}
+
+/**
+ * Empty cells on each line through (row, col) where `symbol` would complete
+ * a win, one list per direction.
+ */
+function winsThrough(
+  search: SearchBoard,
+  row: number,
+  col: number,
+  symbol: PlayerSymbol,
+): Position[][] {
+  const reach = search.winLength - 1;
+  return STEPS.map(([dRow, dCol]) => {
+    const cells: Position[] = [];
+    for (let offset = -reach; offset <= reach; offset++) {
+      const r = row + dRow * offset;
+      const c = col + dCol * offset;
+      if (search.at(r, c) === null && search.wouldWin(r, c, symbol)) {
+        cells.push({ row: r, col: c });
+      }
+    }
+    return cells;
+  });
+}
+
+/** Whether the stone just played at (row, col) leaves two ways to win. */
+function makesOpenFour(
+  search: SearchBoard,
+  row: number,
+  col: number,
+  symbol: PlayerSymbol,
+): boolean {
+  return winsThrough(search, row, col, symbol).flat().length >= 2;
+}
+
+/**
+ * The forced win the stone just played at (row, col) creates, if any. A
+ * single four only wins when blocking it leaves the mover a cell on the
+ * same lines that makes an open four, and the block makes no four of the
+ * opponent's own.
+ */
+function threatAt(
+  search: SearchBoard,
+  row: number,
+  col: number,
+  symbol: PlayerSymbol,
+): ForcedWin | null {
+  const lines = winsThrough(search, row, col, symbol);
+  if (lines.some((cells) => cells.length >= 2)) {
+    return 'open-four';
+  }
+  const fours = lines.flat();
+  if (fours.length >= 2) {
+    return 'double-four';
+  }
+  if (fours.length === 0) {
+    return null;
+  }
+
+  const opponent = getOpponent(symbol);
+  const [block] = fours;
+  search.place(block.row, block.col, opponent);
+  let wins = false;
+  if (winsThrough(search, block.row, block.col, opponent).flat().length === 0) {
+    const reach = search.winLength - 1;
+    wins = STEPS.some(([dRow, dCol]) => {
+      for (let offset = -reach; offset <= reach; offset++) {
+        const r = row + dRow * offset;
+        const c = col + dCol * offset;
+        if (search.at(r, c) !== null || search.isForbidden(r, c, symbol)) {
+          continue;
+        }
+        search.place(r, c, symbol);
+        const open = makesOpenFour(search, r, c, symbol);
+        search.undo(r, c);
+        if (open) return true;
+      }
+      return false;
+    });
+  }
+  search.undo(block.row, block.col);
+  return wins ? 'four-three' : null;
+}
+
+/**
+ * Looks for a win `symbol` can force from here, to move: a five to
+ * complete, or a four that cannot be stopped. None counts while the
+ * opponent has a five of their own to complete.
+ */
+export function findForcedWin(
+  request: PositionRequest,
+): ForcedWinThreat | null {
+  const { symbol } = request;
+  const search = new SearchBoard(
+    request.board,
+    request.ruleset,
+    request.winLength,
+    Infinity,
+  );
+  const empty = emptyNeighbours(search);
+  const legal = empty.filter(
+    ({ row, col }) => !search.isForbidden(row, col, symbol),
+  );
+
+  const fives = legal.filter(({ row, col }) =>
+    search.wouldWin(row, col, symbol),
+  );
+  if (fives.length > 0) {
+    return {
+      kind: 'five',
+      moves: fives.map(({ row, col }) => search.world(row, col)),
+    };
+  }
+  const opponent = getOpponent(symbol);
+  if (empty.some(({ row, col }) => search.wouldWin(row, col, opponent))) {
+    return null;
+  }
+
+  // A four needs a window already holding all but two of the stones
+  const fourScore = 10 ** (search.winLength - 2);
+  let kind: ForcedWin | null = null;
+  const moves: Position[] = [];
+  for (const { row, col } of legal) {
+    if (scoreCell(search, row, col)[symbol] < fourScore) continue;
+    search.place(row, col, symbol);
+    const threat = threatAt(search, row, col, symbol);
+    search.undo(row, col);
+    if (!threat) continue;
+
+    moves.push(search.world(row, col));
+    if (!kind || FORCED_WINS.indexOf(threat) < FORCED_WINS.indexOf(kind)) {
+      kind = threat;
+    }
+  }
+  return kind ? { kind, moves } : null;
+}
@@ -0,0 +1,120 @@
+import { UseFilters, UsePipes, ValidationPipe } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { ChatChannel, SocketEvent } from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { WsExceptionFilter } from '../../common/filters/ws-exception.filter';
+import type { GameServer, GameSocket } from '../game/game-socket.types';
+import {
+  GATEWAY_OPTIONS,
+  isSpectating,
+  playerChannel,
+  roomChannel,
+  spectatorChannel,
+} from '../game/game-socket.types';
+import { RoomService } from '../room/room.service';
+import { ChatService } from './chat.service';
+import { MutePlayerDto, SendChatMessageDto } from './dto/chat.dto';
+
+/**
+ * Room chat. The seated players talk on the room's channel and spectators
+ * on theirs, so neither side reads the other's messages.
+ */
+@WebSocketGateway(GATEWAY_OPTIONS)
+@UseFilters(new WsExceptionFilter())
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class ChatGateway {
+  @WebSocketServer()
+  server: GameServer;
+
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly roomService: RoomService,
+  ) {}
+
+  @SubscribeMessage(SocketEvent.SEND_CHAT_MESSAGE)
+  async handleSendMessage(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: SendChatMessageDto,
+  ) {
+    const player = client.data.player;
+    const channel = await this.channelOf(client, dto.roomId);
+    const message = await this.chatService.send(
+      dto.roomId,
+      channel,
+      player,
+      dto.text,
+    );
+
+    if (channel === 'spectators') {
+      this.server
+        .to(spectatorChannel(dto.roomId))
+        .emit(SocketEvent.CHAT_MESSAGE, { message });
+      return;
+    }
+
+    const room = await this.roomService.getOrThrow(dto.roomId);
+    const muting = await this.chatService.mutedBy(
+      room.id,
+      player.id,
+      room.players.map((seated) => seated.id),
+    );
+    this.server
+      .to(roomChannel(room.id))
+      .except(muting.map(playerChannel))
+      .emit(SocketEvent.CHAT_MESSAGE, { message });
+  }
+
+  @SubscribeMessage(SocketEvent.MUTE_PLAYER)
+  async handleMutePlayer(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: MutePlayerDto,
+  ) {
+    const player = client.data.player;
+    const room = await this.roomService.getOrThrow(dto.roomId);
+    await this.chatService.setMuted(room, player.id, dto.playerId, dto.muted);
+
+    this.server.to(playerChannel(player.id)).emit(SocketEvent.PLAYER_MUTED, {
+      roomId: room.id,
+      playerId: dto.playerId,
+      muted: dto.muted,
+    });
+  }
+
+  /**
+   * Sends a socket that just joined, rejoined or started watching a room
+   * the recent messages of its side of the chat.
+   */
+  async sendHistory(
+    client: GameSocket,
+    roomId: string,
+    channel: ChatChannel,
+  ): Promise<void> {
+    const messages = await this.chatService.history(
+      roomId,
+      channel,
+      client.data.player.id,
+    );
+    client.emit(SocketEvent.CHAT_HISTORY, { roomId, channel, messages });
+  }
+
+  private async channelOf(
+    client: GameSocket,
+    roomId: string,
+  ): Promise<ChatChannel> {
+    if (client.data.spectating === roomId && isSpectating(client)) {
+      return 'spectators';
+    }
+
+    const room = await this.roomService.getOrThrow(roomId);
+    if (room.players.some((player) => player.id === client.data.player.id)) {
+      return 'players';
+    }
+    throw new GameException('NOT_IN_GAME', 'You are not in this room');
+  }
+}
@@ -0,0 +1,125 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Room } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { makePlayer } from '../../testing/test-players';
+import { ChatService } from './chat.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+const CONFIG: Record<string, unknown> = {
+  redis: { host: 'localhost', port: 6379 },
+  'chat.rateLimit': 3,
+  'chat.rateWindow': 10_000,
+  'chat.bannedWords': ['darn', 'đồ ngốc'],
+};
+
+describe('ChatService', () => {
+  let chatService: ChatService;
+  let redisService: RedisService;
+  const alice = makePlayer('alice');
+  const bob = makePlayer('bob');
+  const carol = makePlayer('carol');
+  const room = { id: 'room-1', players: [alice, bob] } as Room;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        RedisService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => CONFIG[key] },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    chatService = module.get(ChatService);
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+  });
+
+  it('should keep history per channel, oldest first', async () => {
+    await chatService.send(room.id, 'players', alice, ' good luck ');
+    await chatService.send(room.id, 'players', bob, 'you too');
+    await chatService.send(room.id, 'spectators', carol, 'go alice');
+
+    const history = await chatService.history(room.id, 'players', alice.id);
+    expect(history.map(({ sender, text }) => [sender.id, text])).toEqual([
+      ['alice', 'good luck'],
+      ['bob', 'you too'],
+    ]);
+    expect(
+      await chatService.history(room.id, 'spectators', carol.id),
+    ).toMatchObject([{ channel: 'spectators', text: 'go alice' }]);
+  });
+
+  it('should mask banned words whole and in any case', async () => {
+    const message = await chatService.send(
+      room.id,
+      'players',
+      alice,
+      'Darn, darning is ĐỒ NGỐC work',
+    );
+
+    expect(message.text).toBe('****, darning is ******* work');
+  });
+
+  it('should reject an empty message', async () => {
+    await expect(
+      chatService.send(room.id, 'players', alice, '   '),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should rate limit each sender across rooms', async () => {
+    await chatService.send(room.id, 'players', alice, 'one');
+    await chatService.send(room.id, 'players', alice, 'two');
+    await chatService.send('room-2', 'spectators', alice, 'three');
+
+    await expect(
+      chatService.send(room.id, 'players', alice, 'four'),
+    ).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      details: { retryAfter: expect.any(Number) as number },
+    });
+    await expect(
+      chatService.send(room.id, 'players', bob, 'fine'),
+    ).resolves.toBeDefined();
+    expect(await chatService.history(room.id, 'players', bob.id)).toHaveLength(
+      3,
+    );
+  });
+
+  it('should hide a muted opponent from the muting player only', async () => {
+    await chatService.send(room.id, 'players', bob, 'gg ez');
+    await chatService.setMuted(room, alice.id, bob.id, true);
+
+    expect(await chatService.history(room.id, 'players', alice.id)).toEqual([]);
+    expect(await chatService.history(room.id, 'players', bob.id)).toHaveLength(
+      1,
+    );
+    expect(
+      await chatService.mutedBy(room.id, bob.id, [alice.id, bob.id]),
+    ).toEqual([alice.id]);
+
+    await chatService.setMuted(room, alice.id, bob.id, false);
+    expect(await chatService.mutedBy(room.id, bob.id, [alice.id])).toEqual([]);
+  });
+
+  it('should only let seated players mute their opponent', async () => {
+    await expect(
+      chatService.setMuted(room, carol.id, bob.id, true),
+    ).rejects.toMatchObject({ code: 'NOT_IN_GAME' });
+    await expect(
+      chatService.setMuted(room, alice.id, carol.id, true),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(
+      chatService.setMuted(room, alice.id, alice.id, true),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
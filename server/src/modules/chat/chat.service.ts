@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import {
+  ChatChannel,
+  ChatMessage,
+  GAME_CONFIG,
+  Player,
+  Room,
+} from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { RedisService } from '../../common/services/redis.service';
+
+// Chat is only kept for late joiners and reconnects
+const HISTORY_TTL_SECONDS = 60 * 60;
+// Mutes last as long as the room can
+const MUTE_TTL_SECONDS = 2 * 60 * 60;
+
+// Counts a message in the sender's window. Returns 0 while under the limit,
+// else the milliseconds until the window resets.
+const RATE_LIMIT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+if count > tonumber(ARGV[1]) then
+  return redis.call('PTTL', KEYS[1])
+end
+return 0
+`;
+
+// Matches the words whole and in any case. \b only knows ASCII letters, so
+// words with diacritics are bounded by lookarounds instead.
+function wordPattern(words: string[]): RegExp {
+  const escaped = words.map((word) =>
+    word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+  );
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(${escaped.join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  );
+}
+
+@Injectable()
+export class ChatService {
+  private readonly rateLimit: number;
+  private readonly rateWindow: number;
+  private readonly bannedWords: RegExp | null;
+
+  constructor(
+    private readonly redisService: RedisService,
+    configService: ConfigService,
+  ) {
+    this.rateLimit = configService.get<number>('chat.rateLimit') ?? 5;
+    this.rateWindow = configService.get<number>('chat.rateWindow') ?? 10_000;
+
+    const words = configService.get<string[]>('chat.bannedWords') ?? [];
+    this.bannedWords = words.length ? wordPattern(words) : null;
+  }
+
+  /**
+   * Stores a message in the room's history for the channel. Banned words
+   * are masked rather than rejected; the sender's rate limit spans all
+   * rooms.
+   */
+  async send(
+    roomId: string,
+    channel: ChatChannel,
+    sender: Player,
+    text: string,
+  ): Promise<ChatMessage> {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new GameException('VALIDATION_ERROR', 'Message is empty');
+    }
+    await this.assertUnderRateLimit(sender.id);
+
+    const message: ChatMessage = {
+      id: randomUUID(),
+      roomId,
+      channel,
+      sender: { id: sender.id, username: sender.username },
+      text: this.filter(trimmed),
+      sentAt: Date.now(),
+    };
+
+    const key = this.historyKey(roomId, channel);
+    await this.redisService.rpush(key, JSON.stringify(message));
+    await this.redisService.ltrim(key, -GAME_CONFIG.CHAT_HISTORY_SIZE, -1);
+    await this.redisService.expire(key, HISTORY_TTL_SECONDS);
+    return message;
+  }
+
+  /**
+   * Recent messages of the channel, oldest first, without those of players
+   * the viewer has muted.
+   */
+  async history(
+    roomId: string,
+    channel: ChatChannel,
+    viewerId: string,
+  ): Promise<ChatMessage[]> {
+    const raw = await this.redisService.lrange(
+      this.historyKey(roomId, channel),
+      0,
+      -1,
+    );
+    const muted = new Set(
+      await this.redisService.smembers(this.mutesKey(roomId, viewerId)),
+    );
+    return raw
+      .map((entry) => JSON.parse(entry) as ChatMessage)
+      .filter((message) => !muted.has(message.sender.id));
+  }
+
+  /**
+   * Mutes or unmutes the player's opponent for the player alone. Only the
+   * room's seated players can mute, and only each other.
+   */
+  async setMuted(
+    room: Room,
+    playerId: string,
+    targetId: string,
+    muted: boolean,
+  ): Promise<void> {
+    const seated = (id: string) => room.players.some((p) => p.id === id);
+    if (!seated(playerId)) {
+      throw new GameException('NOT_IN_GAME', 'You are not in this room');
+    }
+    if (targetId === playerId || !seated(targetId)) {
+      throw new GameException(
+        'VALIDATION_ERROR',
+        'Only your opponent can be muted',
+      );
+    }
+
+    const key = this.mutesKey(room.id, playerId);
+    if (muted) {
+      await this.redisService.sadd(key, targetId);
+      await this.redisService.expire(key, MUTE_TTL_SECONDS);
+    } else {
+      await this.redisService.srem(key, targetId);
+    }
+  }
+
+  /**
+   * Which of the recipients have muted the sender in this room.
+   */
+  async mutedBy(
+    roomId: string,
+    senderId: string,
+    recipientIds: string[],
+  ): Promise<string[]> {
+    const muting: string[] = [];
+    for (const id of recipientIds) {
+      if (
+        await this.redisService.sismember(this.mutesKey(roomId, id), senderId)
+      ) {
+        muting.push(id);
+      }
+    }
+    return muting;
+  }
+
+  private async assertUnderRateLimit(playerId: string): Promise<void> {
+    const retryAfter = await this.redisService.eval(
+      RATE_LIMIT_SCRIPT,
+      [`chat:rate:${playerId}`],
+      [this.rateLimit, this.rateWindow],
+    );
+    if (typeof retryAfter === 'number' && retryAfter > 0) {
+      throw new GameException(
+        'RATE_LIMITED',
+        'You are sending messages too quickly',
+        { retryAfter },
+      );
+    }
+  }
+
+  private filter(text: string): string {
+    return this.bannedWords
+      ? text.replace(this.bannedWords, (word) => '*'.repeat(word.length))
+      : text;
+  }
+
+  private historyKey(roomId: string, channel: ChatChannel): string {
+    return `room:${roomId}:chat:${channel}`;
+  }
+
+  // Players muted by the player in this room
+  private mutesKey(roomId: string, playerId: string): string {
+    return `room:${roomId}:mutes:${playerId}`;
+  }
+}
@@ -0,0 +1,29 @@
+import { IsBoolean, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import {
+  GAME_CONFIG,
+  MutePlayerPayload,
+  SendChatMessagePayload,
+} from '@shared/types/game.types';
+
+export class SendChatMessageDto implements SendChatMessagePayload {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsString()
+  @MaxLength(GAME_CONFIG.CHAT_MAX_LENGTH)
+  text: string;
+}
+
+export class MutePlayerDto implements MutePlayerPayload {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  playerId: string;
+
+  @IsBoolean()
+  muted: boolean;
+}
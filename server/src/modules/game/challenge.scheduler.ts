@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { sweepDeadlines } from './deadline-sweep';
+import { GameGateway } from './game.gateway';
+import { GameService } from './game.service';
+
+const SWEEP_INTERVAL_MS = 500;
+
+/**
+ * Enforces challenge deadlines. Deadlines live in Redis rather than in
+ * timers, so a restarted process picks up the ones that passed while it
+ * was down on its first sweep.
+ */
+@Injectable()
+export class ChallengeScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(ChallengeScheduler.name);
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly gameGateway: GameGateway,
+    private readonly lease: SchedulerLeaseService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.interval = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    if (!this.lease.isLeader()) {
+      return;
+    }
+
+    await sweepDeadlines(this.logger, {
+      name: 'Challenge',
+      findExpired: () => this.gameService.findExpiredChallenges(now),
+      handle: async (gameId) => {
+        const expiry = await this.gameService.expireChallenge(gameId, now);
+        if (expiry) {
+          await this.gameGateway.notifyChallengeExpired(expiry);
+        }
+      },
+      failure: (gameId) => `Could not expire challenge ${gameId}`,
+    });
+  }
+}
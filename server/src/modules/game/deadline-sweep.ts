@@ -0,0 +1,37 @@
+import { Logger } from '@nestjs/common';
+
+export interface DeadlineSweep<T> {
+  // Names the sweep in the log, e.g. 'Challenge'
+  name: string;
+  findExpired: () => Promise<T[]>;
+  handle: (entry: T) => Promise<void>;
+  // The log line for an entry that could not be handled
+  failure: (entry: T) => string;
+}
+
+/**
+ * Handles every entry of a deadline set that has expired. Handlers re-check
+ * the deadline under the game lock and drop it only once they succeed, so
+ * an entry that fails stays for the next sweep to retry; it must not hold up
+ * the other entries in the meantime.
+ */
+export async function sweepDeadlines<T>(
+  logger: Logger,
+  sweep: DeadlineSweep<T>,
+): Promise<void> {
+  let entries: T[];
+  try {
+    entries = await sweep.findExpired();
+  } catch (error) {
+    logger.error(`${sweep.name} sweep failed`, error);
+    return;
+  }
+
+  for (const entry of entries) {
+    try {
+      await sweep.handle(entry);
+    } catch (error) {
+      logger.error(sweep.failure(entry), error);
+    }
+  }
+}
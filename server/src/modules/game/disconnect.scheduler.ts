@@ -0,0 +1,59 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { sweepDeadlines } from './deadline-sweep';
+import { GameGateway } from './game.gateway';
+import { GameService } from './game.service';
+
+const SWEEP_INTERVAL_MS = 1000;
+
+/**
+ * Abandons games whose disconnected player did not return within the grace
+ * period. Grace deadlines live in Redis, so they survive a restart.
+ */
+@Injectable()
+export class DisconnectScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(DisconnectScheduler.name);
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly gameGateway: GameGateway,
+    private readonly lease: SchedulerLeaseService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.interval = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    if (!this.lease.isLeader()) {
+      return;
+    }
+
+    await sweepDeadlines(this.logger, {
+      name: 'Disconnect',
+      findExpired: () => this.gameService.findExpiredDisconnections(now),
+      handle: async ({ gameId, playerId }) => {
+        const abandoned = await this.gameService.abandon(gameId, playerId, now);
+        if (abandoned) {
+          await this.gameGateway.notifyAbandoned(abandoned);
+        }
+      },
+      failure: ({ gameId }) => `Could not abandon game ${gameId}`,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  GameActionPayload,
+  ProposeDrawPayload,
+} from '@shared/types/game.types';
+
+export class GameActionDto implements GameActionPayload {
+  @IsUUID()
+  gameId: string;
+}
+
+export class ProposeDrawDto
+  extends GameActionDto
+  implements ProposeDrawPayload
+{
+  // Ignored: the proposer is always the authenticated player
+  @IsOptional()
+  @IsString()
+  proposedBy: string;
+}
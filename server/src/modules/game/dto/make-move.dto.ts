@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsString,
+  IsUUID,
+  Length,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MakeMovePayload, Position } from '@shared/types/game.types';
+
+// Bounds depend on the game's geometry and are checked by the rules engine
+export class PositionDto implements Position {
+  @IsInt()
+  row: number;
+
+  @IsInt()
+  col: number;
+}
+
+export class MakeMoveDto implements MakeMovePayload {
+  @IsUUID()
+  gameId: string;
+
+  @ValidateNested()
+  @Type(() => PositionDto)
+  position: PositionDto;
+
+  @IsInt()
+  @Min(1)
+  moveNumber: number;
+
+  @IsString()
+  @Length(1, 64)
+  moveId: string;
+}
@@ -0,0 +1,34 @@
+import { IsBoolean, IsNotEmpty, IsString } from 'class-validator';
+import {
+  JoinRoomPayload,
+  LeaveRoomPayload,
+  SetSpectatingPayload,
+  SpectateRoomPayload,
+} from '@shared/types/game.types';
+
+export class JoinRoomDto implements JoinRoomPayload {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+}
+
+export class LeaveRoomDto implements LeaveRoomPayload {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+}
+
+export class SpectateRoomDto implements SpectateRoomPayload {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+}
+
+export class SetSpectatingDto implements SetSpectatingPayload {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsBoolean()
+  allowSpectators: boolean;
+}
@@ -0,0 +1,7 @@
+import { IsInt } from 'class-validator';
+import { SyncClockPayload } from '@shared/types/game.types';
+
+export class SyncClockDto implements SyncClockPayload {
+  @IsInt()
+  clientTime: number;
+}
@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { randomUUID } from 'crypto';
+import { DataSource } from 'typeorm';
+import {
+  DEFAULT_TIME_CONTROL,
+  GamePlayer,
+  GameState,
+  PlayerSymbol,
+} from '@shared/types/game.types';
+import { EloHistoryEntity } from '../../entities/elo-history.entity';
+import { GameParticipantEntity } from '../../entities/game-participant.entity';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+import { PlayerEntity } from '../../entities/player.entity';
+import { createTestDataSource } from '../../testing/test-data-source';
+import { AnalysisService } from '../analysis/analysis.service';
+import { RankingService } from '../ranking/ranking.service';
+import { RatingService } from '../rating/rating.service';
+import { GameArchiveService } from './game-archive.service';
+
+describe('GameArchiveService', () => {
+  let dataSource: DataSource;
+  let gameArchive: GameArchiveService;
+  let alice: PlayerEntity;
+  let bob: PlayerEntity;
+  const update = jest.fn();
+  const enqueue = jest.fn();
+
+  // pg-mem hands back column defaults as strings, so spell them out
+  function createPlayer(username: string): PlayerEntity {
+    return dataSource.getRepository(PlayerEntity).create({
+      username,
+      passwordHash: 'hash',
+      elo: 1000,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+    });
+  }
+
+  function seat(player: PlayerEntity, symbol: PlayerSymbol): GamePlayer {
+    return {
+      player: {
+        id: player.id,
+        username: player.username,
+        elo: player.elo,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        isProvisional: true,
+        isOnline: true,
+        createdAt: player.createdAt,
+      },
+      symbol,
+      hasAcceptedChallenge: true,
+      isConnected: true,
+      drawOffersRemaining: 3,
+    };
+  }
+
+  function finishedGame(winner: PlayerSymbol | null): GameState {
+    const players = [seat(alice, 'X'), seat(bob, 'O')];
+    return {
+      id: randomUUID(),
+      roomId: randomUUID(),
+      board: [],
+      status: 'completed',
+      ruleset: 'caro',
+      geometry: { size: 16, winLength: 5, infinite: false },
+      boardOrigin: { row: 0, col: 0 },
+      currentTurn: null,
+      timeControl: DEFAULT_TIME_CONTROL,
+      clocks: {
+        X: { remaining: 30_000, periods: 1, inByoyomi: true },
+        O: { remaining: 30_000, periods: 1, inByoyomi: true },
+      },
+      turnStartedAt: null,
+      challengeDeadline: null,
+      startedAt: 500,
+      drawOfferedBy: null,
+      players,
+      winner: players.find((player) => player.symbol === winner) ?? null,
+      winningLine: null,
+      moveHistory: [
+        { position: { row: 7, col: 7 }, player: 'X', timestamp: 1_000 },
+        { position: { row: 7, col: 8 }, player: 'O', timestamp: 2_000 },
+      ],
+      createdAt: new Date(0),
+      updatedAt: new Date(2_000),
+    };
+  }
+
+  beforeEach(async () => {
+    update.mockReset();
+    enqueue.mockReset();
+    dataSource = await createTestDataSource();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameArchiveService,
+        RatingService,
+        { provide: DataSource, useValue: dataSource },
+        { provide: RankingService, useValue: { update } },
+        { provide: AnalysisService, useValue: { enqueue } },
+      ],
+    }).compile();
+    gameArchive = module.get(GameArchiveService);
+
+    const players = dataSource.getRepository(PlayerEntity);
+    alice = await players.save(createPlayer('alice'));
+    bob = await players.save(createPlayer('bob'));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should store the game, its players and moves and rate it', async () => {
+    const game = finishedGame('X');
+
+    const eloChanges = await gameArchive.archive(game, 'five-in-a-row');
+
+    expect(eloChanges[alice.id]).toMatchObject({ previous: 1000, new: 1020 });
+    expect(eloChanges[bob.id]).toMatchObject({ previous: 1000, new: 980 });
+    expect(
+      await dataSource.getRepository(GameEntity).findOneBy({ id: game.id }),
+    ).toMatchObject({
+      status: 'completed',
+      reason: 'five-in-a-row',
+      winnerId: alice.id,
+      moveCount: 2,
+      geometry: game.geometry,
+      timeControl: game.timeControl,
+      startedAt: new Date(500),
+      analysis: 'pending',
+    });
+    expect(
+      await dataSource
+        .getRepository(GameParticipantEntity)
+        .find({ where: { gameId: game.id }, order: { symbol: 'ASC' } }),
+    ).toMatchObject([
+      { playerId: bob.id, symbol: 'O', result: 'loss', eloAfter: 980 },
+      { playerId: alice.id, symbol: 'X', result: 'win', eloAfter: 1020 },
+    ]);
+    expect(
+      await dataSource
+        .getRepository(MoveEntity)
+        .find({ where: { gameId: game.id }, order: { moveNumber: 'ASC' } }),
+    ).toMatchObject([
+      { moveNumber: 1, symbol: 'X', row: 7, col: 7 },
+      { moveNumber: 2, symbol: 'O', row: 7, col: 8 },
+    ]);
+    expect(
+      await dataSource.getRepository(PlayerEntity).findOneBy({ id: bob.id }),
+    ).toMatchObject({ elo: 980, losses: 1 });
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(enqueue).toHaveBeenCalledWith(game.id);
+  });
+
+  it('should record a draw without a winner', async () => {
+    const game = finishedGame(null);
+
+    await gameArchive.archive(game, 'draw-agreed');
+
+    const stored = await dataSource
+      .getRepository(GameEntity)
+      .findOneBy({ id: game.id });
+    expect(stored?.winnerId).toBeNull();
+    expect(
+      await dataSource.getRepository(EloHistoryEntity).countBy({
+        gameId: game.id,
+        result: 'draw',
+      }),
+    ).toBe(2);
+  });
+
+  it('should not queue a game without moves for analysis', async () => {
+    const game = finishedGame(null);
+    game.status = 'abandoned';
+    game.moveHistory = [];
+
+    await gameArchive.archive(game, 'abandoned');
+
+    expect(
+      await dataSource.getRepository(GameEntity).findOneBy({ id: game.id }),
+    ).toMatchObject({ analysis: 'complete', moveCount: 0 });
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should not archive or rate a game twice', async () => {
+    const game = finishedGame('O');
+    await gameArchive.archive(game, 'surrender');
+
+    await expect(gameArchive.archive(game, 'surrender')).rejects.toThrow();
+
+    expect(
+      await dataSource.getRepository(PlayerEntity).findOneBy({ id: bob.id }),
+    ).toMatchObject({ elo: 1020, wins: 1 });
+    expect(await dataSource.getRepository(EloHistoryEntity).count()).toBe(2);
+  });
+
+  it('should archive a game against a bot without rating it', async () => {
+    const game = finishedGame('X');
+    game.players[1].player.isBot = true;
+
+    expect(await gameArchive.archive(game, 'five-in-a-row')).toEqual({});
+
+    expect(
+      await dataSource
+        .getRepository(GameParticipantEntity)
+        .find({ where: { gameId: game.id }, order: { symbol: 'ASC' } }),
+    ).toMatchObject([
+      { playerId: bob.id, result: 'loss', eloBefore: 1000, eloAfter: 1000 },
+      { playerId: alice.id, result: 'win', eloBefore: 1000, eloAfter: 1000 },
+    ]);
+    expect(
+      await dataSource.getRepository(PlayerEntity).findOneBy({ id: alice.id }),
+    ).toMatchObject({ elo: 1000, wins: 0 });
+    expect(await dataSource.getRepository(EloHistoryEntity).count()).toBe(0);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import {
+  GameEndReason,
+  GameOverPayload,
+  GameState,
+} from '@shared/types/game.types';
+import { GameParticipantEntity } from '../../entities/game-participant.entity';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+import { AnalysisService } from '../analysis/analysis.service';
+import {
+  GameResultEntry,
+  RatingOutcome,
+  RatingService,
+} from '../rating/rating.service';
+
+/**
+ * Writes finished games from Redis to Postgres. The game, its participants,
+ * its moves and the rating all go in one transaction, so a game is either
+ * archived and rated completely or not at all, and never twice. Games
+ * against a bot are archived but not rated. Once stored, a game with moves
+ * is queued for engine analysis.
+ */
+@Injectable()
+export class GameArchiveService {
+  private readonly logger = new Logger(GameArchiveService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly ratingService: RatingService,
+    private readonly analysisService: AnalysisService,
+  ) {}
+
+  /** Expects the game already marked completed or abandoned. */
+  async archive(
+    game: GameState,
+    reason: GameEndReason,
+  ): Promise<GameOverPayload['eloChanges']> {
+    if (game.status !== 'completed' && game.status !== 'abandoned') {
+      throw new Error(`Game ${game.id} is not over`);
+    }
+    const status = game.status;
+    const analysed = game.moveHistory.length > 0;
+    const results: GameResultEntry[] = game.players.map((seat) => ({
+      playerId: seat.player.id,
+      symbol: seat.symbol,
+      result: !game.winner
+        ? 'draw'
+        : seat.symbol === game.winner.symbol
+          ? 'win'
+          : 'loss',
+    }));
+
+    const rating = await this.dataSource.transaction(async (manager) => {
+      await manager.insert(GameEntity, {
+        id: game.id,
+        roomId: game.roomId,
+        status,
+        ruleset: game.ruleset,
+        geometry: game.geometry,
+        timeControl: game.timeControl,
+        reason,
+        winnerId: game.winner?.player.id ?? null,
+        winningLine: game.winningLine,
+        moveCount: game.moveHistory.length,
+        // Only games in progress are finished, so the challenge was accepted
+        startedAt: new Date(game.startedAt!),
+        endedAt: new Date(),
+        // Nothing to analyse without moves
+        analysis: analysed ? 'pending' : 'complete',
+      });
+
+      const rated = game.players.every((seat) => !seat.player.isBot);
+      const rating: RatingOutcome = rated
+        ? await this.ratingService.rateGame(
+            manager,
+            game.id,
+            results,
+            game.moveHistory.length,
+          )
+        : { eloChanges: {}, players: [] };
+      const eloOf = (playerId: string): number =>
+        game.players.find((seat) => seat.player.id === playerId)!.player.elo;
+
+      await manager.insert(
+        GameParticipantEntity,
+        results.map(({ playerId, symbol, result }) => ({
+          gameId: game.id,
+          playerId,
+          symbol,
+          result,
+          eloBefore: rating.eloChanges[playerId]?.previous ?? eloOf(playerId),
+          eloAfter: rating.eloChanges[playerId]?.new ?? eloOf(playerId),
+        })),
+      );
+      if (game.moveHistory.length > 0) {
+        await manager.insert(
+          MoveEntity,
+          game.moveHistory.map((move, index) => ({
+            gameId: game.id,
+            moveNumber: index + 1,
+            symbol: move.player,
+            row: move.position.row,
+            col: move.position.col,
+            playedAt: new Date(move.timestamp),
+            timeRemaining: move.timeRemaining ?? null,
+          })),
+        );
+      }
+
+      return rating;
+    });
+
+    this.logger.log(`Archived game ${game.id}`);
+    await this.ratingService.updateRankings(rating.players);
+    if (analysed) {
+      await this.analysisService.enqueue(game.id);
+    }
+    return rating.eloChanges;
+  }
+}
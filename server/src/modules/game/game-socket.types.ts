@@ -0,0 +1,68 @@
+import { GatewayMetadata } from '@nestjs/websockets';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
+import {
+  ClientToServerEvents,
+  Player,
+  ServerToClientEvents,
+} from '@shared/types/game.types';
+
+// Every gateway shares one Socket.IO server, so they must share its options
+export const GATEWAY_OPTIONS: GatewayMetadata = {
+  cors: {
+    origin: process.env.CLIENT_URL || 'http://localhost:3000',
+    credentials: true,
+  },
+};
+
+export const LOBBY_CHANNEL = 'lobby';
+
+export interface GameSocketData {
+  player: Player;
+  // The room this socket watches; see isSpectating
+  spectating?: string;
+}
+
+export type GameServer = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  GameSocketData
+>;
+
+export type GameSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  GameSocketData
+>;
+
+export function roomChannel(roomId: string): string {
+  return `room:${roomId}`;
+}
+
+// Spectators of a room get its game updates without joining its channel,
+// so events meant for the players alone do not reach them
+export function spectatorChannel(roomId: string): string {
+  return `room:${roomId}:spectators`;
+}
+
+/**
+ * Whether the socket is watching a room. Channel membership decides, as the
+ * owner turning spectating off removes sockets from the channel without
+ * touching their `data`.
+ */
+export function isSpectating(socket: GameSocket): boolean {
+  const roomId = socket.data.spectating;
+  return !!roomId && socket.rooms.has(spectatorChannel(roomId));
+}
+
+// Sockets following a tournament's pairings and standings
+export function tournamentChannel(tournamentId: string): string {
+  return `tournament:${tournamentId}`;
+}
+
+// Every socket of a player joins this channel, so the server can reach the
+// player without knowing their socket ids
+export function playerChannel(playerId: string): string {
+  return `player:${playerId}`;
+}
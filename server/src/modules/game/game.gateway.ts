@@ -0,0 +1,815 @@
+import {
+  Logger,
+  UseFilters,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import type { ExtendedError } from 'socket.io';
+import { currentClocks } from '@shared/types/game.clock';
+import {
+  ErrorPayload,
+  GameOverPayload,
+  GameState,
+  Player,
+  CreateRoomRequest,
+  Room,
+  SocketEvent,
+  SpectatingStoppedPayload,
+} from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { WsExceptionFilter } from '../../common/filters/ws-exception.filter';
+import { TokenService } from '../auth/token.service';
+import { BotService } from '../bot/bot.service';
+import { ChatGateway } from '../chat/chat.gateway';
+import { PlayerService } from '../player/player.service';
+import { LobbyGateway } from '../room/lobby.gateway';
+import { RoomService } from '../room/room.service';
+import { TournamentGateway } from '../tournament/tournament.gateway';
+import { TournamentService } from '../tournament/tournament.service';
+import { GameActionDto, ProposeDrawDto } from './dto/game-action.dto';
+import { MakeMoveDto } from './dto/make-move.dto';
+import {
+  JoinRoomDto,
+  LeaveRoomDto,
+  SetSpectatingDto,
+  SpectateRoomDto,
+} from './dto/room.dto';
+import { SyncClockDto } from './dto/sync-clock.dto';
+import {
+  ChallengeExpiry,
+  GameEnd,
+  GameService,
+  MoveResult,
+  TurnTimeout,
+} from './game.service';
+import type { GameServer, GameSocket } from './game-socket.types';
+import {
+  GATEWAY_OPTIONS,
+  isSpectating,
+  playerChannel,
+  roomChannel,
+  spectatorChannel,
+} from './game-socket.types';
+import { SpectatorGuard } from './spectator.guard';
+
+@WebSocketGateway(GATEWAY_OPTIONS)
+@UseFilters(new WsExceptionFilter())
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class GameGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
+  @WebSocketServer()
+  server: GameServer;
+
+  private readonly logger = new Logger(GameGateway.name);
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly roomService: RoomService,
+    private readonly lobbyGateway: LobbyGateway,
+    private readonly playerService: PlayerService,
+    private readonly tokenService: TokenService,
+    private readonly botService: BotService,
+    private readonly chatGateway: ChatGateway,
+    private readonly tournamentService: TournamentService,
+    private readonly tournamentGateway: TournamentGateway,
+  ) {}
+
+  afterInit(server: GameServer) {
+    // Reject unauthenticated sockets during the handshake, before any event
+    server.use((socket, next) => {
+      this.authenticate(socket as GameSocket).then(
+        () => next(),
+        (error: Error) => next(error),
+      );
+    });
+  }
+
+  async handleConnection(client: GameSocket) {
+    await client.join(playerChannel(client.data.player.id));
+
+    try {
+      await this.resume(client);
+    } catch (error) {
+      this.logger.error(`Could not resume ${client.data.player.id}`, error);
+    }
+  }
+
+  async handleDisconnect(client: GameSocket) {
+    await this.stopSpectating(client);
+
+    const player = client.data.player;
+    if (!player || (await this.isConnected(player.id))) {
+      return;
+    }
+
+    this.logger.log(`Player ${player.username} disconnected`);
+    await this.playerService.setOnline(player.id, false);
+
+    // Hold the seat of a game in progress; free it otherwise
+    const room = await this.roomService.findByPlayer(player.id);
+    if (room?.status === 'in_progress' && room.gameId) {
+      await this.holdSeat(room.gameId, player.id);
+    } else if (room) {
+      await this.leaveRoom(client, room.id);
+    }
+  }
+
+  @SubscribeMessage(SocketEvent.JOIN_ROOM)
+  async handleJoinRoom(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: JoinRoomDto,
+  ) {
+    const player = client.data.player;
+    let room = await this.roomService.join(dto.roomId, player);
+    let game: GameState;
+    try {
+      game = await this.seatRoomPlayers(room);
+      if (room.gameId !== game.id) {
+        room = await this.roomService.setGame(room.id, game.id);
+      }
+    } catch (error) {
+      await this.unseat(room.id, [player]);
+      throw error;
+    }
+    await this.stopSpectating(client);
+    const channel = roomChannel(dto.roomId);
+
+    await client.join(channel);
+    client.emit(SocketEvent.ROOM_JOINED, {
+      roomId: dto.roomId,
+      room,
+      players: room.players,
+      game,
+    });
+    await this.chatGateway.sendHistory(client, room.id, 'players');
+    client.to(channel).emit(SocketEvent.PLAYER_JOINED, {
+      roomId: dto.roomId,
+      player,
+    });
+    this.lobbyGateway.roomUpdated(room);
+
+    if (game.status === 'challenging') {
+      this.server.to(channel).emit(SocketEvent.CHALLENGE, {
+        gameId: game.id,
+        roomId: dto.roomId,
+        players: game.players,
+        deadline: game.challengeDeadline ?? Date.now(),
+      });
+    }
+  }
+
+  @SubscribeMessage(SocketEvent.LEAVE_ROOM)
+  async handleLeaveRoom(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: LeaveRoomDto,
+  ) {
+    await this.leaveRoom(client, dto.roomId);
+  }
+
+  /**
+   * Watches a room: the spectator gets the game as it stands at once, then
+   * its moves, clock and result, but cannot act in it.
+   */
+  @SubscribeMessage(SocketEvent.SPECTATE_ROOM)
+  async handleSpectateRoom(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: SpectateRoomDto,
+  ) {
+    const room = await this.roomService.addSpectator(
+      dto.roomId,
+      client.id,
+      client.data.player.id,
+    );
+    if (client.data.spectating !== room.id) {
+      await this.stopSpectating(client);
+    }
+    await client.join(spectatorChannel(room.id));
+    client.data.spectating = room.id;
+
+    const snapshot = room.gameId
+      ? await this.gameService.getSnapshot(room.gameId)
+      : null;
+    client.emit(SocketEvent.SPECTATING_STARTED, {
+      roomId: room.id,
+      room,
+      game: snapshot,
+    });
+    if (snapshot) {
+      client.emit(SocketEvent.GAME_STATE_UPDATE, { game: snapshot });
+    }
+    await this.chatGateway.sendHistory(client, room.id, 'spectators');
+    this.lobbyGateway.roomUpdated(room);
+  }
+
+  @SubscribeMessage(SocketEvent.STOP_SPECTATING)
+  async handleStopSpectating(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: SpectateRoomDto,
+  ) {
+    if (client.data.spectating === dto.roomId) {
+      await this.stopSpectating(client);
+    }
+  }
+
+  @SubscribeMessage(SocketEvent.SET_SPECTATING)
+  async handleSetSpectating(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: SetSpectatingDto,
+  ) {
+    const room = await this.roomService.setAllowSpectators(
+      dto.roomId,
+      client.data.player.id,
+      dto.allowSpectators,
+    );
+    if (!room.allowSpectators) {
+      this.dismissSpectators(room.id, 'disabled');
+    }
+
+    this.server.to(roomChannel(room.id)).emit(SocketEvent.ROOM_UPDATED, {
+      room: this.roomService.toListItem(room),
+    });
+    this.lobbyGateway.roomUpdated(room);
+  }
+
+  @UseGuards(SpectatorGuard)
+  @SubscribeMessage(SocketEvent.CHALLENGE_ACCEPTED)
+  async handleAcceptChallenge(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: GameActionDto,
+  ) {
+    const player = client.data.player;
+    const game = await this.gameService.acceptChallenge(dto.gameId, player.id);
+    const channel = roomChannel(game.roomId);
+
+    this.server.to(channel).emit(SocketEvent.CHALLENGE_ACCEPTED, {
+      gameId: game.id,
+      playerId: player.id,
+    });
+
+    if (game.status === 'in_progress') {
+      const room = await this.roomService.startGame(game.roomId, game.id);
+      this.server.to(channel).emit(SocketEvent.GAME_START, { game });
+      this.server
+        .to(spectatorChannel(game.roomId))
+        .emit(SocketEvent.GAME_STATE_UPDATE, { game });
+      this.broadcastTimer(game, game.turnStartedAt ?? Date.now());
+      this.lobbyGateway.roomUpdated(room);
+      void this.playBot(game);
+    }
+  }
+
+  @UseGuards(SpectatorGuard)
+  @SubscribeMessage(SocketEvent.MAKE_MOVE)
+  async handleMakeMove(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: MakeMoveDto,
+  ) {
+    const player = client.data.player;
+    const result = await this.gameService.makeMove(
+      dto.gameId,
+      player.id,
+      dto.position,
+      { moveNumber: dto.moveNumber, moveId: dto.moveId },
+    );
+
+    if (!result.moveMade) {
+      client.emit(SocketEvent.INVALID_MOVE, {
+        gameId: dto.gameId,
+        position: result.move.position,
+        validation: result.validation,
+      });
+      return;
+    }
+    // A retry: everyone else has had the move already
+    if (result.duplicate) {
+      client.emit(SocketEvent.MOVE_MADE, result.moveMade);
+      return;
+    }
+
+    await this.broadcastMove(player, result);
+    if (!result.gameOver) {
+      void this.playBot(result.game);
+    }
+  }
+
+  @UseGuards(SpectatorGuard)
+  @SubscribeMessage(SocketEvent.PROPOSE_DRAW)
+  async handleProposeDraw(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: ProposeDrawDto,
+  ) {
+    const player = client.data.player;
+    const game = await this.gameService.proposeDraw(dto.gameId, player.id);
+
+    this.server.to(roomChannel(game.roomId)).emit(SocketEvent.DRAW_PROPOSED, {
+      gameId: game.id,
+      proposedBy: player,
+      offersRemaining:
+        this.gameService.findSeat(game, player.id)?.drawOffersRemaining ?? 0,
+    });
+  }
+
+  @UseGuards(SpectatorGuard)
+  @SubscribeMessage(SocketEvent.ACCEPT_DRAW)
+  async handleAcceptDraw(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: GameActionDto,
+  ) {
+    const player = client.data.player;
+    const { game, gameOver } = await this.gameService.acceptDraw(
+      dto.gameId,
+      player.id,
+    );
+    await this.endGame(game, gameOver);
+  }
+
+  @UseGuards(SpectatorGuard)
+  @SubscribeMessage(SocketEvent.REJECT_DRAW)
+  async handleRejectDraw(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: GameActionDto,
+  ) {
+    const player = client.data.player;
+    const game = await this.gameService.rejectDraw(dto.gameId, player.id);
+
+    this.server.to(roomChannel(game.roomId)).emit(SocketEvent.REJECT_DRAW, {
+      gameId: game.id,
+      rejectedBy: player.id,
+      reason: 'rejected',
+    });
+  }
+
+  @UseGuards(SpectatorGuard)
+  @SubscribeMessage(SocketEvent.SURRENDER)
+  async handleSurrender(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: GameActionDto,
+  ) {
+    const player = client.data.player;
+    const { game, gameOver } = await this.gameService.surrender(
+      dto.gameId,
+      player.id,
+    );
+    await this.endGame(game, gameOver);
+  }
+
+  /**
+   * Answers a clock sync round trip so the client can estimate the offset
+   * between its clock and the server's.
+   */
+  @SubscribeMessage(SocketEvent.SYNC_CLOCK)
+  handleSyncClock(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: SyncClockDto,
+  ) {
+    client.emit(SocketEvent.CLOCK_SYNCED, {
+      clientTime: dto.clientTime,
+      serverTime: Date.now(),
+    });
+  }
+
+  /**
+   * Sends the game as it stands to a player or spectator who missed an
+   * update, e.g. on seeing a `move-made` version skip.
+   */
+  @SubscribeMessage(SocketEvent.SYNC_GAME)
+  async handleSyncGame(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: GameActionDto,
+  ) {
+    const game = await this.gameService.getSnapshot(dto.gameId);
+    const seated = game.players.some(
+      (seat) => seat.player.id === client.data.player.id,
+    );
+    if (!seated && client.data.spectating !== game.roomId) {
+      throw new GameException('NOT_IN_GAME', 'You are not in this game');
+    }
+
+    client.emit(SocketEvent.GAME_STATE_UPDATE, { game });
+  }
+
+  /**
+   * Reports an unanswered challenge and frees the seats of the players who
+   * lost them. Called by the ChallengeScheduler.
+   */
+  async notifyChallengeExpired({
+    game,
+    declinedBy,
+    removed,
+  }: ChallengeExpiry): Promise<void> {
+    this.server
+      .to(roomChannel(game.roomId))
+      .emit(SocketEvent.CHALLENGE_TIMEOUT, {
+        gameId: game.id,
+        roomId: game.roomId,
+        declinedBy: declinedBy.map((player) => player.id),
+      });
+
+    for (const player of removed) {
+      await this.removeFromRoom(player.id, game.roomId);
+    }
+    await this.closeTournamentGame(
+      game.roomId,
+      await this.tournamentService.recordNoShow(
+        game.roomId,
+        declinedBy.map((player) => player.id),
+      ),
+    );
+  }
+
+  /**
+   * Opens a room for two players the server paired and puts them straight
+   * into the challenge. A room that fails to open is closed again before
+   * the error is passed on. Called by the matchmaking and tournament
+   * schedulers.
+   */
+  async openRoom(
+    [first, second]: [Player, Player],
+    request: CreateRoomRequest,
+  ): Promise<Room> {
+    let room = await this.roomService.create(first, request);
+    let game: GameState;
+    try {
+      room = await this.roomService.join(room.id, second);
+      game = await this.seatRoomPlayers(room);
+      room = await this.roomService.setGame(room.id, game.id);
+    } catch (error) {
+      await this.unseat(room.id, [second, first]);
+      throw error;
+    }
+    this.lobbyGateway.roomCreated(room);
+
+    const channel = roomChannel(room.id);
+    for (const player of room.players) {
+      this.server.in(playerChannel(player.id)).socketsJoin(channel);
+      this.server.to(playerChannel(player.id)).emit(SocketEvent.ROOM_JOINED, {
+        roomId: room.id,
+        room,
+        players: room.players,
+        game,
+      });
+    }
+
+    this.server.to(channel).emit(SocketEvent.CHALLENGE, {
+      gameId: game.id,
+      roomId: room.id,
+      players: game.players,
+      deadline: game.challengeDeadline ?? Date.now(),
+    });
+    return room;
+  }
+
+  /** Sends both clocks as they stand at `now`. */
+  broadcastTimer(game: GameState, now: number): void {
+    if (!game.currentTurn) {
+      return;
+    }
+    this.toWatchers(game.roomId).emit(SocketEvent.TIMER_UPDATE, {
+      gameId: game.id,
+      clocks: currentClocks(game, now),
+      currentTurn: game.currentTurn,
+      serverTime: now,
+    });
+  }
+
+  /**
+   * Reports a turn that ran out of time and the resulting forfeit. Called by
+   * the TurnTimerScheduler.
+   */
+  async notifyTurnTimeout({
+    game,
+    gameOver,
+    player,
+  }: TurnTimeout): Promise<void> {
+    this.server.to(roomChannel(game.roomId)).emit(SocketEvent.TURN_TIMEOUT, {
+      gameId: game.id,
+      player,
+    });
+    await this.endGame(game, gameOver);
+  }
+
+  /**
+   * Adjudicates a game whose player did not reconnect in time and frees the
+   * seats of the absent players. Called by the DisconnectScheduler.
+   */
+  async notifyAbandoned({ game, gameOver }: GameEnd): Promise<void> {
+    await this.endGame(game, gameOver);
+    // A tournament game's room is closed by now
+    if (!(await this.roomService.findById(game.roomId))) {
+      return;
+    }
+
+    for (const seat of game.players) {
+      if (!seat.isConnected) {
+        await this.removeFromRoom(seat.player.id, game.roomId);
+      }
+    }
+  }
+
+  private async broadcastMove(
+    player: Player,
+    { game, move, moveMade, gameOver, drawDeclined }: MoveResult,
+  ): Promise<void> {
+    const channel = roomChannel(game.roomId);
+    if (drawDeclined) {
+      this.server.to(channel).emit(SocketEvent.REJECT_DRAW, {
+        gameId: game.id,
+        rejectedBy: player.id,
+        reason: 'move',
+      });
+    }
+    if (moveMade) {
+      this.toWatchers(game.roomId).emit(SocketEvent.MOVE_MADE, moveMade);
+    }
+
+    if (gameOver) {
+      await this.endGame(game, gameOver);
+    } else {
+      this.broadcastTimer(game, move.timestamp);
+    }
+  }
+
+  /**
+   * Plays the bot's move when it is a bot's turn. The search runs on a
+   * worker thread; the move then goes through the same rules and turn
+   * clock as a human's.
+   */
+  private async playBot(game: GameState): Promise<void> {
+    const seat = game.players.find(
+      (candidate) => candidate.symbol === game.currentTurn,
+    );
+    if (game.status !== 'in_progress' || !seat?.player.isBot) {
+      return;
+    }
+
+    try {
+      const position = await this.botService.chooseMove(game, seat);
+      const result = await this.gameService.makeMove(
+        game.id,
+        seat.player.id,
+        position,
+      );
+      if (!result.validation.isValid) {
+        throw new Error(result.validation.reason);
+      }
+      await this.broadcastMove(seat.player, result);
+    } catch (error) {
+      // Left to the turn timer, as for a human who does not move
+      this.logger.error(`Bot could not move in game ${game.id}`, error);
+    }
+  }
+
+  private async endGame(
+    game: GameState,
+    payload: GameOverPayload,
+  ): Promise<void> {
+    this.toWatchers(game.roomId).emit(SocketEvent.GAME_OVER, payload);
+
+    const room = await this.roomService.endGame(game.roomId);
+    this.lobbyGateway.roomUpdated(room);
+    await this.closeTournamentGame(
+      game.roomId,
+      await this.tournamentService.recordResult(
+        game.roomId,
+        payload.winner?.player.id ?? null,
+      ),
+    );
+  }
+
+  /**
+   * Puts a (re)connecting player back in their room and sends them the
+   * current game state.
+   */
+  private async resume(client: GameSocket): Promise<void> {
+    const player = client.data.player;
+    const room = await this.roomService.findByPlayer(player.id);
+    if (!room) {
+      return;
+    }
+
+    const channel = roomChannel(room.id);
+    await client.join(channel);
+
+    const game = room.gameId
+      ? await this.gameService.findById(room.gameId)
+      : null;
+    if (game && (await this.gameService.markReconnected(game.id, player.id))) {
+      client.to(channel).emit(SocketEvent.PLAYER_RECONNECTED, {
+        gameId: game.id,
+        playerId: player.id,
+      });
+    }
+
+    const snapshot = game ? await this.gameService.getSnapshot(game.id) : null;
+    client.emit(SocketEvent.ROOM_JOINED, {
+      roomId: room.id,
+      room,
+      players: room.players,
+      game: snapshot,
+    });
+    if (snapshot) {
+      client.emit(SocketEvent.GAME_STATE_UPDATE, { game: snapshot });
+    }
+    await this.chatGateway.sendHistory(client, room.id, 'players');
+  }
+
+  private async holdSeat(gameId: string, playerId: string): Promise<void> {
+    const held = await this.gameService.markDisconnected(gameId, playerId);
+    if (!held) {
+      return;
+    }
+
+    this.server
+      .to(roomChannel(held.game.roomId))
+      .emit(SocketEvent.PLAYER_DISCONNECTED, {
+        gameId,
+        playerId,
+        reconnectDeadline: held.reconnectDeadline,
+      });
+  }
+
+  private async isConnected(playerId: string): Promise<boolean> {
+    const sockets = await this.server
+      .in(playerChannel(playerId))
+      .fetchSockets();
+    return sockets.length > 0;
+  }
+
+  /**
+   * Seats everyone in the room at its game. A finished game is replaced by a
+   * fresh one, so the players who stayed are seated again.
+   */
+  private async seatRoomPlayers(room: Room): Promise<GameState> {
+    const options = {
+      ruleset: room.ruleset,
+      geometry: room.geometry,
+      timeControl: room.timeControl,
+    };
+    let game = await this.gameService.join(room.id, room.players[0], options);
+    for (const player of room.players.slice(1)) {
+      game = await this.gameService.join(room.id, player, options);
+    }
+    return game;
+  }
+
+  /**
+   * Takes players back out of a room that failed to seat them, closing its
+   * game and, once empty, the room, so they are free to join or be matched
+   * again. The room's creator goes last, as the room closes once they leave.
+   */
+  private async unseat(roomId: string, players: Player[]): Promise<void> {
+    try {
+      for (const player of players) {
+        await this.gameService.leave(roomId, player.id);
+        await this.roomService.leave(roomId, player.id);
+      }
+    } catch (error) {
+      this.logger.error(`Could not unseat players from room ${roomId}`, error);
+    }
+  }
+
+  /**
+   * Leaving forfeits a game in progress, and a tournament game not yet
+   * started. The room closes once empty.
+   */
+  private async leaveRoom(client: GameSocket, roomId: string): Promise<void> {
+    const player = client.data.player;
+    const { gameOver } = await this.gameService.leave(roomId, player.id);
+
+    if (gameOver) {
+      this.toWatchers(roomId).emit(SocketEvent.GAME_OVER, gameOver);
+    }
+
+    await this.removeFromRoom(player.id, roomId);
+    await this.closeTournamentGame(
+      roomId,
+      gameOver
+        ? await this.tournamentService.recordResult(
+            roomId,
+            gameOver.winner?.player.id ?? null,
+          )
+        : await this.tournamentService.recordNoShow(roomId, [player.id]),
+    );
+  }
+
+  /**
+   * Frees the players of a scored tournament game for their next round and
+   * tells the tournament's followers. Does nothing outside tournaments.
+   */
+  private async closeTournamentGame(
+    roomId: string,
+    tournamentId: string | null,
+  ): Promise<void> {
+    if (!tournamentId) {
+      return;
+    }
+
+    const room = await this.roomService.findById(roomId);
+    for (const player of room?.players ?? []) {
+      await this.removeFromRoom(player.id, roomId);
+    }
+    await this.tournamentGateway.publish(tournamentId);
+  }
+
+  private async removeFromRoom(
+    playerId: string,
+    roomId: string,
+  ): Promise<void> {
+    const channel = roomChannel(roomId);
+    const room = await this.roomService.leave(roomId, playerId);
+
+    this.server.in(playerChannel(playerId)).socketsLeave(channel);
+    this.server.to(playerChannel(playerId)).emit(SocketEvent.ROOM_LEFT, {
+      roomId,
+    });
+    this.server.to(channel).emit(SocketEvent.PLAYER_LEFT, { roomId, playerId });
+
+    if (room) {
+      this.lobbyGateway.roomUpdated(room);
+    } else {
+      this.dismissSpectators(roomId, 'closed');
+      this.lobbyGateway.roomRemoved(roomId);
+    }
+  }
+
+  // The room's players and spectators
+  private toWatchers(roomId: string) {
+    return this.server.to([roomChannel(roomId), spectatorChannel(roomId)]);
+  }
+
+  private async stopSpectating(client: GameSocket): Promise<void> {
+    const roomId = client.data.spectating;
+    if (!roomId) {
+      return;
+    }
+
+    // Already told if the owner dismissed the room's spectators
+    if (isSpectating(client)) {
+      await client.leave(spectatorChannel(roomId));
+      client.emit(SocketEvent.SPECTATING_STOPPED, { roomId, reason: 'left' });
+    }
+    client.data.spectating = undefined;
+
+    const room = await this.roomService.removeSpectator(roomId, client.id);
+    if (room) {
+      this.lobbyGateway.roomUpdated(room);
+    }
+  }
+
+  private dismissSpectators(
+    roomId: string,
+    reason: SpectatingStoppedPayload['reason'],
+  ): void {
+    const channel = spectatorChannel(roomId);
+    this.server
+      .to(channel)
+      .emit(SocketEvent.SPECTATING_STOPPED, { roomId, reason });
+    this.server.in(channel).socketsLeave(channel);
+  }
+
+  /**
+   * Verifies the access token sent as `auth.token` and maps the socket to
+   * its Player. The error's `data` reaches the client in `connect_error`.
+   */
+  private async authenticate(socket: GameSocket): Promise<void> {
+    const token: unknown = socket.handshake.auth?.token;
+
+    try {
+      if (typeof token !== 'string' || !token) {
+        throw new Error('Missing access token');
+      }
+
+      const claims = await this.tokenService.verifyAccessToken(token);
+      const entity = await this.playerService.findById(claims.sub);
+      if (!entity) {
+        throw new Error('Player not found');
+      }
+
+      await this.playerService.setOnline(entity.id, true);
+      socket.data.player = this.playerService.toPlayer(entity);
+      socket.data.player.isOnline = true;
+    } catch (error) {
+      this.logger.warn(
+        `Rejected socket ${socket.id}: ${(error as Error).message}`,
+      );
+      const rejection: ExtendedError = new Error('Unauthorized');
+      rejection.data = {
+        message: 'Authentication failed',
+        code: 'UNAUTHORIZED',
+      } satisfies ErrorPayload;
+      throw rejection;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { GameParticipantEntity } from '../../entities/game-participant.entity';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+import { AnalysisModule } from '../analysis/analysis.module';
+import { AuthModule } from '../auth/auth.module';
+import { BotModule } from '../bot/bot.module';
+import { ChatModule } from '../chat/chat.module';
+import { MatchmakingModule } from '../matchmaking/matchmaking.module';
+import { PlayerModule } from '../player/player.module';
+import { RatingModule } from '../rating/rating.module';
+import { RoomModule } from '../room/room.module';
+import { TournamentModule } from '../tournament/tournament.module';
+import { ChallengeScheduler } from './challenge.scheduler';
+import { DisconnectScheduler } from './disconnect.scheduler';
+import { GameArchiveService } from './game-archive.service';
+import { GameGateway } from './game.gateway';
+import { GameService } from './game.service';
+import { MatchmakingScheduler } from './matchmaking.scheduler';
+import { TournamentScheduler } from './tournament.scheduler';
+import { TurnTimerScheduler } from './turn-timer.scheduler';
+import { TurnTimerService } from './turn-timer.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([GameEntity, GameParticipantEntity, MoveEntity]),
+    AnalysisModule,
+    AuthModule,
+    BotModule,
+    ChatModule,
+    MatchmakingModule,
+    PlayerModule,
+    RatingModule,
+    RoomModule,
+    TournamentModule,
+  ],
+  providers: [
+    GameGateway,
+    GameService,
+    GameArchiveService,
+    TurnTimerService,
+    ChallengeScheduler,
+    TurnTimerScheduler,
+    DisconnectScheduler,
+    MatchmakingScheduler,
+    TournamentScheduler,
+  ],
+  exports: [GameService],
+})
+export class GameModule {}
@@ -0,0 +1,940 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { GAME_CONFIG, GameState, TimeControl } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { makePlayer } from '../../testing/test-players';
+import { GameArchiveService } from './game-archive.service';
+import { GameGateway } from './game.gateway';
+import {
+  GameOptions,
+  GameService,
+  MoveResult,
+  TurnTimeout,
+} from './game.service';
+import { TurnTimerScheduler } from './turn-timer.scheduler';
+import { TurnTimerService } from './turn-timer.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+const GRACE_PERIOD = 60_000;
+const config: Record<string, unknown> = {
+  redis: { host: 'localhost', port: 6379 },
+  'game.reconnectGracePeriod': GRACE_PERIOD,
+};
+
+describe('GameService', () => {
+  let gameService: GameService;
+  let redisService: RedisService;
+  let turnTimer: TurnTimerService;
+  const archive = jest.fn();
+  const alice = makePlayer('alice');
+  const bob = makePlayer('bob');
+
+  // One server instance; every instance shares the same (mock) Redis
+  async function createInstance() {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameService,
+        TurnTimerService,
+        RedisService,
+        { provide: GameArchiveService, useValue: { archive } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    const redis = module.get(RedisService);
+    await redis.onModuleInit();
+    return {
+      gameService: module.get(GameService),
+      redisService: redis,
+      turnTimer: module.get(TurnTimerService),
+    };
+  }
+
+  beforeEach(async () => {
+    archive.mockReset();
+    archive.mockResolvedValue({});
+    // Keep the seating order when symbols are drawn
+    jest.spyOn(Math, 'random').mockReturnValue(0.99);
+
+    ({ gameService, redisService, turnTimer } = await createInstance());
+    await redisService.getClient().flushall();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redisService.onApplicationShutdown();
+  });
+
+  async function startGame(
+    options?: GameOptions,
+    roomId = 'room-1',
+    [first, second] = [alice, bob],
+  ) {
+    const game = await gameService.join(roomId, first, options);
+    await gameService.join(roomId, second, options);
+    await gameService.acceptChallenge(game.id, first.id);
+    return gameService.acceptChallenge(game.id, second.id);
+  }
+
+  it('should open a challenge once two players are seated', async () => {
+    const first = await gameService.join('room-1', alice);
+    expect(first.status).toBe('waiting');
+
+    const second = await gameService.join('room-1', bob);
+    expect(second.id).toBe(first.id);
+    expect(second.status).toBe('challenging');
+    expect(second.players.map((seat) => seat.symbol)).toEqual(['X', 'O']);
+  });
+
+  it('should reject a third player', async () => {
+    await gameService.join('room-1', alice);
+    await gameService.join('room-1', bob);
+    await expect(
+      gameService.join('room-1', makePlayer('carol')),
+    ).rejects.toMatchObject({ code: 'ROOM_FULL' });
+  });
+
+  it('should start the game when both players accept', async () => {
+    const before = Date.now();
+    const game = await startGame();
+    expect(game.status).toBe('in_progress');
+    expect(game.currentTurn).toBe('X');
+    expect(game.startedAt).toBeGreaterThanOrEqual(before);
+    expect(game.turnStartedAt).toBe(game.startedAt);
+  });
+
+  it('should have a bot take on the challenge straight away', async () => {
+    const bot = { ...makePlayer('bot'), isBot: true };
+    const game = await gameService.join('room-1', alice);
+    await gameService.join('room-1', bot);
+
+    const started = await gameService.acceptChallenge(game.id, alice.id);
+    expect(started.status).toBe('in_progress');
+  });
+
+  it('should draw symbols when the game starts', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.1);
+    const game = await startGame();
+    expect(gameService.findSeat(game, bob.id)?.symbol).toBe('X');
+    expect(gameService.findSeat(game, alice.id)?.symbol).toBe('O');
+  });
+
+  describe('challenge deadline', () => {
+    async function openChallenge() {
+      await gameService.join('room-1', alice);
+      return gameService.join('room-1', bob);
+    }
+
+    it('should schedule the deadline when the challenge opens', async () => {
+      const game = await openChallenge();
+      expect(game.challengeDeadline).toBeGreaterThan(Date.now());
+
+      const later = game.challengeDeadline! + 1;
+      expect(await gameService.findExpiredChallenges(later - 2)).toEqual([]);
+      expect(await gameService.findExpiredChallenges(later)).toEqual([game.id]);
+    });
+
+    it('should clear the deadline once both players accept', async () => {
+      const game = await startGame();
+      expect(game.challengeDeadline).toBeNull();
+      expect(
+        await gameService.findExpiredChallenges(
+          Date.now() + GAME_CONFIG.CHALLENGE_TIMEOUT * 2,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should reject accepting after the deadline', async () => {
+      const game = await openChallenge();
+      jest.spyOn(Date, 'now').mockReturnValue(game.challengeDeadline! + 1);
+
+      await expect(
+        gameService.acceptChallenge(game.id, alice.id),
+      ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('should unseat the player who did not accept', async () => {
+      const game = await openChallenge();
+      await gameService.acceptChallenge(game.id, bob.id);
+
+      const expiry = await gameService.expireChallenge(
+        game.id,
+        game.challengeDeadline!,
+      );
+      expect(expiry?.declinedBy.map((player) => player.id)).toEqual(['alice']);
+      expect(expiry?.removed.map((player) => player.id)).toEqual(['alice']);
+
+      const reopened = await gameService.getOrThrow(game.id);
+      expect(reopened.status).toBe('waiting');
+      expect(reopened.challengeDeadline).toBeNull();
+      expect(reopened.players).toMatchObject([
+        { player: { id: 'bob' }, symbol: 'X', hasAcceptedChallenge: false },
+      ]);
+    });
+
+    it('should keep the first seat when nobody accepts', async () => {
+      const game = await openChallenge();
+
+      const expiry = await gameService.expireChallenge(
+        game.id,
+        game.challengeDeadline!,
+      );
+      expect(expiry?.declinedBy).toHaveLength(2);
+      expect(expiry?.removed.map((player) => player.id)).toEqual(['bob']);
+    });
+
+    it('should expire the challenge again when reopening fails', async () => {
+      const game = await openChallenge();
+      jest
+        .spyOn(redisService, 'set')
+        .mockRejectedValueOnce(new Error('Redis is unavailable'));
+
+      await expect(
+        gameService.expireChallenge(game.id, game.challengeDeadline!),
+      ).rejects.toThrow();
+      const later = game.challengeDeadline! + 1;
+      expect(await gameService.findExpiredChallenges(later)).toEqual([game.id]);
+
+      expect(
+        await gameService.expireChallenge(game.id, game.challengeDeadline!),
+      ).not.toBeNull();
+      expect((await gameService.getOrThrow(game.id)).status).toBe('waiting');
+      expect(await gameService.findExpiredChallenges(later)).toEqual([]);
+    });
+
+    it('should not expire a challenge opened after the sweep', async () => {
+      const game = await openChallenge();
+      const deadline = game.challengeDeadline!;
+      expect(await gameService.findExpiredChallenges(deadline)).toEqual([
+        game.id,
+      ]);
+
+      // Expired by another process and challenged again before this sweep
+      // takes the lock
+      expect(
+        await gameService.expireChallenge(game.id, deadline),
+      ).not.toBeNull();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(deadline - 1);
+      await gameService.join('room-1', bob);
+      clock.mockRestore();
+
+      expect(await gameService.expireChallenge(game.id, deadline)).toBeNull();
+      expect((await gameService.getOrThrow(game.id)).status).toBe(
+        'challenging',
+      );
+    });
+
+    it('should expire a challenge only once', async () => {
+      const game = await openChallenge();
+      expect(
+        await gameService.expireChallenge(game.id, game.challengeDeadline!),
+      ).not.toBeNull();
+      expect(
+        await gameService.expireChallenge(game.id, game.challengeDeadline!),
+      ).toBeNull();
+    });
+  });
+
+  describe('turn timer', () => {
+    it('should start the clock when the game starts', async () => {
+      const game = await startGame();
+      const deadline = await turnTimer.getDeadline(game.id);
+      expect(deadline).toBeGreaterThan(Date.now());
+      expect(deadline).toBeLessThanOrEqual(
+        Date.now() + GAME_CONFIG.TURN_TIMEOUT,
+      );
+    });
+
+    it('should restart the clock after each move', async () => {
+      const game = await startGame();
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 10_000);
+
+      await gameService.makeMove(game.id, alice.id, { row: 0, col: 0 });
+      expect(await turnTimer.getDeadline(game.id)).toBe(
+        now + 10_000 + GAME_CONFIG.TURN_TIMEOUT,
+      );
+    });
+
+    it('should reject moves after the deadline', async () => {
+      const game = await startGame();
+      const deadline = (await turnTimer.getDeadline(game.id))!;
+      jest.spyOn(Date, 'now').mockReturnValue(deadline + 1);
+
+      await expect(
+        gameService.makeMove(game.id, alice.id, { row: 0, col: 0 }),
+      ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('should forfeit the game of the player who ran out of time', async () => {
+      const game = await startGame();
+      const deadline = (await turnTimer.getDeadline(game.id))!;
+      expect(await turnTimer.findExpired(deadline)).toEqual([game.id]);
+
+      const timeout = await gameService.timeoutTurn(game.id, deadline);
+      expect(timeout?.player).toBe('X');
+      expect(timeout?.gameOver).toMatchObject({
+        reason: 'timeout',
+        winner: { player: { id: 'bob' } },
+      });
+      expect(archive).toHaveBeenCalledWith(
+        expect.objectContaining({ id: game.id, status: 'completed' }),
+        'timeout',
+      );
+      expect(await turnTimer.findActive()).toEqual([]);
+      expect(await gameService.timeoutTurn(game.id, deadline)).toBeNull();
+    });
+
+    it('should not forfeit a game a move reached before the sweep did', async () => {
+      const game = await startGame();
+      const deadline = (await turnTimer.getDeadline(game.id))!;
+      expect(await turnTimer.findExpired(deadline)).toEqual([game.id]);
+
+      // The move lands between reading the deadlines and taking the lock
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(deadline - 1);
+      await gameService.makeMove(game.id, alice.id, { row: 0, col: 0 });
+      clock.mockRestore();
+
+      expect(await gameService.timeoutTurn(game.id, deadline)).toBeNull();
+      const running = await gameService.getOrThrow(game.id);
+      expect(running.status).toBe('in_progress');
+      expect(running.currentTurn).toBe('O');
+      expect(archive).not.toHaveBeenCalled();
+    });
+
+    it('should not forfeit a player whose clock has time left', async () => {
+      const game = await startGame();
+      const deadline = (await turnTimer.getDeadline(game.id))!;
+      // A deadline out of step with the clock, as if set by another instance
+      await turnTimer.start(game.id, 0, deadline - GAME_CONFIG.TURN_TIMEOUT);
+
+      expect(
+        await gameService.timeoutTurn(game.id, deadline - 1000),
+      ).toBeNull();
+      expect((await gameService.getOrThrow(game.id)).status).toBe(
+        'in_progress',
+      );
+    });
+
+    it('should time a game out on a later sweep when archiving fails', async () => {
+      const notifyTurnTimeout = jest.fn();
+      const scheduler = new TurnTimerScheduler(
+        turnTimer,
+        gameService,
+        { notifyTurnTimeout } as unknown as GameGateway,
+        { get: () => undefined } as unknown as ConfigService,
+        { isLeader: () => true } as unknown as SchedulerLeaseService,
+      );
+      const failing = await startGame();
+      const other = await startGame(undefined, 'room-2', [
+        makePlayer('carol'),
+        makePlayer('dave'),
+      ]);
+      archive.mockImplementation((game: GameState) =>
+        game.id === failing.id
+          ? Promise.reject(new Error('Postgres is unavailable'))
+          : Promise.resolve({}),
+      );
+      const later = Date.now() + GAME_CONFIG.TURN_TIMEOUT;
+
+      await scheduler.sweep(later);
+
+      // The other game is not held up by the failing one
+      expect(notifyTurnTimeout).toHaveBeenCalledTimes(1);
+      expect(
+        (notifyTurnTimeout.mock.calls as [TurnTimeout][]).map(
+          ([timeout]) => timeout.game.id,
+        ),
+      ).toEqual([other.id]);
+      expect((await gameService.getOrThrow(failing.id)).status).toBe(
+        'in_progress',
+      );
+      expect(await turnTimer.findExpired(later)).toEqual([failing.id]);
+
+      archive.mockResolvedValue({});
+      await scheduler.sweep(later);
+
+      expect(notifyTurnTimeout).toHaveBeenCalledTimes(2);
+      expect((await gameService.getOrThrow(failing.id)).status).toBe(
+        'completed',
+      );
+      expect(await turnTimer.findActive()).toEqual([]);
+    });
+
+    it('should stop the clock when the game ends', async () => {
+      const game = await startGame();
+      await gameService.surrender(game.id, alice.id);
+      expect(await turnTimer.getDeadline(game.id)).toBeNull();
+    });
+  });
+
+  describe('time controls', () => {
+    const rapid: TimeControl = {
+      initial: 60_000,
+      increment: 2_000,
+      byoyomiPeriods: 2,
+      byoyomiTime: 10_000,
+    };
+
+    it('should charge the mover and add the increment', async () => {
+      const game = await startGame({ timeControl: rapid });
+      const now = game.turnStartedAt!;
+      jest.spyOn(Date, 'now').mockReturnValue(now + 15_000);
+
+      const { move, game: after } = await gameService.makeMove(
+        game.id,
+        alice.id,
+        { row: 0, col: 0 },
+      );
+      expect(move.timeRemaining).toBe(45_000);
+      expect(after.clocks.X).toEqual({
+        remaining: 47_000,
+        periods: 2,
+        inByoyomi: false,
+      });
+      // Bob's main time and both periods
+      expect(await turnTimer.getDeadline(game.id)).toBe(
+        now + 15_000 + 60_000 + 20_000,
+      );
+    });
+
+    it('should move into byo-yomi once main time runs out', async () => {
+      const game = await startGame({ timeControl: rapid });
+      const now = game.turnStartedAt!;
+      jest.spyOn(Date, 'now').mockReturnValue(now + 65_000);
+
+      const { game: after } = await gameService.makeMove(game.id, alice.id, {
+        row: 0,
+        col: 0,
+      });
+      // Alice used five seconds of her first period, which starts over
+      expect(after.clocks.X).toEqual({
+        remaining: 10_000,
+        periods: 2,
+        inByoyomi: true,
+      });
+    });
+
+    it('should use up a period that runs out', async () => {
+      const game = await startGame({ timeControl: rapid });
+      const now = game.turnStartedAt!;
+      jest.spyOn(Date, 'now').mockReturnValue(now + 75_000);
+
+      const { game: after } = await gameService.makeMove(game.id, alice.id, {
+        row: 0,
+        col: 0,
+      });
+      expect(after.clocks.X).toEqual({
+        remaining: 10_000,
+        periods: 1,
+        inByoyomi: true,
+      });
+    });
+
+    it('should freeze the clocks when the game ends', async () => {
+      const game = await startGame({ timeControl: rapid });
+      const now = game.turnStartedAt!;
+      jest.spyOn(Date, 'now').mockReturnValue(now + 20_000);
+
+      const { game: ended } = await gameService.surrender(game.id, bob.id);
+      expect(ended.turnStartedAt).toBeNull();
+      expect(ended.clocks.X.remaining).toBe(40_000);
+      expect(ended.clocks.O.remaining).toBe(60_000);
+    });
+  });
+
+  describe('move sequencing', () => {
+    it('should number each move with the state version', async () => {
+      const game = await startGame();
+
+      const first = await gameService.makeMove(
+        game.id,
+        alice.id,
+        { row: 0, col: 0 },
+        { moveNumber: 1, moveId: 'a1' },
+      );
+      const second = await gameService.makeMove(
+        game.id,
+        bob.id,
+        { row: 1, col: 1 },
+        { moveNumber: 2, moveId: 'b1' },
+      );
+
+      expect(first.moveMade).toMatchObject({ version: 1, nextTurn: 'O' });
+      expect(second.moveMade).toMatchObject({ version: 2, nextTurn: 'X' });
+    });
+
+    it('should reject a move numbered out of sequence', async () => {
+      const game = await startGame();
+
+      await expect(
+        gameService.makeMove(
+          game.id,
+          alice.id,
+          { row: 0, col: 0 },
+          { moveNumber: 2, moveId: 'a1' },
+        ),
+      ).rejects.toMatchObject({
+        code: 'OUT_OF_SEQUENCE',
+        details: { expected: 1 },
+      });
+      expect((await gameService.getOrThrow(game.id)).moveHistory).toEqual([]);
+    });
+
+    it('should answer a retried move with its first result', async () => {
+      const game = await startGame();
+      const sequence = { moveNumber: 1, moveId: 'a1' };
+      const first = await gameService.makeMove(
+        game.id,
+        alice.id,
+        { row: 0, col: 0 },
+        sequence,
+      );
+      // The opponent has replied by the time the retry arrives
+      await gameService.makeMove(game.id, bob.id, { row: 1, col: 1 });
+
+      const retry = await gameService.makeMove(
+        game.id,
+        alice.id,
+        { row: 0, col: 0 },
+        sequence,
+      );
+
+      expect(retry.duplicate).toBe(true);
+      expect(retry.moveMade).toEqual(first.moveMade);
+      expect(retry.gameOver).toBeNull();
+      expect(retry.game.moveHistory).toHaveLength(2);
+    });
+
+    it('should answer a retried rejected move with the same rejection', async () => {
+      const game = await startGame();
+      const sequence = { moveNumber: 1, moveId: 'b1' };
+      const first = await gameService.makeMove(
+        game.id,
+        bob.id,
+        { row: 0, col: 0 },
+        sequence,
+      );
+
+      const retry = await gameService.makeMove(
+        game.id,
+        bob.id,
+        { row: 0, col: 0 },
+        sequence,
+      );
+
+      expect(first.validation.isValid).toBe(false);
+      expect(retry).toMatchObject({
+        duplicate: true,
+        moveMade: null,
+        validation: first.validation,
+      });
+    });
+
+    it('should keep move IDs apart per player', async () => {
+      const game = await startGame();
+      await gameService.makeMove(
+        game.id,
+        alice.id,
+        { row: 0, col: 0 },
+        { moveNumber: 1, moveId: 'same' },
+      );
+
+      const reply = await gameService.makeMove(
+        game.id,
+        bob.id,
+        { row: 1, col: 1 },
+        { moveNumber: 2, moveId: 'same' },
+      );
+
+      expect(reply.duplicate).toBe(false);
+      expect(reply.moveMade?.version).toBe(2);
+    });
+  });
+
+  describe('across server instances', () => {
+    let other: GameService;
+    let otherRedis: RedisService;
+
+    beforeEach(async () => {
+      ({ gameService: other, redisService: otherRedis } =
+        await createInstance());
+    });
+
+    afterEach(async () => {
+      await otherRedis.onApplicationShutdown();
+    });
+
+    function stones(game: GameState): number {
+      return game.board.flat().filter((cell) => cell !== null).length;
+    }
+
+    it('should accept only one of two moves raced on two instances', async () => {
+      const game = await startGame();
+
+      const results = await Promise.all([
+        gameService.makeMove(game.id, alice.id, { row: 0, col: 0 }),
+        other.makeMove(game.id, alice.id, { row: 5, col: 5 }),
+      ]);
+      expect(
+        results.filter((result) => result.validation.isValid),
+      ).toHaveLength(1);
+
+      const latest = await other.getOrThrow(game.id);
+      expect(latest.moveHistory).toHaveLength(1);
+      expect(stones(latest)).toBe(1);
+      expect(latest.currentTurn).toBe('O');
+    });
+
+    it('should keep the game consistent when every move is sent to both', async () => {
+      const game = await startGame();
+      const players = [alice, bob];
+
+      for (let turn = 0; turn < 8; turn++) {
+        const player = players[turn % 2];
+        const position = { row: turn, col: turn % 2 === 0 ? 0 : 9 };
+        const results = await Promise.all([
+          gameService.makeMove(game.id, player.id, position),
+          other.makeMove(game.id, player.id, position),
+        ]);
+        expect(
+          results.filter((result) => result.validation.isValid),
+        ).toHaveLength(1);
+      }
+
+      const latest = await gameService.getOrThrow(game.id);
+      expect(latest.moveHistory.map((move) => move.player)).toEqual([
+        'X',
+        'O',
+        'X',
+        'O',
+        'X',
+        'O',
+        'X',
+        'O',
+      ]);
+      expect(stones(latest)).toBe(8);
+      expect(await turnTimer.findActive()).toEqual([game.id]);
+    });
+
+    it('should apply a move retried on another instance once', async () => {
+      const game = await startGame();
+      const sequence = { moveNumber: 1, moveId: 'a1' };
+
+      const results = await Promise.all([
+        gameService.makeMove(game.id, alice.id, { row: 0, col: 0 }, sequence),
+        other.makeMove(game.id, alice.id, { row: 0, col: 0 }, sequence),
+      ]);
+
+      expect(results.map((result) => result.duplicate).sort()).toEqual([
+        false,
+        true,
+      ]);
+      expect(results[0].moveMade).toEqual(results[1].moveMade);
+      expect((await other.getOrThrow(game.id)).moveHistory).toHaveLength(1);
+    });
+
+    it('should give the last seat to only one of two players', async () => {
+      await gameService.join('room-1', alice);
+
+      const results = await Promise.allSettled([
+        gameService.join('room-1', bob),
+        other.join('room-1', makePlayer('carol')),
+      ]);
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect((await other.findByRoom('room-1'))?.players).toHaveLength(2);
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should hold the seat of a disconnected player', async () => {
+      const game = await startGame();
+      const held = await gameService.markDisconnected(game.id, bob.id);
+
+      expect(held?.reconnectDeadline).toBeGreaterThanOrEqual(
+        Date.now() + GRACE_PERIOD - 1000,
+      );
+      expect(
+        gameService.findSeat(await gameService.getOrThrow(game.id), bob.id)
+          ?.isConnected,
+      ).toBe(false);
+    });
+
+    it('should not hold seats outside a game in progress', async () => {
+      const game = await gameService.join('room-1', alice);
+      expect(await gameService.markDisconnected(game.id, alice.id)).toBeNull();
+    });
+
+    it('should give the seat back on reconnection', async () => {
+      const game = await startGame();
+      await gameService.markDisconnected(game.id, bob.id);
+
+      const resumed = await gameService.markReconnected(game.id, bob.id);
+      expect(gameService.findSeat(resumed!, bob.id)?.isConnected).toBe(true);
+      expect(
+        await gameService.findExpiredDisconnections(Date.now() + GRACE_PERIOD),
+      ).toEqual([]);
+      expect(await gameService.markReconnected(game.id, bob.id)).toBeNull();
+    });
+
+    it('should send a snapshot with the time left on the clock', async () => {
+      const game = await startGame();
+      const deadline = (await turnTimer.getDeadline(game.id))!;
+      jest.spyOn(Date, 'now').mockReturnValue(deadline - 12_000);
+
+      const snapshot = await gameService.getSnapshot(game.id);
+      expect(snapshot.clocks.X.remaining).toBe(12_000);
+      expect(snapshot.turnStartedAt).toBe(deadline - 12_000);
+    });
+
+    it('should abandon the game when the grace period ends', async () => {
+      const game = await startGame();
+      const { reconnectDeadline } = (await gameService.markDisconnected(
+        game.id,
+        bob.id,
+      ))!;
+
+      expect(
+        await gameService.findExpiredDisconnections(reconnectDeadline),
+      ).toEqual([{ gameId: game.id, playerId: bob.id }]);
+
+      const result = await gameService.abandon(
+        game.id,
+        bob.id,
+        reconnectDeadline,
+      );
+      expect(result?.game.status).toBe('abandoned');
+      expect(result?.gameOver).toMatchObject({
+        reason: 'abandoned',
+        result: 'win',
+        winner: { player: { id: 'alice' } },
+      });
+      expect(
+        await gameService.abandon(game.id, bob.id, reconnectDeadline),
+      ).toBeNull();
+    });
+
+    it('should abandon the game again when archiving fails', async () => {
+      const game = await startGame();
+      const { reconnectDeadline } = (await gameService.markDisconnected(
+        game.id,
+        bob.id,
+      ))!;
+      archive.mockRejectedValueOnce(new Error('Postgres is unavailable'));
+
+      await expect(
+        gameService.abandon(game.id, bob.id, reconnectDeadline),
+      ).rejects.toThrow();
+      expect(
+        await gameService.findExpiredDisconnections(reconnectDeadline),
+      ).toEqual([{ gameId: game.id, playerId: bob.id }]);
+
+      const result = await gameService.abandon(
+        game.id,
+        bob.id,
+        reconnectDeadline,
+      );
+      expect(result?.game.status).toBe('abandoned');
+      expect(
+        await gameService.findExpiredDisconnections(reconnectDeadline),
+      ).toEqual([]);
+    });
+
+    it('should wait out the grace period of a player who dropped again', async () => {
+      const game = await startGame();
+      const first = (await gameService.markDisconnected(game.id, bob.id))!;
+      expect(
+        await gameService.findExpiredDisconnections(first.reconnectDeadline),
+      ).toEqual([{ gameId: game.id, playerId: bob.id }]);
+
+      // Back and gone again between reading the deadlines and taking the lock
+      await gameService.markReconnected(game.id, bob.id);
+      const clock = jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(first.reconnectDeadline - 1);
+      const second = (await gameService.markDisconnected(game.id, bob.id))!;
+      clock.mockRestore();
+
+      expect(
+        await gameService.abandon(game.id, bob.id, first.reconnectDeadline),
+      ).toBeNull();
+      expect((await gameService.getOrThrow(game.id)).status).toBe(
+        'in_progress',
+      );
+      expect(
+        await gameService.findExpiredDisconnections(second.reconnectDeadline),
+      ).toEqual([{ gameId: game.id, playerId: bob.id }]);
+    });
+
+    it('should draw a game both players abandoned', async () => {
+      const game = await startGame();
+      await gameService.markDisconnected(game.id, alice.id);
+      const { reconnectDeadline } = (await gameService.markDisconnected(
+        game.id,
+        bob.id,
+      ))!;
+
+      const result = await gameService.abandon(
+        game.id,
+        bob.id,
+        reconnectDeadline,
+      );
+      expect(result?.gameOver.result).toBe('draw');
+      expect(
+        await gameService.findExpiredDisconnections(Date.now() + GRACE_PERIOD),
+      ).toEqual([]);
+    });
+  });
+
+  it('should reject moves out of turn without changing the game', async () => {
+    const game = await startGame();
+    const result = await gameService.makeMove(game.id, bob.id, {
+      row: 0,
+      col: 0,
+    });
+    expect(result.validation.code).toBe('NOT_YOUR_TURN');
+    expect((await gameService.getOrThrow(game.id)).moveHistory).toHaveLength(0);
+  });
+
+  it('should end the game on five in a row', async () => {
+    const game = await startGame();
+    let result: MoveResult | undefined;
+    for (let col = 0; col < 5; col++) {
+      result = await gameService.makeMove(game.id, alice.id, { row: 0, col });
+      if (col < 4) {
+        await gameService.makeMove(game.id, bob.id, { row: 5, col });
+      }
+    }
+
+    expect(result?.gameOver).toMatchObject({
+      gameId: game.id,
+      result: 'win',
+      reason: 'five-in-a-row',
+      winner: { symbol: 'X' },
+    });
+    expect(archive).toHaveBeenCalledWith(
+      expect.objectContaining({ id: game.id, status: 'completed' }),
+      'five-in-a-row',
+    );
+    expect((await gameService.getOrThrow(game.id)).status).toBe('completed');
+  });
+
+  it('should only accept a draw offered by the opponent', async () => {
+    const game = await startGame();
+    await gameService.proposeDraw(game.id, alice.id);
+
+    await expect(
+      gameService.acceptDraw(game.id, alice.id),
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+
+    const { gameOver } = await gameService.acceptDraw(game.id, bob.id);
+    expect(gameOver.result).toBe('draw');
+    expect(gameOver.reason).toBe('draw-agreed');
+  });
+
+  it('should award the game to the opponent on surrender', async () => {
+    const game = await startGame();
+    const { gameOver } = await gameService.surrender(game.id, bob.id);
+    expect(gameOver.winner?.player.id).toBe(alice.id);
+    expect(gameOver.reason).toBe('surrender');
+  });
+
+  describe('draw offers', () => {
+    it('should keep the offer pending until it is answered', async () => {
+      const game = await startGame();
+      await gameService.proposeDraw(game.id, alice.id);
+
+      // The proposer moving on does not withdraw the offer
+      await gameService.makeMove(game.id, alice.id, { row: 0, col: 0 });
+      expect((await gameService.getOrThrow(game.id)).drawOfferedBy).toBe(
+        alice.id,
+      );
+
+      await gameService.rejectDraw(game.id, bob.id);
+      expect((await gameService.getOrThrow(game.id)).drawOfferedBy).toBeNull();
+    });
+
+    it('should decline the offer when the opponent moves', async () => {
+      const game = await startGame();
+      await gameService.proposeDraw(game.id, alice.id);
+      await gameService.makeMove(game.id, alice.id, { row: 0, col: 0 });
+
+      const result = await gameService.makeMove(game.id, bob.id, {
+        row: 1,
+        col: 1,
+      });
+      expect(result.drawDeclined).toBe(true);
+      expect(result.game.drawOfferedBy).toBeNull();
+      await expect(
+        gameService.acceptDraw(game.id, bob.id),
+      ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('should allow one pending offer at a time', async () => {
+      const game = await startGame();
+      await gameService.proposeDraw(game.id, alice.id);
+
+      await expect(
+        gameService.proposeDraw(game.id, alice.id),
+      ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+      await expect(
+        gameService.proposeDraw(game.id, bob.id),
+      ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('should limit the number of offers per player', async () => {
+      const game = await startGame();
+      for (let i = 0; i < GAME_CONFIG.MAX_DRAW_OFFERS; i++) {
+        const updated = await gameService.proposeDraw(game.id, alice.id);
+        expect(
+          gameService.findSeat(updated, alice.id)?.drawOffersRemaining,
+        ).toBe(GAME_CONFIG.MAX_DRAW_OFFERS - i - 1);
+        await gameService.rejectDraw(game.id, bob.id);
+      }
+
+      await expect(gameService.proposeDraw(game.id, alice.id)).rejects.toThrow(
+        'No draw offers left',
+      );
+      await expect(
+        gameService.proposeDraw(game.id, bob.id),
+      ).resolves.toBeDefined();
+    });
+
+    it('should report Elo changes for both players', async () => {
+      const eloChanges = {
+        alice: { previous: 1200, new: 1196, change: -4 },
+        bob: { previous: 1000, new: 1004, change: 4 },
+      };
+      archive.mockResolvedValue(eloChanges);
+      const game = await startGame();
+      await gameService.proposeDraw(game.id, bob.id);
+
+      const { game: finished, gameOver } = await gameService.acceptDraw(
+        game.id,
+        alice.id,
+      );
+      expect(archive).toHaveBeenCalledWith(
+        expect.objectContaining({ id: game.id, winner: null }),
+        'draw-agreed',
+      );
+      expect(gameOver.eloChanges).toEqual(eloChanges);
+      expect(gameOver.winner).toBeNull();
+      expect(gameService.findSeat(finished, alice.id)?.player.elo).toBe(1196);
+    });
+  });
+
+  it('should reject actions from players outside the game', async () => {
+    const game = await startGame();
+    await expect(gameService.surrender(game.id, 'carol')).rejects.toMatchObject(
+      { code: 'NOT_IN_GAME' },
+    );
+  });
+});
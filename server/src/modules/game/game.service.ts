@@ -0,0 +1,900 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import {
+  completeMove,
+  currentClocks,
+  isFlagged,
+  runClock,
+  startingClock,
+  timeUntilFlag,
+} from '@shared/types/game.clock';
+import {
+  createBoardFromGeometry,
+  getOpponent,
+  playMove,
+  toGameBoard,
+} from '@shared/types/game.engine';
+import { DEFAULT_RULE_VARIANT } from '@shared/types/game.rules';
+import {
+  BoardGeometry,
+  DEFAULT_BOARD_GEOMETRY,
+  DEFAULT_TIME_CONTROL,
+  GAME_CONFIG,
+  GameEndReason,
+  GameOverPayload,
+  GamePlayer,
+  GameState,
+  MakeMovePayload,
+  Move,
+  MoveMadePayload,
+  MoveValidation,
+  Player,
+  PlayerSymbol,
+  Position,
+  RuleVariant,
+  TimeControl,
+  WinningLine,
+} from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { RedisService } from '../../common/services/redis.service';
+import { GameArchiveService } from './game-archive.service';
+import { TurnTimerService } from './turn-timer.service';
+
+const GAME_TTL_SECONDS = 24 * 60 * 60;
+// Sorted set of challenging games scored by their deadline, so pending
+// deadlines outlive the process that opened them
+const CHALLENGE_DEADLINES_KEY = 'games:challenge-deadlines';
+// Sorted set of `gameId:playerId` scored by the end of the grace period
+const DISCONNECT_DEADLINES_KEY = 'games:disconnect-deadlines';
+const DEFAULT_RECONNECT_GRACE_PERIOD = 60_000;
+
+export interface GameOptions {
+  ruleset?: RuleVariant;
+  geometry?: BoardGeometry;
+  timeControl?: TimeControl;
+}
+
+// Sent by players so that a retried move is neither applied twice nor late
+export type MoveSequence = Pick<MakeMovePayload, 'moveNumber' | 'moveId'>;
+
+export interface MoveResult {
+  game: GameState;
+  move: Move;
+  validation: MoveValidation;
+  // What to broadcast; null if the move was rejected
+  moveMade: MoveMadePayload | null;
+  gameOver: GameOverPayload | null;
+  // The mover played on instead of answering the opponent's draw offer
+  drawDeclined: boolean;
+  // A retry of a move already handled: nothing changed, and the result is
+  // the one the first attempt got
+  duplicate: boolean;
+}
+
+// What a move came to, kept so a retry with the same move ID gets it again
+interface MoveReceipt {
+  move: Move;
+  validation: MoveValidation;
+  moveMade: MoveMadePayload | null;
+}
+
+export interface GameEnd {
+  game: GameState;
+  gameOver: GameOverPayload;
+}
+
+export interface TurnTimeout extends GameEnd {
+  // Symbol of the player whose clock ran out
+  player: PlayerSymbol;
+}
+
+export interface Disconnection {
+  gameId: string;
+  playerId: string;
+}
+
+export interface ChallengeExpiry {
+  game: GameState;
+  declinedBy: Player[];
+  // Players who lost their seat; everyone who declined, except that the
+  // first seat is kept when nobody accepted so the room stays open
+  removed: Player[];
+}
+
+export interface LeaveResult {
+  game: GameState | null;
+  gameOver: GameOverPayload | null;
+}
+
+@Injectable()
+export class GameService {
+  private readonly logger = new Logger(GameService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly gameArchive: GameArchiveService,
+    private readonly turnTimer: TurnTimerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async findById(gameId: string): Promise<GameState | null> {
+    const raw = await this.redisService.get(this.gameKey(gameId));
+    return raw ? this.deserialize(raw) : null;
+  }
+
+  async getOrThrow(gameId: string): Promise<GameState> {
+    return this.requireGame(await this.findById(gameId));
+  }
+
+  async findByRoom(roomId: string): Promise<GameState | null> {
+    const gameId = await this.redisService.get(this.roomGameKey(roomId));
+    return gameId ? this.findById(gameId) : null;
+  }
+
+  /**
+   * Full game state for resynchronising a client, with the running clock
+   * brought up to now.
+   */
+  async getSnapshot(gameId: string, now = Date.now()): Promise<GameState> {
+    const game = await this.getOrThrow(gameId);
+    if (game.turnStartedAt !== null) {
+      game.clocks = currentClocks(game, now);
+      game.turnStartedAt = now;
+    }
+    return game;
+  }
+
+  /**
+   * Seats a player in the room's game, creating a new game for the first
+   * player or once the previous game has finished. Seating the second
+   * player opens the challenge.
+   */
+  async join(
+    roomId: string,
+    player: Player,
+    options: GameOptions = {},
+  ): Promise<GameState> {
+    return this.withRoomLock(roomId, () =>
+      this.seatPlayer(roomId, player, options),
+    );
+  }
+
+  /**
+   * Removes a player from the room's game. Leaving a game in progress
+   * forfeits it.
+   */
+  async leave(roomId: string, playerId: string): Promise<LeaveResult> {
+    return this.withRoomLock(roomId, () => this.unseatPlayer(roomId, playerId));
+  }
+
+  async acceptChallenge(gameId: string, playerId: string): Promise<GameState> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = this.requireGame(found);
+      const seat = this.requireSeat(game, playerId);
+
+      if (game.status !== 'challenging') {
+        throw new GameException('INVALID_STATE', 'No challenge to accept');
+      }
+      if (
+        game.challengeDeadline !== null &&
+        Date.now() > game.challengeDeadline
+      ) {
+        throw new GameException('INVALID_STATE', 'Challenge has expired');
+      }
+
+      seat.hasAcceptedChallenge = true;
+      if (game.players.every((p) => p.hasAcceptedChallenge)) {
+        this.drawSymbols(game);
+        game.status = 'in_progress';
+        game.currentTurn = 'X';
+        game.challengeDeadline = null;
+        game.startedAt = Date.now();
+        await this.redisService.zrem(CHALLENGE_DEADLINES_KEY, game.id);
+        await this.startClock(game, game.startedAt);
+      }
+
+      await this.save(game);
+      return game;
+    });
+  }
+
+  /**
+   * Ids of challenging games whose deadline has passed, including those
+   * opened before a restart.
+   */
+  async findExpiredChallenges(now = Date.now()): Promise<string[]> {
+    return this.redisService.zrangebyscore(CHALLENGE_DEADLINES_KEY, 0, now);
+  }
+
+  /**
+   * Sends an unanswered challenge back to 'waiting'. Returns null when the
+   * challenge was already resolved, a new one was opened since the sweep
+   * read the deadline, or another process handled it first.
+   */
+  async expireChallenge(
+    gameId: string,
+    now = Date.now(),
+  ): Promise<ChallengeExpiry | null> {
+    return this.withGameLock(gameId, async (game) => {
+      const deadline = await this.redisService.zscore(
+        CHALLENGE_DEADLINES_KEY,
+        gameId,
+      );
+      if (deadline === null || deadline > now) {
+        return null;
+      }
+      if (!game || game.status !== 'challenging') {
+        // Left behind by a challenge that was resolved
+        await this.redisService.zrem(CHALLENGE_DEADLINES_KEY, gameId);
+        return null;
+      }
+
+      const declined = game.players.filter(
+        (seat) => !seat.hasAcceptedChallenge,
+      );
+      const removed =
+        declined.length === game.players.length ? declined.slice(1) : declined;
+
+      game.players = game.players.filter((seat) => !removed.includes(seat));
+      await this.reopen(game);
+      this.logger.log(`Challenge in game ${game.id} expired`);
+
+      return {
+        game,
+        declinedBy: declined.map((seat) => seat.player),
+        removed: removed.map((seat) => seat.player),
+      };
+    });
+  }
+
+  /**
+   * Plays a move. With a `sequence`, a move whose ID was seen before gets
+   * the result of its first attempt back, and one numbered for a different
+   * position of the game is rejected with OUT_OF_SEQUENCE.
+   */
+  async makeMove(
+    gameId: string,
+    playerId: string,
+    position: Position,
+    sequence?: MoveSequence,
+  ): Promise<MoveResult> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = this.requireGame(found);
+      const seat = this.requireSeat(game, playerId);
+
+      const receiptKey = sequence
+        ? this.moveReceiptKey(game.id, playerId, sequence.moveId)
+        : null;
+      const receipt = receiptKey
+        ? await this.redisService.get(receiptKey)
+        : null;
+      if (receipt) {
+        return {
+          ...(JSON.parse(receipt) as MoveReceipt),
+          game,
+          gameOver: null,
+          drawDeclined: false,
+          duplicate: true,
+        };
+      }
+
+      const expected = game.moveHistory.length + 1;
+      if (sequence && sequence.moveNumber !== expected) {
+        throw new GameException(
+          'OUT_OF_SEQUENCE',
+          `Expected move ${expected}, not ${sequence.moveNumber}`,
+          { expected },
+        );
+      }
+
+      const result = await this.applyMove(game, seat, position);
+      if (receiptKey) {
+        const { move, validation, moveMade } = result;
+        await this.redisService.set(
+          receiptKey,
+          JSON.stringify({ move, validation, moveMade } satisfies MoveReceipt),
+          GAME_TTL_SECONDS,
+        );
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Offers a draw. The offer stays pending until the opponent accepts,
+   * rejects or makes a move, and each player has GAME_CONFIG.MAX_DRAW_OFFERS
+   * offers per game.
+   */
+  async proposeDraw(gameId: string, playerId: string): Promise<GameState> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = this.requireInProgress(found);
+      const seat = this.requireSeat(game, playerId);
+
+      if (game.drawOfferedBy === playerId) {
+        throw new GameException('INVALID_STATE', 'Your draw offer is pending');
+      }
+      if (game.drawOfferedBy) {
+        throw new GameException(
+          'INVALID_STATE',
+          'Your opponent has already offered a draw',
+        );
+      }
+      if (seat.drawOffersRemaining <= 0) {
+        throw new GameException('INVALID_STATE', 'No draw offers left', {
+          limit: GAME_CONFIG.MAX_DRAW_OFFERS,
+        });
+      }
+
+      seat.drawOffersRemaining -= 1;
+      game.drawOfferedBy = playerId;
+      await this.save(game);
+      return game;
+    });
+  }
+
+  async acceptDraw(gameId: string, playerId: string): Promise<GameEnd> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = this.requireInProgress(found);
+      this.requireSeat(game, playerId);
+
+      if (!game.drawOfferedBy || game.drawOfferedBy === playerId) {
+        throw new GameException('INVALID_STATE', 'No draw offer to accept');
+      }
+
+      return { game, gameOver: await this.finish(game, null, 'draw-agreed') };
+    });
+  }
+
+  async rejectDraw(gameId: string, playerId: string): Promise<GameState> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = this.requireInProgress(found);
+      this.requireSeat(game, playerId);
+
+      if (!game.drawOfferedBy || game.drawOfferedBy === playerId) {
+        throw new GameException('INVALID_STATE', 'No draw offer to reject');
+      }
+
+      game.drawOfferedBy = null;
+      await this.save(game);
+      return game;
+    });
+  }
+
+  async surrender(gameId: string, playerId: string): Promise<GameEnd> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = this.requireInProgress(found);
+      const seat = this.requireSeat(game, playerId);
+      return { game, gameOver: await this.forfeit(game, seat) };
+    });
+  }
+
+  /**
+   * Forfeits the game of the player whose turn deadline had passed at `now`.
+   * Returns null when another process already handled it, the game is over
+   * or a move since the sweep started the opponent's clock.
+   */
+  async timeoutTurn(
+    gameId: string,
+    now = Date.now(),
+  ): Promise<TurnTimeout | null> {
+    return this.withGameLock(gameId, async (game) => {
+      const deadline = await this.turnTimer.getDeadline(gameId);
+      if (deadline === null || deadline > now) {
+        return null;
+      }
+      if (!game || game.status !== 'in_progress' || !game.currentTurn) {
+        // Left behind by a game that is over
+        await this.turnTimer.stop(gameId);
+        return null;
+      }
+
+      const player = game.currentTurn;
+      if (!isFlagged(currentClocks(game, now)[player])) {
+        return null;
+      }
+      const gameOver = await this.finish(game, getOpponent(player), 'timeout');
+      return { game, gameOver, player };
+    });
+  }
+
+  /**
+   * Holds a dropped player's seat for the grace period. The turn clock keeps
+   * running, so disconnecting cannot be used to stall. Returns null when
+   * there is no game in progress to hold a seat in.
+   */
+  async markDisconnected(
+    gameId: string,
+    playerId: string,
+  ): Promise<{ game: GameState; reconnectDeadline: number } | null> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = found;
+      const seat = game && this.findSeat(game, playerId);
+      if (!game || !seat || game.status !== 'in_progress') {
+        return null;
+      }
+
+      const gracePeriod =
+        this.configService.get<number>('game.reconnectGracePeriod') ??
+        DEFAULT_RECONNECT_GRACE_PERIOD;
+      const reconnectDeadline = Date.now() + gracePeriod;
+
+      seat.isConnected = false;
+      await this.save(game);
+      await this.redisService.zadd(
+        DISCONNECT_DEADLINES_KEY,
+        reconnectDeadline,
+        this.disconnectionMember(game.id, playerId),
+      );
+      return { game, reconnectDeadline };
+    });
+  }
+
+  /**
+   * Gives a returning player their seat back. Returns null if the seat was
+   * not being held.
+   */
+  async markReconnected(
+    gameId: string,
+    playerId: string,
+  ): Promise<GameState | null> {
+    return this.withGameLock(gameId, async (found) => {
+      const game = found;
+      const seat = game && this.findSeat(game, playerId);
+      if (!game || !seat || seat.isConnected) {
+        return null;
+      }
+
+      seat.isConnected = true;
+      await this.save(game);
+      await this.redisService.zrem(
+        DISCONNECT_DEADLINES_KEY,
+        this.disconnectionMember(game.id, playerId),
+      );
+      return game;
+    });
+  }
+
+  async findExpiredDisconnections(now = Date.now()): Promise<Disconnection[]> {
+    const members = await this.redisService.zrangebyscore(
+      DISCONNECT_DEADLINES_KEY,
+      0,
+      now,
+    );
+    return members.map((member) => {
+      const [gameId, playerId] = member.split(':');
+      return { gameId, playerId };
+    });
+  }
+
+  /**
+   * Ends a game whose player did not come back in time. The opponent wins
+   * if still connected; a game both players walked away from is drawn.
+   * Returns null when the player returned, dropped again since the sweep
+   * read the deadline, or another process handled it.
+   */
+  async abandon(
+    gameId: string,
+    playerId: string,
+    now = Date.now(),
+  ): Promise<GameEnd | null> {
+    return this.withGameLock(gameId, async (game) => {
+      const member = this.disconnectionMember(gameId, playerId);
+      const deadline = await this.redisService.zscore(
+        DISCONNECT_DEADLINES_KEY,
+        member,
+      );
+      if (deadline === null || deadline > now) {
+        return null;
+      }
+      const seat = game && this.findSeat(game, playerId);
+      if (!game || !seat || seat.isConnected || game.status !== 'in_progress') {
+        // Left behind by a player who returned or a game that is over
+        await this.redisService.zrem(DISCONNECT_DEADLINES_KEY, member);
+        return null;
+      }
+
+      const opponent = game.players.find((other) => other !== seat);
+      const winner = opponent?.isConnected ? opponent.symbol : null;
+      const gameOver = await this.finish(game, winner, 'abandoned');
+      return { game, gameOver };
+    });
+  }
+
+  findSeat(game: GameState, playerId: string): GamePlayer | undefined {
+    return game.players.find((seat) => seat.player.id === playerId);
+  }
+
+  /**
+   * Ends the game, rates it for both players and builds the GAME_OVER
+   * payload. `winner` is null for a draw.
+   */
+  private async finish(
+    game: GameState,
+    winner: PlayerSymbol | null,
+    reason: GameEndReason,
+    winningLine: WinningLine | null = null,
+  ): Promise<GameOverPayload> {
+    const winnerSeat =
+      game.players.find((seat) => seat.symbol === winner) ?? null;
+
+    // Stop the running clock where it stands
+    game.clocks = currentClocks(game, Date.now());
+    game.turnStartedAt = null;
+    game.status = reason === 'abandoned' ? 'abandoned' : 'completed';
+    game.currentTurn = null;
+    game.winner = winnerSeat;
+    game.winningLine = winningLine;
+    game.drawOfferedBy = null;
+
+    const eloChanges = await this.gameArchive.archive(game, reason);
+    for (const seat of game.players) {
+      seat.player.elo = eloChanges[seat.player.id]?.new ?? seat.player.elo;
+    }
+
+    await this.save(game);
+    await this.turnTimer.stop(game.id);
+    for (const seat of game.players) {
+      await this.redisService.zrem(
+        DISCONNECT_DEADLINES_KEY,
+        this.disconnectionMember(game.id, seat.player.id),
+      );
+    }
+    this.logger.log(`Game ${game.id} over: ${reason}`);
+
+    return {
+      gameId: game.id,
+      winner: winnerSeat,
+      winningLine,
+      result: winnerSeat ? 'win' : 'draw',
+      reason,
+      eloChanges,
+    };
+  }
+
+  private async seatPlayer(
+    roomId: string,
+    player: Player,
+    options: GameOptions,
+  ): Promise<GameState> {
+    const existing = await this.findByRoom(roomId);
+
+    if (!existing || this.isFinished(existing)) {
+      const game = this.createGame(roomId, player, options);
+      await this.save(game);
+      await this.redisService.set(
+        this.roomGameKey(roomId),
+        game.id,
+        GAME_TTL_SECONDS,
+      );
+      this.logger.log(`Game ${game.id} created in room ${roomId}`);
+      return game;
+    }
+
+    if (this.findSeat(existing, player.id)) {
+      return existing;
+    }
+
+    if (existing.status !== 'waiting' || existing.players.length >= 2) {
+      throw new GameException('ROOM_FULL', 'Room is full');
+    }
+
+    existing.players.push(this.createSeat(player, 'O'));
+    existing.status = 'challenging';
+    existing.challengeDeadline = Date.now() + GAME_CONFIG.CHALLENGE_TIMEOUT;
+    await this.save(existing);
+    await this.redisService.zadd(
+      CHALLENGE_DEADLINES_KEY,
+      existing.challengeDeadline,
+      existing.id,
+    );
+    return existing;
+  }
+
+  private async unseatPlayer(
+    roomId: string,
+    playerId: string,
+  ): Promise<LeaveResult> {
+    const game = await this.findByRoom(roomId);
+    const seat = game && this.findSeat(game, playerId);
+    if (!game || !seat) {
+      return { game, gameOver: null };
+    }
+
+    if (game.status === 'in_progress') {
+      return { game, gameOver: await this.forfeit(game, seat) };
+    }
+
+    if (this.isFinished(game)) {
+      return { game, gameOver: null };
+    }
+
+    game.players = game.players.filter((seat) => seat.player.id !== playerId);
+    if (game.players.length === 0) {
+      await this.redisService.del(this.gameKey(game.id));
+      await this.redisService.del(this.roomGameKey(roomId));
+      return { game: null, gameOver: null };
+    }
+
+    await this.reopen(game);
+    return { game, gameOver: null };
+  }
+
+  private async forfeit(
+    game: GameState,
+    seat: GamePlayer,
+  ): Promise<GameOverPayload> {
+    return this.finish(game, getOpponent(seat.symbol), 'surrender');
+  }
+
+  // Starts the clock of the player to move and saves the game
+  private async applyMove(
+    game: GameState,
+    seat: GamePlayer,
+    position: Position,
+  ): Promise<MoveResult> {
+    const now = Date.now();
+    const move: Move = {
+      position,
+      player: seat.symbol,
+      timestamp: now,
+    };
+    // Only the player to move has a running clock
+    const clock =
+      game.currentTurn === seat.symbol && game.turnStartedAt !== null
+        ? runClock(
+            game.clocks[seat.symbol],
+            game.timeControl,
+            now - game.turnStartedAt,
+          )
+        : null;
+    if (clock && isFlagged(clock)) {
+      throw new GameException('INVALID_STATE', 'Turn time has expired');
+    }
+    if (clock) {
+      move.timeRemaining = clock.remaining;
+    }
+
+    const outcome = playMove(
+      toGameBoard(game.board, game.boardOrigin, game.geometry.infinite),
+      move,
+      game.status === 'in_progress' ? game.currentTurn : null,
+      { ruleset: game.ruleset, winLength: game.geometry.winLength },
+    );
+
+    if (!outcome.validation.isValid) {
+      return {
+        game,
+        move,
+        validation: outcome.validation,
+        moveMade: null,
+        gameOver: null,
+        drawDeclined: false,
+        duplicate: false,
+      };
+    }
+
+    const drawDeclined =
+      game.drawOfferedBy !== null && game.drawOfferedBy !== seat.player.id;
+    if (drawDeclined) {
+      game.drawOfferedBy = null;
+    }
+
+    game.board = outcome.board.cells;
+    game.boardOrigin = outcome.board.origin ?? game.boardOrigin;
+    game.moveHistory.push(move);
+    game.clocks[seat.symbol] = completeMove(clock!, game.timeControl);
+    game.currentTurn = getOpponent(seat.symbol);
+    game.turnStartedAt = now;
+
+    let gameOver: GameOverPayload | null = null;
+    if (outcome.win.isWin) {
+      gameOver = await this.finish(
+        game,
+        seat.symbol,
+        'five-in-a-row',
+        outcome.win.winningLine,
+      );
+    } else if (outcome.isDraw) {
+      gameOver = await this.finish(game, null, 'board-full');
+    } else {
+      await this.startClock(game, now);
+    }
+
+    return {
+      game,
+      move,
+      validation: outcome.validation,
+      moveMade: {
+        gameId: game.id,
+        move,
+        board: game.board,
+        nextTurn: game.currentTurn ?? move.player,
+        version: game.moveHistory.length,
+      },
+      gameOver,
+      drawDeclined,
+      duplicate: false,
+    };
+  }
+
+  private async startClock(game: GameState, now: number): Promise<void> {
+    const turn = game.currentTurn!;
+    game.turnStartedAt = now;
+    await this.save(game);
+    await this.turnTimer.start(
+      game.id,
+      timeUntilFlag(game.clocks[turn], game.timeControl),
+      now,
+    );
+  }
+
+  /**
+   * Seats are provisional until the challenge is accepted; X is drawn at
+   * random when the game starts.
+   */
+  private drawSymbols(game: GameState): void {
+    if (Math.random() < 0.5) {
+      for (const seat of game.players) {
+        seat.symbol = getOpponent(seat.symbol);
+      }
+    }
+  }
+
+  private async reopen(game: GameState): Promise<void> {
+    game.status = 'waiting';
+    game.challengeDeadline = null;
+    game.players.forEach((seat, index) => {
+      seat.symbol = index === 0 ? 'X' : 'O';
+      seat.hasAcceptedChallenge = false;
+    });
+    await this.save(game);
+    await this.redisService.zrem(CHALLENGE_DEADLINES_KEY, game.id);
+  }
+
+  private createGame(
+    roomId: string,
+    player: Player,
+    options: GameOptions,
+  ): GameState {
+    const geometry = options.geometry ?? DEFAULT_BOARD_GEOMETRY;
+    const timeControl = options.timeControl ?? DEFAULT_TIME_CONTROL;
+    const board = createBoardFromGeometry(geometry);
+    const now = new Date();
+
+    return {
+      id: randomUUID(),
+      roomId,
+      board: board.cells,
+      status: 'waiting',
+      ruleset: options.ruleset ?? DEFAULT_RULE_VARIANT,
+      geometry,
+      boardOrigin: board.origin ?? { row: 0, col: 0 },
+      currentTurn: null,
+      timeControl,
+      clocks: { X: startingClock(timeControl), O: startingClock(timeControl) },
+      turnStartedAt: null,
+      challengeDeadline: null,
+      startedAt: null,
+      drawOfferedBy: null,
+      players: [this.createSeat(player, 'X')],
+      winner: null,
+      winningLine: null,
+      moveHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  // A bot takes on every challenge
+  private createSeat(player: Player, symbol: PlayerSymbol): GamePlayer {
+    return {
+      player,
+      symbol,
+      hasAcceptedChallenge: player.isBot === true,
+      isConnected: true,
+      drawOffersRemaining: GAME_CONFIG.MAX_DRAW_OFFERS,
+    };
+  }
+
+  private requireSeat(game: GameState, playerId: string): GamePlayer {
+    const seat = this.findSeat(game, playerId);
+    if (!seat) {
+      throw new GameException('NOT_IN_GAME', 'You are not playing this game');
+    }
+    return seat;
+  }
+
+  private requireGame(game: GameState | null): GameState {
+    if (!game) {
+      throw new GameException('GAME_NOT_FOUND', 'Game not found');
+    }
+    return game;
+  }
+
+  private requireInProgress(found: GameState | null): GameState {
+    const game = this.requireGame(found);
+    if (game.status !== 'in_progress') {
+      throw new GameException('INVALID_STATE', 'Game is not in progress');
+    }
+    return game;
+  }
+
+  /**
+   * Runs `task` holding the room's lock, so that on any number of server
+   * instances only one changes the room's game at a time.
+   */
+  private async withRoomLock<T>(
+    roomId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    return this.redisService.withLock(this.roomLockKey(roomId), task);
+  }
+
+  /**
+   * Runs `task` on the latest state of the game while holding its room's
+   * lock. The game is null if it no longer exists.
+   */
+  private async withGameLock<T>(
+    gameId: string,
+    task: (game: GameState | null) => Promise<T>,
+  ): Promise<T> {
+    const game = await this.findById(gameId);
+    if (!game) {
+      return task(null);
+    }
+    return this.withRoomLock(game.roomId, async () =>
+      task(await this.findById(gameId)),
+    );
+  }
+
+  private isFinished(game: GameState): boolean {
+    return game.status === 'completed' || game.status === 'abandoned';
+  }
+
+  private async save(game: GameState): Promise<void> {
+    game.updatedAt = new Date();
+    await this.redisService.set(
+      this.gameKey(game.id),
+      JSON.stringify(game),
+      GAME_TTL_SECONDS,
+    );
+  }
+
+  private deserialize(raw: string): GameState {
+    const game = JSON.parse(raw) as GameState;
+    game.createdAt = new Date(game.createdAt);
+    game.updatedAt = new Date(game.updatedAt);
+    for (const seat of game.players) {
+      seat.player.createdAt = new Date(seat.player.createdAt);
+    }
+    if (game.winner) {
+      game.winner.player.createdAt = new Date(game.winner.player.createdAt);
+    }
+    return game;
+  }
+
+  private gameKey(gameId: string): string {
+    return `game:${gameId}`;
+  }
+
+  private roomGameKey(roomId: string): string {
+    return `room:${roomId}:game`;
+  }
+
+  private moveReceiptKey(
+    gameId: string,
+    playerId: string,
+    moveId: string,
+  ): string {
+    return `game:${gameId}:moves:${playerId}:${moveId}`;
+  }
+
+  private roomLockKey(roomId: string): string {
+    return `room:${roomId}:game:lock`;
+  }
+
+  private disconnectionMember(gameId: string, playerId: string): string {
+    return `${gameId}:${playerId}`;
+  }
+}
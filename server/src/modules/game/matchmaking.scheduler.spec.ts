@@ -0,0 +1,102 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DEFAULT_TIME_CONTROL, Room } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { makePlayer } from '../../testing/test-players';
+import { TokenService } from '../auth/token.service';
+import { BotService } from '../bot/bot.service';
+import { ChatGateway } from '../chat/chat.gateway';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+import { MatchmakingService } from '../matchmaking/matchmaking.service';
+import { PlayerService } from '../player/player.service';
+import { LobbyGateway } from '../room/lobby.gateway';
+import { RoomService } from '../room/room.service';
+import { TournamentGateway } from '../tournament/tournament.gateway';
+import { TournamentService } from '../tournament/tournament.service';
+import { GameArchiveService } from './game-archive.service';
+import { GameGateway } from './game.gateway';
+import { GameService } from './game.service';
+import { MatchmakingScheduler } from './matchmaking.scheduler';
+import { TurnTimerService } from './turn-timer.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+describe('MatchmakingScheduler', () => {
+  let scheduler: MatchmakingScheduler;
+  let redisService: RedisService;
+  let roomService: RoomService;
+  let gameService: GameService;
+  let matchmakingService: MatchmakingService;
+  const matchFound = jest.fn();
+  const alice = makePlayer('alice');
+  const bob = makePlayer('bob');
+
+  beforeEach(async () => {
+    matchFound.mockReset();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MatchmakingScheduler,
+        MatchmakingService,
+        GameGateway,
+        GameService,
+        TurnTimerService,
+        RoomService,
+        RedisService,
+        {
+          provide: MatchmakingGateway,
+          useValue: { matchFound, sendStatus: jest.fn() },
+        },
+        { provide: LobbyGateway, useValue: { roomCreated: jest.fn() } },
+        { provide: SchedulerLeaseService, useValue: { isLeader: () => true } },
+        { provide: GameArchiveService, useValue: {} },
+        { provide: PlayerService, useValue: {} },
+        { provide: TokenService, useValue: {} },
+        { provide: BotService, useValue: {} },
+        { provide: ChatGateway, useValue: {} },
+        { provide: TournamentService, useValue: {} },
+        { provide: TournamentGateway, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    scheduler = module.get(MatchmakingScheduler);
+    roomService = module.get(RoomService);
+    gameService = module.get(GameService);
+    matchmakingService = module.get(MatchmakingService);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redisService.onApplicationShutdown();
+  });
+
+  it('should close a room that failed to open and queue the pair again', async () => {
+    await matchmakingService.join(alice, 'caro', DEFAULT_TIME_CONTROL, 1000);
+    await matchmakingService.join(bob, 'caro', DEFAULT_TIME_CONTROL, 2000);
+    const create = jest.spyOn(roomService, 'create');
+    // Fails once both players are seated in the room and its game
+    jest
+      .spyOn(roomService, 'setGame')
+      .mockRejectedValueOnce(new Error('Redis is unavailable'));
+
+    await scheduler.sweep(3000);
+
+    expect(matchFound).not.toHaveBeenCalled();
+    const room = await (create.mock.results[0].value as Promise<Room>);
+    expect(await roomService.findById(room.id)).toBeNull();
+    expect(await gameService.findByRoom(room.id)).toBeNull();
+    for (const player of [alice, bob]) {
+      expect(await roomService.findByPlayer(player.id)).toBeNull();
+    }
+    expect(
+      (await matchmakingService.findEntries()).map((entry) => entry.player.id),
+    ).toEqual(['alice', 'bob']);
+  });
+});
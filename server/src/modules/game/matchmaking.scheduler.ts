@@ -0,0 +1,109 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { findPairs, QueueEntry } from '../matchmaking/matchmaking';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+import { MatchmakingService } from '../matchmaking/matchmaking.service';
+import { RoomService } from '../room/room.service';
+import { GameGateway } from './game.gateway';
+
+const SWEEP_INTERVAL_MS = 1000;
+
+/**
+ * Pairs the matchmaking queue and opens a room for each pair. Search
+ * ranges widen with the time waited, so every sweep also tells the players
+ * still waiting how their search stands.
+ */
+@Injectable()
+export class MatchmakingScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(MatchmakingScheduler.name);
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly matchmakingService: MatchmakingService,
+    private readonly matchmakingGateway: MatchmakingGateway,
+    private readonly roomService: RoomService,
+    private readonly gameGateway: GameGateway,
+    private readonly lease: SchedulerLeaseService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.interval = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    if (!this.lease.isLeader()) {
+      return;
+    }
+
+    try {
+      const queue = await this.findAvailable();
+      const recent = await this.matchmakingService.findRecentOpponents(
+        queue.map((entry) => entry.player.id),
+      );
+
+      const matched = new Set<QueueEntry>();
+      for (const pair of findPairs(queue, recent, now)) {
+        if (!(await this.matchmakingService.claim(pair))) {
+          continue;
+        }
+
+        try {
+          const [first, second] = pair;
+          const room = await this.gameGateway.openRoom(
+            [first.player, second.player],
+            {
+              name: `${first.player.username} vs ${second.player.username}`,
+              ruleset: first.ruleset,
+              timeControl: first.timeControl,
+            },
+          );
+          await this.matchmakingService.recordMatch(pair, now);
+          this.matchmakingGateway.matchFound(room.id, pair);
+          pair.forEach((entry) => matched.add(entry));
+        } catch (error) {
+          this.logger.error('Could not open a matched room', error);
+          for (const entry of pair) {
+            await this.matchmakingService.requeue(entry);
+          }
+        }
+      }
+
+      for (const entry of queue.filter((entry) => !matched.has(entry))) {
+        this.matchmakingGateway.sendStatus(
+          entry.player.id,
+          await this.matchmakingService.getStatus(entry, queue, now),
+        );
+      }
+    } catch (error) {
+      this.logger.error('Matchmaking sweep failed', error);
+    }
+  }
+
+  // Drops players who took a seat in a room since they queued
+  private async findAvailable(): Promise<QueueEntry[]> {
+    const available: QueueEntry[] = [];
+    for (const entry of await this.matchmakingService.findEntries()) {
+      if (await this.roomService.findSeatedRoom(entry.player.id)) {
+        await this.matchmakingService.leave(entry.player.id);
+        this.matchmakingGateway.sendStatus(entry.player.id, null);
+      } else {
+        available.push(entry);
+      }
+    }
+    return available;
+  }
+}
@@ -0,0 +1,19 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { GameException } from '../../common/exceptions/game.exception';
+import type { GameSocket } from './game-socket.types';
+import { isSpectating } from './game-socket.types';
+
+/**
+ * Rejects game actions from a socket that is watching a room instead of
+ * playing in it.
+ */
+@Injectable()
+export class SpectatorGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const client = context.switchToWs().getClient<GameSocket>();
+    if (isSpectating(client)) {
+      throw new GameException('SPECTATOR', 'Spectators cannot play');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { RoomService } from '../room/room.service';
+import { TournamentGateway } from '../tournament/tournament.gateway';
+import { TournamentService } from '../tournament/tournament.service';
+import { GameGateway } from './game.gateway';
+
+const SWEEP_INTERVAL_MS = 2000;
+
+/**
+ * Opens a room for each tournament game of a current round. A player still
+ * seated elsewhere, say in a game of their own, is waited for.
+ */
+@Injectable()
+export class TournamentScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TournamentScheduler.name);
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly tournamentService: TournamentService,
+    private readonly tournamentGateway: TournamentGateway,
+    private readonly roomService: RoomService,
+    private readonly gameGateway: GameGateway,
+    private readonly lease: SchedulerLeaseService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.interval = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async sweep(): Promise<void> {
+    if (!this.lease.isLeader()) {
+      return;
+    }
+
+    try {
+      for (const game of await this.tournamentService.findPendingGames()) {
+        if (await this.isSeated(game.players.map(({ id }) => id))) {
+          continue;
+        }
+
+        try {
+          const room = await this.gameGateway.openRoom(game.players, {
+            name: game.name,
+            ruleset: game.ruleset,
+            timeControl: game.timeControl,
+          });
+          await this.tournamentService.setRoom(game.pairingId, room.id);
+          await this.tournamentGateway.publish(game.tournamentId);
+        } catch (error) {
+          this.logger.error(
+            `Could not open tournament game ${game.pairingId}`,
+            error,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('Tournament sweep failed', error);
+    }
+  }
+
+  private async isSeated(playerIds: string[]): Promise<boolean> {
+    for (const playerId of playerIds) {
+      if (await this.roomService.findSeatedRoom(playerId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
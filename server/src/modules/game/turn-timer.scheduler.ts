@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerLeaseService } from '../../common/services/scheduler-lease.service';
+import { sweepDeadlines } from './deadline-sweep';
+import { GameGateway } from './game.gateway';
+import { GameService } from './game.service';
+import { TurnTimerService } from './turn-timer.service';
+
+const SWEEP_INTERVAL_MS = 250;
+
+/**
+ * Broadcasts TIMER_UPDATE for every game in progress at the configured
+ * cadence and forfeits games whose turn deadline has passed.
+ */
+@Injectable()
+export class TurnTimerScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TurnTimerScheduler.name);
+  private intervals: NodeJS.Timeout[] = [];
+
+  constructor(
+    private readonly turnTimer: TurnTimerService,
+    private readonly gameService: GameService,
+    private readonly gameGateway: GameGateway,
+    private readonly configService: ConfigService,
+    private readonly lease: SchedulerLeaseService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const cadence =
+      this.configService.get<number>('game.timerUpdateInterval') ?? 1000;
+
+    this.intervals = [
+      setInterval(() => void this.broadcast(), cadence),
+      setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS),
+    ];
+  }
+
+  onModuleDestroy() {
+    this.intervals.forEach((interval) => clearInterval(interval));
+    this.intervals = [];
+  }
+
+  async broadcast(now = Date.now()): Promise<void> {
+    if (!this.lease.isLeader()) {
+      return;
+    }
+
+    try {
+      for (const gameId of await this.turnTimer.findActive()) {
+        const game = await this.gameService.findById(gameId);
+        if (game?.status === 'in_progress') {
+          this.gameGateway.broadcastTimer(game, now);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Timer broadcast failed', error);
+    }
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    if (!this.lease.isLeader()) {
+      return;
+    }
+
+    await sweepDeadlines(this.logger, {
+      name: 'Turn timeout',
+      findExpired: () => this.turnTimer.findExpired(now),
+      handle: async (gameId) => {
+        const timeout = await this.gameService.timeoutTurn(gameId, now);
+        if (timeout) {
+          await this.gameGateway.notifyTurnTimeout(timeout);
+        }
+      },
+      failure: (gameId) => `Could not time out game ${gameId}`,
+    });
+  }
+}
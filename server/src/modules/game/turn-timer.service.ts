@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../common/services/redis.service';
+
+// Sorted set of games in progress scored by the current turn's deadline
+const TURN_DEADLINES_KEY = 'games:turn-deadlines';
+
+/**
+ * Turn deadlines kept in Redis instead of in-process timers, so they
+ * survive a restart and any process can enforce them.
+ */
+@Injectable()
+export class TurnTimerService {
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Starts (or restarts) the deadline for the player to move, `duration` ms
+   * from `now`: the time until their clock runs out.
+   */
+  async start(
+    gameId: string,
+    duration: number,
+    now = Date.now(),
+  ): Promise<number> {
+    const deadline = now + duration;
+    await this.redisService.zadd(TURN_DEADLINES_KEY, deadline, gameId);
+    return deadline;
+  }
+
+  async stop(gameId: string): Promise<void> {
+    await this.redisService.zrem(TURN_DEADLINES_KEY, gameId);
+  }
+
+  async getDeadline(gameId: string): Promise<number | null> {
+    return this.redisService.zscore(TURN_DEADLINES_KEY, gameId);
+  }
+
+  async getRemaining(gameId: string, now = Date.now()): Promise<number | null> {
+    const deadline = await this.getDeadline(gameId);
+    return deadline === null ? null : Math.max(0, deadline - now);
+  }
+
+  async findActive(): Promise<string[]> {
+    return this.redisService.zrangebyscore(TURN_DEADLINES_KEY, '-inf', '+inf');
+  }
+
+  async findExpired(now = Date.now()): Promise<string[]> {
+    return this.redisService.zrangebyscore(TURN_DEADLINES_KEY, 0, now);
+  }
+}
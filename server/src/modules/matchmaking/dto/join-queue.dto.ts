@@ -0,0 +1,17 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsOptional, ValidateNested } from 'class-validator';
+import { RULESETS } from '@shared/types/game.rules';
+import { JoinQueuePayload } from '@shared/types/game.types';
+import type { RuleVariant } from '@shared/types/game.types';
+import { TimeControlDto } from '../../room/dto/create-room.dto';
+
+export class JoinQueueDto implements JoinQueuePayload {
+  @IsOptional()
+  @IsIn(Object.keys(RULESETS))
+  ruleset?: RuleVariant;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeControlDto)
+  timeControl?: TimeControlDto;
+}
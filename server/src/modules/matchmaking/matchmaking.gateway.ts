@@ -0,0 +1,129 @@
+import { UseFilters, UsePipes, ValidationPipe } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { validateTimeControl } from '@shared/types/game.clock';
+import { DEFAULT_RULE_VARIANT } from '@shared/types/game.rules';
+import {
+  DEFAULT_TIME_CONTROL,
+  QueueStatus,
+  SocketEvent,
+} from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { WsExceptionFilter } from '../../common/filters/ws-exception.filter';
+import type { GameServer, GameSocket } from '../game/game-socket.types';
+import {
+  GATEWAY_OPTIONS,
+  isSpectating,
+  playerChannel,
+} from '../game/game-socket.types';
+import { PlayerService } from '../player/player.service';
+import { RoomService } from '../room/room.service';
+import { JoinQueueDto } from './dto/join-queue.dto';
+import type { QueuePair } from './matchmaking';
+import { MatchmakingService } from './matchmaking.service';
+
+/**
+ * Quick play: players join and leave the matchmaking queue here, and hear
+ * how their search is going. The MatchmakingScheduler does the pairing.
+ */
+@WebSocketGateway(GATEWAY_OPTIONS)
+@UseFilters(new WsExceptionFilter())
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class MatchmakingGateway implements OnGatewayDisconnect {
+  @WebSocketServer()
+  server: GameServer;
+
+  constructor(
+    private readonly matchmakingService: MatchmakingService,
+    private readonly roomService: RoomService,
+    private readonly playerService: PlayerService,
+  ) {}
+
+  async handleDisconnect(client: GameSocket) {
+    const player = client.data.player;
+    if (!player) {
+      return;
+    }
+
+    const sockets = await this.server
+      .in(playerChannel(player.id))
+      .fetchSockets();
+    if (sockets.length === 0) {
+      await this.matchmakingService.leave(player.id);
+    }
+  }
+
+  @SubscribeMessage(SocketEvent.JOIN_QUEUE)
+  async handleJoinQueue(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: JoinQueueDto,
+  ) {
+    const playerId = client.data.player.id;
+    if (isSpectating(client)) {
+      throw new GameException('INVALID_STATE', 'Stop spectating first');
+    }
+    const timeControl = dto.timeControl ?? DEFAULT_TIME_CONTROL;
+    const timeControlError = validateTimeControl(timeControl);
+    if (timeControlError) {
+      throw new GameException('VALIDATION_ERROR', timeControlError);
+    }
+    const room = await this.roomService.findSeatedRoom(playerId);
+    if (room) {
+      throw new GameException(
+        'INVALID_STATE',
+        'Leave your current room first',
+        { roomId: room.id },
+      );
+    }
+
+    // Pair on the current rating, not the one the socket connected with
+    const entity = await this.playerService.findById(playerId);
+    if (!entity) {
+      throw new GameException('UNAUTHORIZED', 'Player not found');
+    }
+
+    const entry = await this.matchmakingService.join(
+      this.playerService.toPlayer(entity),
+      dto.ruleset ?? DEFAULT_RULE_VARIANT,
+      timeControl,
+    );
+    this.sendStatus(
+      playerId,
+      await this.matchmakingService.getStatus(
+        entry,
+        await this.matchmakingService.findEntries(),
+      ),
+    );
+  }
+
+  @SubscribeMessage(SocketEvent.LEAVE_QUEUE)
+  async handleLeaveQueue(@ConnectedSocket() client: GameSocket) {
+    const playerId = client.data.player.id;
+    await this.matchmakingService.leave(playerId);
+    this.sendStatus(playerId, null);
+  }
+
+  matchFound(roomId: string, [first, second]: QueuePair): void {
+    for (const [entry, opponent] of [
+      [first, second],
+      [second, first],
+    ]) {
+      this.server
+        .to(playerChannel(entry.player.id))
+        .emit(SocketEvent.MATCH_FOUND, { roomId, opponent: opponent.player });
+    }
+  }
+
+  // Reaches every socket of the player, so all their tabs agree
+  sendStatus(playerId: string, status: QueueStatus | null): void {
+    this.server
+      .to(playerChannel(playerId))
+      .emit(SocketEvent.QUEUE_STATUS, { status });
+  }
+}
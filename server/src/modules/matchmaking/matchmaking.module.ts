@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PlayerModule } from '../player/player.module';
+import { RoomModule } from '../room/room.module';
+import { MatchmakingGateway } from './matchmaking.gateway';
+import { MatchmakingService } from './matchmaking.service';
+
+@Module({
+  imports: [PlayerModule, RoomModule],
+  providers: [MatchmakingService, MatchmakingGateway],
+  exports: [MatchmakingService, MatchmakingGateway],
+})
+export class MatchmakingModule {}
@@ -0,0 +1,116 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  DEFAULT_TIME_CONTROL,
+  Player,
+  RuleVariant,
+} from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { makePlayer } from '../../testing/test-players';
+import { MatchmakingService } from './matchmaking.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+describe('MatchmakingService', () => {
+  let matchmakingService: MatchmakingService;
+  let redisService: RedisService;
+  const alice = makePlayer('alice');
+  const bob = makePlayer('bob');
+  const control = DEFAULT_TIME_CONTROL;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MatchmakingService,
+        RedisService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    matchmakingService = module.get(MatchmakingService);
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+  });
+
+  it('should keep the place in the queue for the same pool', async () => {
+    const blitz = { ...control, initial: 180_000 };
+    await matchmakingService.join(alice, 'caro', control, 1000);
+    await matchmakingService.join(bob, 'caro', control, 2000);
+
+    const rejoin = (player: Player, ruleset: RuleVariant, at: number) =>
+      matchmakingService.join(player, ruleset, control, at);
+    expect((await rejoin(alice, 'caro', 3000)).joinedAt).toBe(1000);
+    expect((await rejoin(bob, 'renju', 4000)).joinedAt).toBe(4000);
+    expect(
+      (await matchmakingService.join(alice, 'caro', blitz, 5000)).joinedAt,
+    ).toBe(5000);
+
+    const queue = await matchmakingService.findEntries();
+    expect(queue.map((entry) => entry.player.id)).toEqual(['bob', 'alice']);
+    expect(queue[0].player.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should let only one caller claim a pair', async () => {
+    const pair = [
+      await matchmakingService.join(alice, 'caro', control, 1000),
+      await matchmakingService.join(bob, 'caro', control, 2000),
+    ] as const;
+
+    expect(await matchmakingService.claim([...pair])).toBe(true);
+    expect(await matchmakingService.claim([...pair])).toBe(false);
+    expect(await matchmakingService.findEntries()).toEqual([]);
+  });
+
+  it('should put a player back when their opponent is gone', async () => {
+    const first = await matchmakingService.join(alice, 'caro', control, 1000);
+    const second = await matchmakingService.join(bob, 'caro', control, 2000);
+    await matchmakingService.leave(bob.id);
+
+    expect(await matchmakingService.claim([first, second])).toBe(false);
+    expect(await matchmakingService.findEntries()).toMatchObject([
+      { player: { id: 'alice' }, joinedAt: 1000 },
+    ]);
+  });
+
+  it('should remember opponents and estimate waits from matches', async () => {
+    const pair = [
+      await matchmakingService.join(alice, 'caro', control, 1000),
+      await matchmakingService.join(bob, 'caro', control, 5000),
+    ] as const;
+    await matchmakingService.claim([...pair]);
+    await matchmakingService.recordMatch([...pair], 11_000);
+
+    expect(
+      await matchmakingService.findRecentOpponents([alice.id, bob.id]),
+    ).toEqual(
+      new Map([
+        ['alice', ['bob']],
+        ['bob', ['alice']],
+      ]),
+    );
+
+    const carol = await matchmakingService.join(
+      makePlayer('carol'),
+      'caro',
+      control,
+      0,
+    );
+    expect(await matchmakingService.getStatus(carol, [carol], 2000)).toEqual({
+      ruleset: 'caro',
+      timeControl: control,
+      waited: 2000,
+      eloRange: 100,
+      // Alice waited 10 s and Bob 6 s
+      estimatedWait: 6000,
+      playersInQueue: 1,
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Player,
+  QueueStatus,
+  RuleVariant,
+  TimeControl,
+} from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import {
+  estimateWait,
+  QueueEntry,
+  QueuePair,
+  queuePool,
+  searchRange,
+} from './matchmaking';
+
+const QUEUE_KEY = 'matchmaking:queue';
+// Entries of players who vanished without leaving expire on their own
+const ENTRY_TTL_SECONDS = 60 * 60;
+const RECENT_OPPONENTS = 3;
+const RECENT_OPPONENTS_TTL_SECONDS = 24 * 60 * 60;
+// Waits of the last matches per pool, for the wait estimate
+const WAIT_SAMPLES = 20;
+
+/**
+ * The quick play queue: a sorted set of player ids by the time they joined,
+ * each with an entry holding the player and the ruleset and time control
+ * they asked for.
+ */
+@Injectable()
+export class MatchmakingService {
+  private readonly logger = new Logger(MatchmakingService.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Queues the player. Joining again for the same ruleset and time control
+   * keeps the place in the queue; anything else starts over.
+   */
+  async join(
+    player: Player,
+    ruleset: RuleVariant,
+    timeControl: TimeControl,
+    now = Date.now(),
+  ): Promise<QueueEntry> {
+    const current = await this.findEntry(player.id);
+    const pool = queuePool({ ruleset, timeControl });
+    const entry: QueueEntry = {
+      player,
+      ruleset,
+      timeControl,
+      joinedAt:
+        current &&
+        queuePool(current) === pool &&
+        (await this.isQueued(player.id))
+          ? current.joinedAt
+          : now,
+    };
+
+    await this.saveEntry(entry);
+    await this.redisService.zadd(QUEUE_KEY, entry.joinedAt, player.id);
+    this.logger.log(`${player.username} queued for ${pool}`);
+    return entry;
+  }
+
+  async leave(playerId: string): Promise<boolean> {
+    const removed = await this.redisService.zrem(QUEUE_KEY, playerId);
+    await this.redisService.del(this.entryKey(playerId));
+    return removed > 0;
+  }
+
+  async findEntry(playerId: string): Promise<QueueEntry | null> {
+    const raw = await this.redisService.get(this.entryKey(playerId));
+    if (!raw) {
+      return null;
+    }
+
+    const entry = JSON.parse(raw) as QueueEntry;
+    entry.player.createdAt = new Date(entry.player.createdAt);
+    return entry;
+  }
+
+  /**
+   * Everyone in the queue, longest waiting first. Queue members whose entry
+   * has expired are pruned along the way.
+   */
+  async findEntries(): Promise<QueueEntry[]> {
+    const entries: QueueEntry[] = [];
+    for (const playerId of await this.redisService.zrange(QUEUE_KEY, 0, -1)) {
+      const entry = await this.findEntry(playerId);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        await this.redisService.zrem(QUEUE_KEY, playerId);
+      }
+    }
+    return entries;
+  }
+
+  async findRecentOpponents(
+    playerIds: string[],
+  ): Promise<Map<string, string[]>> {
+    const recent = new Map<string, string[]>();
+    for (const playerId of playerIds) {
+      recent.set(
+        playerId,
+        await this.redisService.lrange(this.recentKey(playerId), 0, -1),
+      );
+    }
+    return recent;
+  }
+
+  /**
+   * Takes both players of a pair out of the queue. Only the caller that
+   * removes both gets true; if the other player was already gone, the one
+   * removed goes back in its place.
+   */
+  async claim([first, second]: QueuePair): Promise<boolean> {
+    const firstRemoved = await this.redisService.zrem(
+      QUEUE_KEY,
+      first.player.id,
+    );
+    const secondRemoved = await this.redisService.zrem(
+      QUEUE_KEY,
+      second.player.id,
+    );
+    if (firstRemoved && secondRemoved) {
+      return true;
+    }
+
+    if (firstRemoved) {
+      await this.requeue(first);
+    } else if (secondRemoved) {
+      await this.requeue(second);
+    }
+    return false;
+  }
+
+  // Puts a claimed player back at their original place
+  async requeue(entry: QueueEntry): Promise<void> {
+    await this.saveEntry(entry);
+    await this.redisService.zadd(QUEUE_KEY, entry.joinedAt, entry.player.id);
+  }
+
+  /**
+   * Remembers a match that went ahead: each player's recent opponents and
+   * how long they waited.
+   */
+  async recordMatch(pair: QueuePair, now = Date.now()): Promise<void> {
+    const [first, second] = pair;
+    for (const [entry, opponent] of [
+      [first, second],
+      [second, first],
+    ]) {
+      const key = this.recentKey(entry.player.id);
+      await this.redisService.rpush(key, opponent.player.id);
+      await this.redisService.ltrim(key, -RECENT_OPPONENTS, -1);
+      await this.redisService.expire(key, RECENT_OPPONENTS_TTL_SECONDS);
+      await this.redisService.del(this.entryKey(entry.player.id));
+
+      const waits = this.waitsKey(entry);
+      await this.redisService.rpush(waits, String(now - entry.joinedAt));
+      await this.redisService.ltrim(waits, -WAIT_SAMPLES, -1);
+    }
+  }
+
+  async getStatus(
+    entry: QueueEntry,
+    queue: QueueEntry[],
+    now = Date.now(),
+  ): Promise<QueueStatus> {
+    const waited = now - entry.joinedAt;
+    const waits = await this.redisService.lrange(this.waitsKey(entry), 0, -1);
+    return {
+      ruleset: entry.ruleset,
+      timeControl: entry.timeControl,
+      waited,
+      eloRange: searchRange(waited),
+      estimatedWait: estimateWait(waits.map(Number), waited),
+      playersInQueue: queue.filter(
+        (other) => queuePool(other) === queuePool(entry),
+      ).length,
+    };
+  }
+
+  private async isQueued(playerId: string): Promise<boolean> {
+    return (await this.redisService.zscore(QUEUE_KEY, playerId)) !== null;
+  }
+
+  private async saveEntry(entry: QueueEntry): Promise<void> {
+    await this.redisService.set(
+      this.entryKey(entry.player.id),
+      JSON.stringify(entry),
+      ENTRY_TTL_SECONDS,
+    );
+  }
+
+  private entryKey(playerId: string): string {
+    return `matchmaking:entry:${playerId}`;
+  }
+
+  private recentKey(playerId: string): string {
+    return `matchmaking:recent:${playerId}`;
+  }
+
+  private waitsKey(entry: QueueEntry): string {
+    return `matchmaking:waits:${queuePool(entry)}`;
+  }
+}
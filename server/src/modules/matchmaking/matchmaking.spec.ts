@@ -0,0 +1,98 @@
+import {
+  DEFAULT_TIME_CONTROL,
+  Player,
+  RuleVariant,
+  TimeControl,
+} from '@shared/types/game.types';
+import {
+  estimateWait,
+  findPairs,
+  QueueEntry,
+  REMATCH_WAIT_MS,
+  searchRange,
+} from './matchmaking';
+
+function entry(
+  id: string,
+  elo: number,
+  joinedAt = 0,
+  ruleset: RuleVariant = 'caro',
+  timeControl: TimeControl = DEFAULT_TIME_CONTROL,
+): QueueEntry {
+  const player = { id, username: id, elo } as Player;
+  return { player, ruleset, timeControl, joinedAt };
+}
+
+function ids(pairs: [QueueEntry, QueueEntry][]): string[][] {
+  return pairs.map((pair) => pair.map((e) => e.player.id));
+}
+
+describe('searchRange', () => {
+  it('should widen with the time waited, up to a limit', () => {
+    expect(searchRange(0)).toBe(100);
+    expect(searchRange(25_000)).toBe(200);
+    expect(searchRange(60 * 60 * 1000)).toBe(600);
+  });
+});
+
+describe('findPairs', () => {
+  it('should pair the closest rated players first in, first served', () => {
+    const queue = [
+      entry('a', 1000, 0),
+      entry('b', 1090, 1),
+      entry('c', 1010, 2),
+      entry('d', 1080, 3),
+    ];
+
+    expect(ids(findPairs(queue, new Map(), 5))).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+  });
+
+  it('should keep rulesets apart', () => {
+    const queue = [entry('a', 1000), entry('b', 1000, 0, 'renju')];
+
+    expect(findPairs(queue, new Map(), 0)).toEqual([]);
+  });
+
+  it('should keep time controls apart', () => {
+    const blitz = { ...DEFAULT_TIME_CONTROL, initial: 180_000 };
+    const queue = [entry('a', 1000), entry('b', 1000, 0, 'caro', blitz)];
+
+    expect(findPairs(queue, new Map(), 0)).toEqual([]);
+  });
+
+  it('should pair a wider gap the longer someone waits', () => {
+    const queue = [entry('a', 1000, 0), entry('b', 1250, 29_000)];
+
+    expect(findPairs(queue, new Map(), 29_000)).toEqual([]);
+    expect(ids(findPairs(queue, new Map(), 30_000))).toEqual([['a', 'b']]);
+  });
+
+  it('should avoid recent opponents until both have waited', () => {
+    const queue = [entry('a', 1000, 0), entry('b', 1000, 0)];
+    const recent = new Map([['a', ['b']]]);
+
+    expect(findPairs(queue, recent, 1000)).toEqual([]);
+    expect(ids(findPairs(queue, recent, REMATCH_WAIT_MS))).toEqual([
+      ['a', 'b'],
+    ]);
+  });
+
+  it('should prefer a new opponent to a recent one', () => {
+    const queue = [entry('a', 1000), entry('b', 1000), entry('c', 1050)];
+
+    expect(ids(findPairs(queue, new Map([['a', ['b']]]), 0))).toEqual([
+      ['a', 'c'],
+    ]);
+  });
+});
+
+describe('estimateWait', () => {
+  it('should take the time waited off the average recent wait', () => {
+    expect(estimateWait([10_000, 20_000], 5000)).toBe(10_000);
+    expect(estimateWait([10_000], 30_000)).toBe(0);
+    expect(estimateWait([], 0)).toBeNull();
+  });
+});
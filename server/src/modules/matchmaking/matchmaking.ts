@@ -0,0 +1,123 @@
+import { Player, RuleVariant, TimeControl } from '@shared/types/game.types';
+
+export interface QueueEntry {
+  player: Player; // Elo as of joining the queue
+  ruleset: RuleVariant;
+  timeControl: TimeControl;
+  joinedAt: number; // epoch ms
+}
+
+export type QueuePair = [QueueEntry, QueueEntry];
+
+// ± Elo accepted on joining, widened by RANGE_STEP every RANGE_STEP_MS
+const BASE_RANGE = 100;
+const RANGE_STEP = 50;
+const RANGE_STEP_MS = 10_000;
+const MAX_RANGE = 600;
+// Recent opponents are paired again only once both have waited this long
+export const REMATCH_WAIT_MS = 60_000;
+
+/**
+ * The pool a queue entry is matched within: players only meet others who
+ * asked for the same ruleset and time control.
+ */
+export function queuePool({
+  ruleset,
+  timeControl,
+}: Pick<QueueEntry, 'ruleset' | 'timeControl'>): string {
+  const { initial, increment, byoyomiPeriods, byoyomiTime } = timeControl;
+  return `${ruleset}:${initial}+${increment}:${byoyomiPeriods}x${byoyomiTime}`;
+}
+
+export function searchRange(waited: number): number {
+  const steps = Math.floor(Math.max(waited, 0) / RANGE_STEP_MS);
+  return Math.min(BASE_RANGE + steps * RANGE_STEP, MAX_RANGE);
+}
+
+function eloGap(a: QueueEntry, b: QueueEntry): number {
+  return Math.abs(a.player.elo - b.player.elo);
+}
+
+function canPair(
+  a: QueueEntry,
+  b: QueueEntry,
+  recentOpponents: Map<string, string[]>,
+  now: number,
+): boolean {
+  if (queuePool(a) !== queuePool(b)) {
+    return false;
+  }
+
+  // The longer waiter's wider range decides, so nobody waits on a newcomer
+  const range = Math.max(
+    searchRange(now - a.joinedAt),
+    searchRange(now - b.joinedAt),
+  );
+  if (eloGap(a, b) > range) {
+    return false;
+  }
+
+  const rematch =
+    recentOpponents.get(a.player.id)?.includes(b.player.id) ||
+    recentOpponents.get(b.player.id)?.includes(a.player.id);
+  return (
+    !rematch || Math.min(now - a.joinedAt, now - b.joinedAt) >= REMATCH_WAIT_MS
+  );
+}
+
+/**
+ * Pairs queued players, longest waiting first, each with the closest
+ * rated player it can be paired with: same ruleset and time control,
+ * within the wider of their Elo ranges, and not a recent opponent unless
+ * both have waited a while.
+ */
+export function findPairs(
+  entries: QueueEntry[],
+  recentOpponents: Map<string, string[]>,
+  now: number,
+): QueuePair[] {
+  const waiting = [...entries].sort((a, b) => a.joinedAt - b.joinedAt);
+  const paired = new Set<string>();
+  const pairs: QueuePair[] = [];
+
+  for (const entry of waiting) {
+    if (paired.has(entry.player.id)) {
+      continue;
+    }
+
+    let best: QueueEntry | null = null;
+    for (const other of waiting) {
+      if (
+        other !== entry &&
+        !paired.has(other.player.id) &&
+        canPair(entry, other, recentOpponents, now) &&
+        (!best || eloGap(entry, other) < eloGap(entry, best))
+      ) {
+        best = other;
+      }
+    }
+
+    if (best) {
+      paired.add(entry.player.id);
+      paired.add(best.player.id);
+      pairs.push([entry, best]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Time still to wait, from how long recent matches took: the average
+ * wait less the time already waited. Null without recent matches.
+ */
+export function estimateWait(
+  recentWaits: number[],
+  waited: number,
+): number | null {
+  if (!recentWaits.length) {
+    return null;
+  }
+  const average =
+    recentWaits.reduce((total, wait) => total + wait, 0) / recentWaits.length;
+  return Math.max(Math.round(average - waited), 0);
+}
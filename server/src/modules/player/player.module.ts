@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PlayerEntity } from '../../entities/player.entity';
+import { PlayerService } from './player.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PlayerEntity])],
+  providers: [PlayerService],
+  exports: [PlayerService],
+})
+export class PlayerModule {}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Player } from '@shared/types/game.types';
+import { PlayerEntity } from '../../entities/player.entity';
+import { isProvisional } from '../rating/elo';
+
+@Injectable()
+export class PlayerService {
+  constructor(
+    @InjectRepository(PlayerEntity)
+    private readonly playerRepository: Repository<PlayerEntity>,
+  ) {}
+
+  async findById(id: string): Promise<PlayerEntity | null> {
+    return this.playerRepository.findOne({ where: { id } });
+  }
+
+  async findByUsername(username: string): Promise<PlayerEntity | null> {
+    return this.playerRepository.findOne({ where: { username } });
+  }
+
+  /**
+   * Loads the player together with the password hash, which is excluded
+   * from every other query.
+   */
+  async findByUsernameWithPassword(
+    username: string,
+  ): Promise<PlayerEntity | null> {
+    return this.playerRepository
+      .createQueryBuilder('player')
+      .addSelect('player.passwordHash')
+      .where('player.username = :username', { username })
+      .getOne();
+  }
+
+  async create(username: string, passwordHash: string): Promise<PlayerEntity> {
+    const player = this.playerRepository.create({ username, passwordHash });
+    return this.playerRepository.save(player);
+  }
+
+  async setOnline(id: string, isOnline: boolean): Promise<void> {
+    await this.playerRepository.update({ id }, { isOnline });
+  }
+
+  toPlayer(entity: PlayerEntity): Player {
+    return {
+      id: entity.id,
+      username: entity.username,
+      elo: entity.elo,
+      wins: entity.wins,
+      losses: entity.losses,
+      draws: entity.draws,
+      isProvisional: isProvisional(entity.wins + entity.losses + entity.draws),
+      isOnline: entity.isOnline,
+      isBot: entity.isBot,
+      createdAt: entity.createdAt,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { GetPlayerRankRequest } from '@shared/types/game.types';
+import type { RankingSort } from '@shared/types/game.types';
+import { RANKING_SORTS } from './get-rankings.dto';
+
+export class GetPlayerRankDto implements GetPlayerRankRequest {
+  @IsOptional()
+  @IsIn(RANKING_SORTS)
+  sortBy?: RankingSort;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(25)
+  radius?: number;
+}
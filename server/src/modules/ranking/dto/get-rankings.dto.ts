@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { GetRankingsRequest } from '@shared/types/game.types';
+import type { RankingSort } from '@shared/types/game.types';
+
+export const RANKING_SORTS: RankingSort[] = ['elo', 'winRate', 'totalGames'];
+
+export class GetRankingsDto implements GetRankingsRequest {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsIn(RANKING_SORTS)
+  sortBy?: RankingSort;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+}
@@ -0,0 +1,33 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  GetPlayerRankResponse,
+  GetRankingsResponse,
+} from '@shared/types/game.types';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { GetPlayerRankDto } from './dto/get-player-rank.dto';
+import { GetRankingsDto } from './dto/get-rankings.dto';
+import { RankingService } from './ranking.service';
+
+@Controller('rankings')
+export class RankingController {
+  constructor(private readonly rankingService: RankingService) {}
+
+  @Get()
+  async findAll(@Query() query: GetRankingsDto): Promise<GetRankingsResponse> {
+    return { success: true, data: await this.rankingService.list(query) };
+  }
+
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  async findMine(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: GetPlayerRankDto,
+  ): Promise<GetPlayerRankResponse> {
+    return {
+      success: true,
+      data: await this.rankingService.position(user.id, query),
+    };
+  }
+}
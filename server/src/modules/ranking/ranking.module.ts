@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PlayerEntity } from '../../entities/player.entity';
+import { PlayerModule } from '../player/player.module';
+import { RankingController } from './ranking.controller';
+import { RankingService } from './ranking.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PlayerEntity]), PlayerModule],
+  controllers: [RankingController],
+  providers: [RankingService],
+  exports: [RankingService],
+})
+export class RankingModule {}
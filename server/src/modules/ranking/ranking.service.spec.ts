@@ -0,0 +1,165 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindManyOptions, FindOperator } from 'typeorm';
+import { GAME_CONFIG } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { PlayerEntity } from '../../entities/player.entity';
+import { PlayerService } from '../player/player.service';
+import { RankingService } from './ranking.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+function makeEntity(
+  id: string,
+  elo: number,
+  wins: number,
+  losses = 0,
+  draws = 0,
+): PlayerEntity {
+  return {
+    id,
+    username: id,
+    passwordHash: '',
+    elo,
+    wins,
+    losses,
+    draws,
+    isOnline: false,
+    isBot: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('RankingService', () => {
+  let rankingService: RankingService;
+  let redisService: RedisService;
+  let players: PlayerEntity[];
+
+  // Answers the two queries the service makes: batches ordered by id and
+  // lookups by a list of ids
+  const find = jest.fn((options: FindManyOptions<PlayerEntity>) => {
+    const where = options.where as { id?: FindOperator<string[]> } | undefined;
+    if (where?.id) {
+      const ids = where.id.value;
+      return Promise.resolve(players.filter(({ id }) => ids.includes(id)));
+    }
+    const sorted = [...players].sort((a, b) => a.id.localeCompare(b.id));
+    const skip = options.skip ?? 0;
+    return Promise.resolve(sorted.slice(skip, skip + (options.take ?? 0)));
+  });
+
+  beforeEach(async () => {
+    const min = GAME_CONFIG.RANKING_MIN_GAMES_FOR_WIN_RATE;
+    players = [
+      makeEntity('alice', 1200, min, min),
+      makeEntity('bob', 1100, min + 5),
+      makeEntity('carol', 1300, 3, 1),
+      makeEntity('dave', 1000, 0),
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RankingService,
+        PlayerService,
+        RedisService,
+        { provide: getRepositoryToken(PlayerEntity), useValue: { find } },
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    rankingService = module.get(RankingService);
+    await rankingService.rebuild();
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+  });
+
+  it('should rank players who have played by elo', async () => {
+    const page = await rankingService.list();
+
+    expect(page.total).toBe(3);
+    expect(page.rankings.map(({ rank, player }) => [rank, player.id])).toEqual([
+      [1, 'carol'],
+      [2, 'alice'],
+      [3, 'bob'],
+    ]);
+  });
+
+  it('should require a minimum number of games to rank by win rate', async () => {
+    const page = await rankingService.list({ sortBy: 'winRate' });
+
+    expect(page.rankings.map(({ player }) => player.id)).toEqual([
+      'bob',
+      'alice',
+    ]);
+    expect(page.rankings[1].winRate).toBe(0.5);
+  });
+
+  it('should keep leaderboard ranks when paging in ascending order', async () => {
+    const page = await rankingService.list({ order: 'asc', page: 2, limit: 2 });
+
+    expect(page.rankings).toHaveLength(1);
+    expect(page.rankings[0]).toMatchObject({ rank: 1, totalGames: 4 });
+    expect(page.rankings[0].player.id).toBe('carol');
+  });
+
+  it('should move players incrementally after a game', async () => {
+    await rankingService.update({ ...players[3], elo: 1400, wins: 1 });
+
+    const page = await rankingService.list({ limit: 1 });
+    expect(page.total).toBe(4);
+    expect(page.rankings[0].player.id).toBe('dave');
+  });
+
+  it("should return a player's rank with their neighbours", async () => {
+    const position = await rankingService.position('alice', { radius: 1 });
+
+    expect(position).toMatchObject({ sortBy: 'elo', rank: 2, total: 3 });
+    expect(position.neighbours.map(({ rank }) => rank)).toEqual([1, 2, 3]);
+  });
+
+  it('should report unranked players without a rank', async () => {
+    const position = await rankingService.position('dave');
+
+    expect(position.rank).toBeNull();
+    expect(position.neighbours).toEqual([]);
+  });
+
+  it('should rebuild the leaderboards from the database', async () => {
+    await redisService.getClient().flushall();
+    players.push(makeEntity('erin', 1500, 1));
+
+    await rankingService.rebuild();
+
+    const page = await rankingService.list({ limit: 1 });
+    expect(page.total).toBe(4);
+    expect(page.rankings[0].player.id).toBe('erin');
+  });
+
+  it('should keep a game rated while the leaderboards are rebuilt', async () => {
+    const zaddMany = jest
+      .spyOn(redisService, 'zaddMany')
+      .mockImplementationOnce(async (key, members) => {
+        zaddMany.mockRestore();
+        // Dave's first game is rated after the rebuild has read him
+        players[3] = { ...players[3], elo: 1400, wins: 1 };
+        await rankingService.update(players[3]);
+        return redisService.zaddMany(key, members);
+      });
+
+    await rankingService.rebuild();
+
+    const page = await rankingService.list({ limit: 1 });
+    expect(page.total).toBe(4);
+    expect(page.rankings[0].player.id).toBe('dave');
+  });
+});
@@ -0,0 +1,263 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  GAME_CONFIG,
+  GetPlayerRankRequest,
+  GetPlayerRankResponse,
+  GetRankingsRequest,
+  GetRankingsResponse,
+  RankingEntry,
+  RankingSort,
+} from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { PlayerEntity } from '../../entities/player.entity';
+import { PlayerService } from '../player/player.service';
+import { RANKING_SORTS } from './dto/get-rankings.dto';
+
+export type RankedStats = Pick<
+  PlayerEntity,
+  'id' | 'elo' | 'wins' | 'losses' | 'draws'
+>;
+
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_RADIUS = 5;
+const REBUILD_BATCH_SIZE = 1000;
+const REBUILD_MARKER_TTL_SECONDS = 300;
+const REBUILDING_KEY = 'rankings:rebuilding';
+const REBUILD_UPDATED_KEY = 'rankings:rebuild:updated';
+const RANKED_COLUMNS: (keyof RankedStats)[] = [
+  'id',
+  'elo',
+  'wins',
+  'losses',
+  'draws',
+];
+
+function rankingKey(sortBy: RankingSort): string {
+  return `rankings:${sortBy}`;
+}
+
+function totalGames(stats: RankedStats): number {
+  return stats.wins + stats.losses + stats.draws;
+}
+
+function winRate(stats: RankedStats): number {
+  const total = totalGames(stats);
+  return total === 0 ? 0 : stats.wins / total;
+}
+
+/**
+ * Leaderboards kept as one Redis sorted set per sort order, updated as games
+ * are rated. Postgres stays the source of truth: the sets are rebuilt from
+ * the players table at startup if Redis has lost them. Only players with a
+ * finished game are ranked, and win rate needs RANKING_MIN_GAMES_FOR_WIN_RATE
+ * games.
+ */
+@Injectable()
+export class RankingService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RankingService.name);
+
+  constructor(
+    @InjectRepository(PlayerEntity)
+    private readonly playerRepository: Repository<PlayerEntity>,
+    private readonly playerService: PlayerService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    try {
+      if ((await this.redisService.zcard(rankingKey('elo'))) === 0) {
+        await this.rebuild();
+      }
+    } catch (error) {
+      this.logger.error('Failed to rebuild rankings', error);
+    }
+  }
+
+  /**
+   * Re-reads every player from Postgres into fresh sorted sets and swaps
+   * them in, so readers never see a partially built leaderboard. Players
+   * updated while the rebuild runs may have been read before their game was
+   * rated, so they are read again once the sets are swapped in.
+   */
+  async rebuild(): Promise<void> {
+    await this.redisService.set(
+      REBUILDING_KEY,
+      '1',
+      REBUILD_MARKER_TTL_SECONDS,
+    );
+    await this.redisService.del(REBUILD_UPDATED_KEY);
+
+    const entries = new Map<RankingSort, [number, string][]>(
+      RANKING_SORTS.map((sortBy) => [sortBy, []]),
+    );
+
+    for (let skip = 0; ; skip += REBUILD_BATCH_SIZE) {
+      const players = await this.playerRepository.find({
+        select: RANKED_COLUMNS,
+        order: { id: 'ASC' },
+        skip,
+        take: REBUILD_BATCH_SIZE,
+      });
+      for (const player of players) {
+        for (const [sortBy, score] of this.scores(player)) {
+          entries.get(sortBy)!.push([score, player.id]);
+        }
+      }
+      if (players.length < REBUILD_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    for (const [sortBy, members] of entries) {
+      const key = rankingKey(sortBy);
+      if (members.length === 0) {
+        await this.redisService.del(key);
+        continue;
+      }
+      const staging = `${key}:rebuild`;
+      await this.redisService.del(staging);
+      await this.redisService.zaddMany(staging, members);
+      await this.redisService.rename(staging, key);
+    }
+    await this.reapplyUpdates();
+
+    this.logger.log(
+      `Rebuilt rankings for ${entries.get('elo')!.length} players`,
+    );
+  }
+
+  /** Moves a player to their new position after a rated game. */
+  async update(stats: RankedStats): Promise<void> {
+    if (await this.redisService.exists(REBUILDING_KEY)) {
+      await this.redisService.sadd(REBUILD_UPDATED_KEY, stats.id);
+    }
+    const scores = new Map(this.scores(stats));
+    for (const sortBy of RANKING_SORTS) {
+      const score = scores.get(sortBy);
+      if (score === undefined) {
+        await this.redisService.zrem(rankingKey(sortBy), stats.id);
+      } else {
+        await this.redisService.zadd(rankingKey(sortBy), score, stats.id);
+      }
+    }
+  }
+
+  async list(
+    query: GetRankingsRequest = {},
+  ): Promise<GetRankingsResponse['data']> {
+    const sortBy = query.sortBy ?? 'elo';
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const key = rankingKey(sortBy);
+
+    const total = await this.redisService.zcard(key);
+    const start = (page - 1) * limit;
+    const stop = start + limit - 1;
+
+    if (query.order === 'asc') {
+      const ids = await this.redisService.zrange(key, start, stop);
+      const rankings = await this.toEntries(
+        ids,
+        (offset) => total - (start + offset),
+      );
+      return { rankings, total, page, limit };
+    }
+
+    const ids = await this.redisService.zrevrange(key, start, stop);
+    const rankings = await this.toEntries(ids, (offset) => start + offset + 1);
+    return { rankings, total, page, limit };
+  }
+
+  /** The player's rank together with the players just above and below. */
+  async position(
+    playerId: string,
+    query: GetPlayerRankRequest = {},
+  ): Promise<GetPlayerRankResponse['data']> {
+    const sortBy = query.sortBy ?? 'elo';
+    const radius = query.radius ?? DEFAULT_RADIUS;
+    const key = rankingKey(sortBy);
+
+    const total = await this.redisService.zcard(key);
+    const index = await this.redisService.zrevrank(key, playerId);
+    if (index === null) {
+      return { sortBy, rank: null, total, neighbours: [] };
+    }
+
+    const start = Math.max(0, index - radius);
+    const ids = await this.redisService.zrevrange(key, start, index + radius);
+    const neighbours = await this.toEntries(
+      ids,
+      (offset) => start + offset + 1,
+    );
+    return { sortBy, rank: index + 1, total, neighbours };
+  }
+
+  /** Ranks the players updated during a rebuild from their stored stats. */
+  private async reapplyUpdates(): Promise<void> {
+    await this.redisService.del(REBUILDING_KEY);
+    const ids = await this.redisService.smembers(REBUILD_UPDATED_KEY);
+    await this.redisService.del(REBUILD_UPDATED_KEY);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const players = await this.playerRepository.find({
+      select: RANKED_COLUMNS,
+      where: { id: In(ids) },
+    });
+    for (const player of players) {
+      await this.update(player);
+    }
+  }
+
+  private scores(stats: RankedStats): [RankingSort, number][] {
+    const games = totalGames(stats);
+    if (games === 0) {
+      return [];
+    }
+
+    const scores: [RankingSort, number][] = [
+      ['elo', stats.elo],
+      ['totalGames', games],
+    ];
+    if (games >= GAME_CONFIG.RANKING_MIN_GAMES_FOR_WIN_RATE) {
+      scores.push(['winRate', winRate(stats)]);
+    }
+    return scores;
+  }
+
+  /**
+   * Loads the players behind a slice of a sorted set, keeping its order;
+   * `rankOf` maps an offset within the slice to the player's rank.
+   */
+  private async toEntries(
+    ids: string[],
+    rankOf: (index: number) => number,
+  ): Promise<RankingEntry[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const players = await this.playerRepository.find({
+      where: { id: In(ids) },
+    });
+    const byId = new Map(players.map((player) => [player.id, player]));
+
+    return ids.flatMap((id, offset) => {
+      const player = byId.get(id);
+      if (!player) {
+        return [];
+      }
+      return [
+        {
+          rank: rankOf(offset),
+          player: this.playerService.toPlayer(player),
+          totalGames: totalGames(player),
+          winRate: winRate(player),
+        },
+      ];
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { GAME_CONFIG } from '@shared/types/game.types';
+import { expectedScore, isProvisional, kFactor, ratingChange } from './elo';
+
+describe('elo', () => {
+  const established = { elo: 1000, gamesPlayed: 50 };
+
+  it('should expect an even score between equal ratings', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+  });
+
+  it('should favour the higher rated player', () => {
+    expect(expectedScore(1600, 1200)).toBeCloseTo(0.909, 3);
+    expect(expectedScore(1200, 1600)).toBeCloseTo(0.091, 3);
+  });
+
+  it('should lower the K-factor as players gain experience', () => {
+    expect(kFactor(0)).toBe(GAME_CONFIG.ELO_K_FACTOR_PROVISIONAL);
+    expect(kFactor(GAME_CONFIG.ELO_PROVISIONAL_GAMES)).toBe(
+      GAME_CONFIG.ELO_K_FACTOR,
+    );
+    expect(kFactor(GAME_CONFIG.ELO_EXPERIENCED_GAMES)).toBe(
+      GAME_CONFIG.ELO_K_FACTOR_EXPERIENCED,
+    );
+  });
+
+  it('should mark players provisional for their first games', () => {
+    expect(isProvisional(GAME_CONFIG.ELO_PROVISIONAL_GAMES - 1)).toBe(true);
+    expect(isProvisional(GAME_CONFIG.ELO_PROVISIONAL_GAMES)).toBe(false);
+  });
+
+  it('should reward an upset more than an expected win', () => {
+    const strong = { elo: 1400, gamesPlayed: 50 };
+
+    expect(ratingChange(established, strong, 'win')).toBe(18);
+    expect(ratingChange(strong, established, 'win')).toBe(2);
+    expect(ratingChange(established, strong, 'loss')).toBe(-2);
+  });
+
+  it('should move ratings towards each other on a draw', () => {
+    const strong = { elo: 1400, gamesPlayed: 50 };
+
+    expect(ratingChange(established, strong, 'draw')).toBe(8);
+    expect(ratingChange(strong, established, 'draw')).toBe(-8);
+    expect(ratingChange(established, established, 'draw')).toBe(0);
+  });
+
+  it('should move provisional ratings faster', () => {
+    const newcomer = { elo: 1000, gamesPlayed: 0 };
+    expect(ratingChange(newcomer, established, 'win')).toBe(20);
+    expect(ratingChange(established, newcomer, 'win')).toBe(10);
+  });
+
+  it('should not drop a rating below the floor', () => {
+    const bottom = { elo: GAME_CONFIG.ELO_FLOOR + 3, gamesPlayed: 0 };
+    expect(ratingChange(bottom, bottom, 'loss')).toBe(-3);
+  });
+});
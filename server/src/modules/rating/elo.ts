@@ -0,0 +1,44 @@
+import { GAME_CONFIG, GameResult } from '@shared/types/game.types';
+
+export interface RatedPlayer {
+  elo: number;
+  gamesPlayed: number;
+}
+
+const SCORES: Record<GameResult, number> = { win: 1, draw: 0.5, loss: 0 };
+
+/** Probability-like score a player is expected to take against an opponent. */
+export function expectedScore(elo: number, opponentElo: number): number {
+  return 1 / (1 + Math.pow(10, (opponentElo - elo) / 400));
+}
+
+export function isProvisional(gamesPlayed: number): boolean {
+  return gamesPlayed < GAME_CONFIG.ELO_PROVISIONAL_GAMES;
+}
+
+/**
+ * New players move fast so their rating settles quickly; experienced
+ * players move slowly.
+ */
+export function kFactor(gamesPlayed: number): number {
+  if (isProvisional(gamesPlayed)) {
+    return GAME_CONFIG.ELO_K_FACTOR_PROVISIONAL;
+  }
+  if (gamesPlayed < GAME_CONFIG.ELO_EXPERIENCED_GAMES) {
+    return GAME_CONFIG.ELO_K_FACTOR;
+  }
+  return GAME_CONFIG.ELO_K_FACTOR_EXPERIENCED;
+}
+
+/** Rating change for `player` after a game with the given result. */
+export function ratingChange(
+  player: RatedPlayer,
+  opponent: RatedPlayer,
+  result: GameResult,
+): number {
+  const expected = expectedScore(player.elo, opponent.elo);
+  const change = Math.round(
+    kFactor(player.gamesPlayed) * (SCORES[result] - expected),
+  );
+  return Math.max(change, GAME_CONFIG.ELO_FLOOR - player.elo);
+}
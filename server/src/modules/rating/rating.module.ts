@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EloHistoryEntity } from '../../entities/elo-history.entity';
+import { PlayerEntity } from '../../entities/player.entity';
+import { RankingModule } from '../ranking/ranking.module';
+import { RatingService } from './rating.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PlayerEntity, EloHistoryEntity]),
+    RankingModule,
+  ],
+  providers: [RatingService],
+  exports: [RatingService],
+})
+export class RatingModule {}
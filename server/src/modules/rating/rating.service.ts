@@ -0,0 +1,135 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EntityManager, In } from 'typeorm';
+import {
+  GameOverPayload,
+  GameResult,
+  PlayerSymbol,
+} from '@shared/types/game.types';
+import { EloHistoryEntity } from '../../entities/elo-history.entity';
+import { PlayerEntity } from '../../entities/player.entity';
+import { RankedStats, RankingService } from '../ranking/ranking.service';
+import { RatedPlayer, ratingChange } from './elo';
+
+export interface GameResultEntry {
+  playerId: string;
+  symbol: PlayerSymbol;
+  result: GameResult;
+}
+
+export interface RatingOutcome {
+  eloChanges: GameOverPayload['eloChanges'];
+  // Players as they stand after the game, for the leaderboards
+  players: RankedStats[];
+}
+
+const RESULT_COUNTERS = {
+  win: 'wins',
+  draw: 'draws',
+  loss: 'losses',
+} as const satisfies Record<GameResult, keyof PlayerEntity>;
+
+@Injectable()
+export class RatingService {
+  private readonly logger = new Logger(RatingService.name);
+
+  constructor(private readonly rankingService: RankingService) {}
+
+  /**
+   * Rates a finished two-player game and records an EloHistory entry per
+   * player, inside the caller's transaction. Both player rows stay locked
+   * until it commits, so two games finishing at once are applied one after
+   * the other; a game can only be rated once.
+   */
+  async rateGame(
+    manager: EntityManager,
+    gameId: string,
+    results: GameResultEntry[],
+    moveCount: number,
+  ): Promise<RatingOutcome> {
+    if (results.length !== 2) {
+      throw new Error(`Game ${gameId} needs two players to be rated`);
+    }
+
+    // Lock in id order so concurrent games cannot deadlock
+    const players = await manager.find(PlayerEntity, {
+      where: { id: In(results.map((entry) => entry.playerId)) },
+      order: { id: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const byId = new Map(players.map((player) => [player.id, player]));
+
+    const eloChanges: GameOverPayload['eloChanges'] = {};
+    const history: EloHistoryEntity[] = [];
+
+    for (const [index, { playerId, symbol, result }] of results.entries()) {
+      const player = byId.get(playerId);
+      const opponent = byId.get(results[1 - index].playerId);
+      if (!player || !opponent) {
+        throw new Error(`Player ${playerId} of game ${gameId} not found`);
+      }
+
+      const change = ratingChange(
+        this.toRated(player),
+        this.toRated(opponent),
+        result,
+      );
+      eloChanges[playerId] = {
+        previous: player.elo,
+        new: player.elo + change,
+        change,
+      };
+      history.push(
+        manager.create(EloHistoryEntity, {
+          playerId,
+          gameId,
+          opponentId: opponent.id,
+          opponentElo: opponent.elo,
+          previousElo: player.elo,
+          newElo: player.elo + change,
+          change,
+          result,
+          symbol,
+          moveCount,
+        }),
+      );
+    }
+
+    const updated: RankedStats[] = [];
+    for (const { playerId, result } of results) {
+      const counter = RESULT_COUNTERS[result];
+      const player = byId.get(playerId)!;
+      const changes = {
+        elo: eloChanges[playerId].new,
+        [counter]: player[counter] + 1,
+      };
+      await manager.update(PlayerEntity, { id: playerId }, changes);
+      updated.push({ ...player, ...changes });
+    }
+    await manager.save(history);
+
+    this.logger.log(`Rated game ${gameId}`);
+    return { eloChanges, players: updated };
+  }
+
+  /**
+   * Call once the rating has committed. The leaderboards are derived data;
+   * a failed update is logged and left for the next rebuild rather than
+   * failing an already rated game.
+   */
+  async updateRankings(players: RankedStats[]): Promise<void> {
+    try {
+      for (const player of players) {
+        await this.rankingService.update(player);
+      }
+    } catch (error) {
+      this.logger.error('Failed to update rankings', error);
+    }
+  }
+
+  private toRated(player: PlayerEntity): RatedPlayer {
+    return {
+      elo: player.elo,
+      gamesPlayed: player.wins + player.losses + player.draws,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ImportGameRecordRequest } from '@shared/types/game.types';
+
+export class ImportGameRecordDto implements ImportGameRecordRequest {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100_000)
+  record: string;
+}
@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import type {
+  GetGameReplayResponse,
+  ImportGameRecordResponse,
+} from '@shared/types/game.types';
+import { GameExceptionFilter } from '../../common/filters/game-exception.filter';
+import { ImportGameRecordDto } from './dto/import-game-record.dto';
+import { RecordService } from './record.service';
+
+@Controller('games')
+@UseFilters(new GameExceptionFilter())
+export class RecordController {
+  constructor(private readonly recordService: RecordService) {}
+
+  @Get(':id/record')
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  async download(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<string> {
+    const record = await this.recordService.exportRecord(id);
+    response.setHeader(
+      'Content-Disposition',
+      `attachment; filename="caro-${id}.txt"`,
+    );
+    return record;
+  }
+
+  @Get(':id/replay')
+  async getReplay(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<GetGameReplayResponse> {
+    return { success: true, data: await this.recordService.findReplay(id) };
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  importRecord(@Body() dto: ImportGameRecordDto): ImportGameRecordResponse {
+    return { success: true, data: this.recordService.importRecord(dto.record) };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { GameEntity } from '../../entities/game.entity';
+import { RecordController } from './record.controller';
+import { RecordService } from './record.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([GameEntity])],
+  controllers: [RecordController],
+  providers: [RecordService],
+  exports: [RecordService],
+})
+export class RecordModule {}
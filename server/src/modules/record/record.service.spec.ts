@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { DataSource } from 'typeorm';
+import { DEFAULT_TIME_CONTROL } from '@shared/types/game.types';
+import { GameParticipantEntity } from '../../entities/game-participant.entity';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+import { PlayerEntity } from '../../entities/player.entity';
+import { createTestDataSource } from '../../testing/test-data-source';
+import { RecordService } from './record.service';
+
+describe('RecordService', () => {
+  let dataSource: DataSource;
+  let recordService: RecordService;
+  const gameId = randomUUID();
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecordService,
+        {
+          provide: getRepositoryToken(GameEntity),
+          useValue: dataSource.getRepository(GameEntity),
+        },
+      ],
+    }).compile();
+    recordService = module.get(RecordService);
+
+    const [alice, bob] = await dataSource.getRepository(PlayerEntity).save(
+      ['alice', 'bob'].map((username) => ({
+        username,
+        passwordHash: 'hash',
+        elo: 1000,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+      })),
+    );
+    await dataSource.getRepository(GameEntity).insert({
+      id: gameId,
+      roomId: randomUUID(),
+      status: 'completed',
+      ruleset: 'caro',
+      geometry: { size: 15, winLength: 5, infinite: false },
+      timeControl: DEFAULT_TIME_CONTROL,
+      reason: 'surrender',
+      winnerId: bob.id,
+      winningLine: null,
+      moveCount: 2,
+      startedAt: new Date('2026-01-01T10:00:00.000Z'),
+      endedAt: new Date('2026-01-01T10:01:00.000Z'),
+    });
+    await dataSource.getRepository(GameParticipantEntity).insert([
+      {
+        gameId,
+        playerId: alice.id,
+        symbol: 'X',
+        result: 'loss',
+        eloBefore: 1000,
+        eloAfter: 980,
+      },
+      {
+        gameId,
+        playerId: bob.id,
+        symbol: 'O',
+        result: 'win',
+        eloBefore: 1000,
+        eloAfter: 1020,
+      },
+    ]);
+    await dataSource.getRepository(MoveEntity).insert(
+      [
+        { row: 7, col: 7, playedAt: '2026-01-01T10:00:10.000Z' },
+        { row: 6, col: 8, playedAt: '2026-01-01T10:00:14.500Z' },
+      ].map(({ playedAt, ...position }, index) => ({
+        gameId,
+        moveNumber: index + 1,
+        symbol: index % 2 === 0 ? 'X' : 'O',
+        ...position,
+        playedAt: new Date(playedAt),
+        timeRemaining: index === 0 ? null : 25500,
+      })),
+    );
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should export an archived game', async () => {
+    const text = await recordService.exportRecord(gameId);
+
+    expect(text).toContain('[X "alice"]');
+    expect(text).toContain('[OElo "1000"]');
+    expect(text).toContain('[Result "0-1"]');
+    expect(text).toContain('[Termination "surrender"]');
+    expect(text).toContain('1. h8 i9 0-1');
+  });
+
+  it('should replay an archived game move by move', async () => {
+    const replay = await recordService.findReplay(gameId);
+
+    expect(replay).toMatchObject({
+      gameId,
+      winner: 'O',
+      reason: 'surrender',
+      winningLine: null,
+      // Archived before time controls existed
+      timeControl: DEFAULT_TIME_CONTROL,
+    });
+    expect(replay.players.map((player) => player.symbol)).toEqual(['X', 'O']);
+    expect(replay.players[1]).toMatchObject({
+      username: 'bob',
+      result: 'win',
+      eloAfter: 1020,
+    });
+    expect(replay.moves).toEqual([
+      expect.objectContaining({
+        moveNumber: 1,
+        position: { row: 7, col: 7 },
+        elapsed: 10000,
+        timeRemaining: undefined,
+      }),
+      expect.objectContaining({
+        moveNumber: 2,
+        player: 'O',
+        elapsed: 4500,
+        timeRemaining: 25500,
+      }),
+    ]);
+  });
+
+  it('should serve the analysis with the replay', async () => {
+    expect((await recordService.findReplay(gameId)).analysis).toBeNull();
+
+    await dataSource
+      .getRepository(GameEntity)
+      .update({ id: gameId }, { analysis: 'complete' });
+    await dataSource.getRepository(MoveEntity).update(
+      { gameId, moveNumber: 2 },
+      {
+        evaluation: 350,
+        quality: 'blunder',
+        bestRow: 6,
+        bestCol: 6,
+        missedWin: null,
+        allowedWin: 'four-three',
+      },
+    );
+
+    const replay = await recordService.findReplay(gameId);
+    expect(replay.analysis).toBe('complete');
+    expect(replay.moves[0].annotation).toBeUndefined();
+    expect(replay.moves[1].annotation).toEqual({
+      evaluation: 350,
+      quality: 'blunder',
+      bestMove: { row: 6, col: 6 },
+      missedWin: null,
+      allowedWin: 'four-three',
+    });
+  });
+
+  it('should report games that were never archived', async () => {
+    await expect(
+      recordService.exportRecord(randomUUID()),
+    ).rejects.toMatchObject({ code: 'GAME_NOT_FOUND' });
+  });
+
+  it('should import the records it exports', async () => {
+    const text = await recordService.exportRecord(gameId);
+
+    const { record, winningLine } = recordService.importRecord(text);
+    expect(record).toMatchObject({ gameId, winner: 'O', reason: 'surrender' });
+    expect(record.moves).toHaveLength(2);
+    expect(winningLine).toBeNull();
+  });
+
+  it('should reject records the rules engine does not accept', () => {
+    const importError = (text: string): unknown => {
+      try {
+        recordService.importRecord(text);
+      } catch (error) {
+        return error;
+      }
+    };
+
+    expect(importError('[Size "15"]\n\n1. h8 h8 *')).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { moveNumber: 2 },
+    });
+    expect(importError('[Size "x"]\n\n*')).toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+  });
+});
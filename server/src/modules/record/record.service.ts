@@ -0,0 +1,171 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  GameRecord,
+  GameRecordPlayer,
+  GameReplay,
+  ImportGameRecordResponse,
+  MoveAnnotation,
+  PlayerSymbol,
+} from '@shared/types/game.types';
+import {
+  NotationError,
+  exportRecord,
+  parseRecord,
+  validateRecord,
+} from '@shared/types/game.notation';
+import { GameException } from '../../common/exceptions/game.exception';
+import { GameEntity } from '../../entities/game.entity';
+import { MoveEntity } from '../../entities/move.entity';
+
+/**
+ * Archived games as records in the text notation of
+ * shared/types/game.notation.ts, and as move-by-move replays.
+ */
+@Injectable()
+export class RecordService {
+  constructor(
+    @InjectRepository(GameEntity)
+    private readonly gameRepository: Repository<GameEntity>,
+  ) {}
+
+  /** Builds the record of an archived game. */
+  async findRecord(gameId: string): Promise<GameRecord> {
+    const game = await this.loadGame(gameId);
+
+    const seat = (symbol: PlayerSymbol): GameRecordPlayer => {
+      const participant = game.participants.find(
+        (entry) => entry.symbol === symbol,
+      );
+      return {
+        username: participant?.player.username ?? '?',
+        elo: participant?.eloBefore ?? null,
+      };
+    };
+
+    return {
+      gameId: game.id,
+      players: { X: seat('X'), O: seat('O') },
+      ruleset: game.ruleset,
+      geometry: game.geometry,
+      winner:
+        game.participants.find((entry) => entry.result === 'win')?.symbol ??
+        null,
+      isFinished: true,
+      reason: game.reason,
+      startedAt: game.startedAt,
+      endedAt: game.endedAt,
+      moves: game.moves.map((move) => ({
+        position: { row: move.row, col: move.col },
+        player: move.symbol,
+        timestamp: move.playedAt.getTime(),
+      })),
+    };
+  }
+
+  /**
+   * Builds the replay of an archived game: its moves in order with when each
+   * was played, how long the mover took and what was left on their clock,
+   * and the engine's annotation once the game has been analysed.
+   */
+  async findReplay(gameId: string): Promise<GameReplay> {
+    const game = await this.loadGame(gameId);
+
+    return {
+      gameId: game.id,
+      ruleset: game.ruleset,
+      geometry: game.geometry,
+      // X first, as it moved first
+      players: [...game.participants]
+        .sort((a, b) => b.symbol.localeCompare(a.symbol))
+        .map((participant) => ({
+          id: participant.playerId,
+          username: participant.player.username,
+          symbol: participant.symbol,
+          result: participant.result,
+          eloBefore: participant.eloBefore,
+          eloAfter: participant.eloAfter,
+        })),
+      winner:
+        game.participants.find((entry) => entry.result === 'win')?.symbol ??
+        null,
+      reason: game.reason,
+      winningLine: game.winningLine,
+      timeControl: game.timeControl,
+      startedAt: game.startedAt,
+      endedAt: game.endedAt,
+      analysis: game.analysis,
+      moves: game.moves.map((move, index) => {
+        const previous = game.moves[index - 1]?.playedAt ?? game.startedAt;
+        return {
+          moveNumber: move.moveNumber,
+          position: { row: move.row, col: move.col },
+          player: move.symbol,
+          timestamp: move.playedAt.getTime(),
+          elapsed: Math.max(0, move.playedAt.getTime() - previous.getTime()),
+          timeRemaining: move.timeRemaining ?? undefined,
+          annotation: this.toAnnotation(move),
+        };
+      }),
+    };
+  }
+
+  async exportRecord(gameId: string): Promise<string> {
+    return exportRecord(await this.findRecord(gameId));
+  }
+
+  /**
+   * Reads a record and replays it through the rules engine; only records
+   * that are legal move by move and agree with their result are accepted.
+   */
+  importRecord(text: string): ImportGameRecordResponse['data'] {
+    let record: GameRecord;
+    try {
+      record = parseRecord(text);
+    } catch (error) {
+      if (error instanceof NotationError) {
+        throw new GameException('VALIDATION_ERROR', error.message);
+      }
+      throw error;
+    }
+
+    const validation = validateRecord(record);
+    if (!validation.isValid) {
+      throw new GameException(
+        'VALIDATION_ERROR',
+        validation.reason ?? 'Invalid game record',
+        { moveNumber: validation.moveNumber },
+      );
+    }
+    return { record, winningLine: validation.winningLine ?? null };
+  }
+
+  private toAnnotation(move: MoveEntity): MoveAnnotation | undefined {
+    if (move.evaluation === null || move.quality === null) {
+      return undefined;
+    }
+    return {
+      evaluation: move.evaluation,
+      quality: move.quality,
+      bestMove:
+        move.bestRow === null || move.bestCol === null
+          ? null
+          : { row: move.bestRow, col: move.bestCol },
+      missedWin: move.missedWin,
+      allowedWin: move.allowedWin,
+    };
+  }
+
+  private async loadGame(gameId: string): Promise<GameEntity> {
+    const game = await this.gameRepository.findOne({
+      where: { id: gameId },
+      relations: { participants: { player: true }, moves: true },
+      order: { moves: { moveNumber: 'ASC' } },
+    });
+    if (!game) {
+      throw new GameException('GAME_NOT_FOUND', 'Game not found');
+    }
+    return game;
+  }
+}
@@ -0,0 +1,73 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { RULESETS } from '@shared/types/game.rules';
+import {
+  BoardGeometry,
+  CreateRoomRequest,
+  TimeControl,
+} from '@shared/types/game.types';
+import type { BotDifficulty, RuleVariant } from '@shared/types/game.types';
+import { DIFFICULTY_PROFILES } from '../../bot/search';
+
+// Ranges are checked by validateBoardGeometry so REST and socket agree
+export class BoardGeometryDto implements BoardGeometry {
+  @IsInt()
+  size: number;
+
+  @IsInt()
+  winLength: number;
+
+  @IsBoolean()
+  infinite: boolean;
+}
+
+// Ranges are checked by validateTimeControl
+export class TimeControlDto implements TimeControl {
+  @IsInt()
+  initial: number;
+
+  @IsInt()
+  increment: number;
+
+  @IsInt()
+  byoyomiPeriods: number;
+
+  @IsInt()
+  byoyomiTime: number;
+}
+
+export class CreateRoomDto implements CreateRoomRequest {
+  @IsString()
+  @Length(1, 50)
+  name: string;
+
+  @IsOptional()
+  @IsIn(Object.keys(RULESETS))
+  ruleset?: RuleVariant;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BoardGeometryDto)
+  geometry?: BoardGeometryDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeControlDto)
+  timeControl?: TimeControlDto;
+
+  @IsOptional()
+  @IsIn(Object.keys(DIFFICULTY_PROFILES))
+  bot?: BotDifficulty;
+
+  @IsOptional()
+  @IsBoolean()
+  allowSpectators?: boolean;
+}
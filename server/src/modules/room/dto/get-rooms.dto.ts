@@ -0,0 +1,25 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { GetRoomsRequest } from '@shared/types/game.types';
+import type { Room } from '@shared/types/game.types';
+
+const ROOM_STATUSES: Room['status'][] = ['waiting', 'full', 'in_progress'];
+
+export class GetRoomsDto implements GetRoomsRequest {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsIn(ROOM_STATUSES)
+  status?: Room['status'];
+}
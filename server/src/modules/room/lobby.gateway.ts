@@ -0,0 +1,51 @@
+import { UseFilters } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Room, SocketEvent } from '@shared/types/game.types';
+import { WsExceptionFilter } from '../../common/filters/ws-exception.filter';
+import type { GameServer, GameSocket } from '../game/game-socket.types';
+import { GATEWAY_OPTIONS, LOBBY_CHANNEL } from '../game/game-socket.types';
+import { RoomService } from './room.service';
+
+/**
+ * Pushes room list changes to sockets browsing the lobby so they do not
+ * have to poll GET /api/rooms.
+ */
+@WebSocketGateway(GATEWAY_OPTIONS)
+@UseFilters(new WsExceptionFilter())
+export class LobbyGateway {
+  @WebSocketServer()
+  server: GameServer;
+
+  constructor(private readonly roomService: RoomService) {}
+
+  @SubscribeMessage(SocketEvent.SUBSCRIBE_LOBBY)
+  async handleSubscribe(@ConnectedSocket() client: GameSocket) {
+    await client.join(LOBBY_CHANNEL);
+  }
+
+  @SubscribeMessage(SocketEvent.UNSUBSCRIBE_LOBBY)
+  async handleUnsubscribe(@ConnectedSocket() client: GameSocket) {
+    await client.leave(LOBBY_CHANNEL);
+  }
+
+  roomCreated(room: Room): void {
+    this.server.to(LOBBY_CHANNEL).emit(SocketEvent.ROOM_CREATED, {
+      room: this.roomService.toListItem(room),
+    });
+  }
+
+  roomUpdated(room: Room): void {
+    this.server.to(LOBBY_CHANNEL).emit(SocketEvent.ROOM_UPDATED, {
+      room: this.roomService.toListItem(room),
+    });
+  }
+
+  roomRemoved(roomId: string): void {
+    this.server.to(LOBBY_CHANNEL).emit(SocketEvent.ROOM_REMOVED, { roomId });
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiResponse,
+  CreateRoomResponse,
+  GetRoomsResponse,
+  Room,
+} from '@shared/types/game.types';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { GameExceptionFilter } from '../../common/filters/game-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { BotService } from '../bot/bot.service';
+import { PlayerService } from '../player/player.service';
+import { CreateRoomDto } from './dto/create-room.dto';
+import { GetRoomsDto } from './dto/get-rooms.dto';
+import { LobbyGateway } from './lobby.gateway';
+import { RoomService } from './room.service';
+
+@Controller('rooms')
+@UseFilters(new GameExceptionFilter())
+export class RoomController {
+  constructor(
+    private readonly roomService: RoomService,
+    private readonly playerService: PlayerService,
+    private readonly botService: BotService,
+    private readonly lobbyGateway: LobbyGateway,
+  ) {}
+
+  @Get()
+  async findAll(@Query() query: GetRoomsDto): Promise<GetRoomsResponse> {
+    return { success: true, data: await this.roomService.list(query) };
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<ApiResponse<Room>> {
+    return { success: true, data: await this.roomService.getOrThrow(id) };
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateRoomDto,
+  ): Promise<CreateRoomResponse> {
+    const entity = await this.playerService.findById(user.id);
+    if (!entity) {
+      throw new NotFoundException('Player not found');
+    }
+
+    const room = await this.roomService.create(
+      this.playerService.toPlayer(entity),
+      dto,
+      dto.bot && (await this.botService.getBot(dto.bot)),
+    );
+    this.lobbyGateway.roomCreated(room);
+    return { success: true, data: room };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { BotModule } from '../bot/bot.module';
+import { PlayerModule } from '../player/player.module';
+import { LobbyGateway } from './lobby.gateway';
+import { RoomController } from './room.controller';
+import { RoomService } from './room.service';
+
+@Module({
+  imports: [BotModule, PlayerModule],
+  controllers: [RoomController],
+  providers: [RoomService, LobbyGateway],
+  exports: [RoomService, LobbyGateway],
+})
+export class RoomModule {}
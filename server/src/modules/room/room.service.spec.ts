@@ -0,0 +1,244 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Room } from '@shared/types/game.types';
+import { RedisService } from '../../common/services/redis.service';
+import { makePlayer } from '../../testing/test-players';
+import { RoomService } from './room.service';
+
+jest.mock('ioredis', () => jest.requireActual<object>('ioredis-mock'));
+
+describe('RoomService', () => {
+  let roomService: RoomService;
+  let redisService: RedisService;
+  const alice = makePlayer('alice');
+  const bob = makePlayer('bob');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomService,
+        RedisService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ host: 'localhost', port: 6379 }) },
+        },
+      ],
+    }).compile();
+
+    redisService = module.get(RedisService);
+    await redisService.onModuleInit();
+    await redisService.getClient().flushall();
+    roomService = module.get(RoomService);
+  });
+
+  afterEach(async () => {
+    await redisService.onApplicationShutdown();
+  });
+
+  it('should create a waiting room seating its creator', async () => {
+    const room = await roomService.create(alice, { name: ' Friendly ' });
+
+    const stored = await roomService.getOrThrow(room.id);
+    expect(stored).toMatchObject({
+      name: 'Friendly',
+      status: 'waiting',
+      ruleset: 'caro',
+      gameId: null,
+    });
+    expect(stored.players.map((player) => player.id)).toEqual(['alice']);
+    expect(stored.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject invalid board geometry', async () => {
+    await expect(
+      roomService.create(alice, {
+        name: 'Tiny',
+        geometry: { size: 5, winLength: 5, infinite: false },
+      }),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should move through waiting, full and in_progress', async () => {
+    const room = await roomService.create(alice, { name: 'Match' });
+
+    expect((await roomService.join(room.id, bob)).status).toBe('full');
+    expect((await roomService.startGame(room.id, 'game-1')).status).toBe(
+      'in_progress',
+    );
+    expect((await roomService.endGame(room.id)).status).toBe('full');
+    expect((await roomService.leave(room.id, bob.id))?.status).toBe('waiting');
+  });
+
+  it('should reject joining a full room', async () => {
+    const room = await roomService.create(alice, { name: 'Match' });
+    await roomService.join(room.id, bob);
+
+    await expect(
+      roomService.join(room.id, makePlayer('carol')),
+    ).rejects.toMatchObject({ code: 'ROOM_FULL' });
+  });
+
+  it('should keep a player in one room at a time', async () => {
+    await roomService.create(alice, { name: 'First' });
+    await expect(
+      roomService.create(alice, { name: 'Second' }),
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+  });
+
+  it('should close the room when the last player leaves', async () => {
+    const room = await roomService.create(alice, { name: 'Solo' });
+
+    expect(await roomService.leave(room.id, alice.id)).toBeNull();
+    expect(await roomService.findById(room.id)).toBeNull();
+    expect(await roomService.findByPlayer(alice.id)).toBeNull();
+    expect((await roomService.list()).total).toBe(0);
+  });
+
+  it('should paginate rooms newest first and filter by status', async () => {
+    const players = ['p1', 'p2', 'p3'].map(makePlayer);
+    for (const player of players) {
+      await roomService.create(player, { name: `Room ${player.id}` });
+      await new Promise((resolve) => setTimeout(resolve, 2));
+    }
+    const full = await roomService.list({ limit: 1 });
+    await roomService.join(full.rooms[0].id, bob);
+
+    const page = await roomService.list({ page: 2, limit: 2 });
+    expect(page.total).toBe(3);
+    expect(page.rooms.map((room) => room.name)).toEqual(['Room p1']);
+
+    const waiting = await roomService.list({ status: 'waiting' });
+    expect(waiting.total).toBe(2);
+    expect(waiting.rooms.map((room) => room.name)).toEqual([
+      'Room p2',
+      'Room p1',
+    ]);
+    const second = await roomService.list({
+      status: 'waiting',
+      page: 2,
+      limit: 1,
+    });
+    expect(second.rooms.map((room) => room.name)).toEqual(['Room p1']);
+  });
+
+  it('should file a room under its current status only', async () => {
+    const room = await roomService.create(alice, { name: 'Moving' });
+    await roomService.join(room.id, bob);
+    await roomService.startGame(room.id, 'game-1');
+
+    expect((await roomService.list({ status: 'waiting' })).total).toBe(0);
+    expect((await roomService.list({ status: 'full' })).total).toBe(0);
+    expect(
+      (await roomService.list({ status: 'in_progress' })).rooms,
+    ).toMatchObject([{ id: room.id, status: 'in_progress' }]);
+
+    await roomService.endGame(room.id);
+    await roomService.leave(room.id, bob.id);
+    expect((await roomService.list({ status: 'in_progress' })).total).toBe(0);
+    expect((await roomService.list({ status: 'waiting' })).total).toBe(1);
+  });
+
+  it('should seat a bot in any number of rooms', async () => {
+    const bot = { ...makePlayer('bot'), isBot: true };
+
+    const room = await roomService.create(alice, { name: 'Solo' }, bot);
+    await roomService.create(bob, { name: 'Practice' }, bot);
+
+    expect(room.status).toBe('full');
+    expect(room.players.map((player) => player.id)).toEqual(['alice', 'bot']);
+    expect(await roomService.findByPlayer(bot.id)).toBeNull();
+  });
+
+  it('should close a bot room when its human player leaves', async () => {
+    const bot = { ...makePlayer('bot'), isBot: true };
+    const room = await roomService.create(alice, { name: 'Solo' }, bot);
+
+    expect(await roomService.leave(room.id, alice.id)).toBeNull();
+    expect(await roomService.findById(room.id)).toBeNull();
+  });
+
+  it('should count spectators by socket', async () => {
+    const room = await roomService.create(alice, { name: 'Match' });
+
+    await roomService.addSpectator(room.id, 'socket-1', 'carol');
+    expect(
+      (await roomService.addSpectator(room.id, 'socket-2', 'carol'))
+        .spectatorCount,
+    ).toBe(2);
+    expect((await roomService.list()).rooms[0]).toMatchObject({
+      allowSpectators: true,
+      spectatorCount: 2,
+    });
+
+    expect(
+      (await roomService.removeSpectator(room.id, 'socket-1'))?.spectatorCount,
+    ).toBe(1);
+  });
+
+  it('should not let a seated player spectate', async () => {
+    const room = await roomService.create(alice, { name: 'Match' });
+
+    await expect(
+      roomService.addSpectator(room.id, 'socket-1', alice.id),
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+  });
+
+  it('should let only the owner turn spectating off', async () => {
+    const room = await roomService.create(alice, { name: 'Match' });
+    await roomService.join(room.id, bob);
+    await roomService.addSpectator(room.id, 'socket-1', 'carol');
+
+    await expect(
+      roomService.setAllowSpectators(room.id, bob.id, false),
+    ).rejects.toMatchObject({ code: 'NOT_ROOM_OWNER' });
+
+    await roomService.setAllowSpectators(room.id, alice.id, false);
+    expect(await roomService.getOrThrow(room.id)).toMatchObject({
+      allowSpectators: false,
+      spectatorCount: 0,
+    });
+    await expect(
+      roomService.addSpectator(room.id, 'socket-2', 'carol'),
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+  });
+
+  it('should not keep a spectator added while spectating is turned off', async () => {
+    const room = await roomService.create(alice, { name: 'Match' });
+    let turnedOff: Promise<Room> | undefined;
+    const sadd = jest
+      .spyOn(redisService, 'sadd')
+      .mockImplementationOnce(async (key, member) => {
+        // The owner turns spectating off while the spectator is being added
+        turnedOff = roomService.setAllowSpectators(room.id, alice.id, false);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        sadd.mockRestore();
+        return redisService.sadd(key, member);
+      });
+
+    await roomService.addSpectator(room.id, 'socket-1', 'carol');
+    await turnedOff;
+
+    expect(await roomService.getOrThrow(room.id)).toMatchObject({
+      allowSpectators: false,
+      spectatorCount: 0,
+    });
+  });
+
+  it('should create a room closed to spectators', async () => {
+    const room = await roomService.create(alice, {
+      name: 'Private',
+      allowSpectators: false,
+    });
+
+    expect((await roomService.getOrThrow(room.id)).allowSpectators).toBe(false);
+  });
+
+  it('should prune index entries of expired rooms', async () => {
+    const room = await roomService.create(alice, { name: 'Stale' });
+    await redisService.del(`room:${room.id}`);
+
+    expect((await roomService.list()).total).toBe(0);
+    expect(await redisService.zcard('rooms:index')).toBe(0);
+    expect(await redisService.zcard('rooms:index:waiting')).toBe(0);
+  });
+});
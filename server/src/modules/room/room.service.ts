@@ -0,0 +1,443 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ChainableCommander } from 'ioredis';
+import { validateTimeControl } from '@shared/types/game.clock';
+import { validateBoardGeometry } from '@shared/types/game.engine';
+import { DEFAULT_RULE_VARIANT } from '@shared/types/game.rules';
+import {
+  CreateRoomRequest,
+  DEFAULT_BOARD_GEOMETRY,
+  DEFAULT_TIME_CONTROL,
+  GetRoomsRequest,
+  GetRoomsResponse,
+  isRuleVariant,
+  Player,
+  Room,
+  RoomListItem,
+} from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { RedisService } from '../../common/services/redis.service';
+
+// Rooms nobody touches for this long expire on their own
+const ROOM_TTL_SECONDS = 2 * 60 * 60;
+const ROOM_INDEX_KEY = 'rooms:index';
+const ROOM_STATUSES: Room['status'][] = ['waiting', 'full', 'in_progress'];
+const DEFAULT_PAGE_SIZE = 20;
+
+@Injectable()
+export class RoomService {
+  private readonly logger = new Logger(RoomService.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Opens a room seating its creator and, for a game against the computer,
+   * the bot. Bots are not tied to a room, so one bot plays in many.
+   */
+  async create(
+    player: Player,
+    request: CreateRoomRequest,
+    bot?: Player,
+  ): Promise<Room> {
+    const ruleset = request.ruleset ?? DEFAULT_RULE_VARIANT;
+    if (!isRuleVariant(ruleset)) {
+      throw new GameException('VALIDATION_ERROR', 'Unknown rule variant');
+    }
+
+    const geometry = request.geometry ?? DEFAULT_BOARD_GEOMETRY;
+    const geometryError = validateBoardGeometry(geometry);
+    if (geometryError) {
+      throw new GameException('VALIDATION_ERROR', geometryError);
+    }
+
+    const timeControl = request.timeControl ?? DEFAULT_TIME_CONTROL;
+    const timeControlError = validateTimeControl(timeControl);
+    if (timeControlError) {
+      throw new GameException('VALIDATION_ERROR', timeControlError);
+    }
+
+    await this.assertNotSeatedElsewhere(player.id);
+
+    const room: Room = {
+      id: randomUUID(),
+      name: request.name.trim(),
+      status: bot ? 'full' : 'waiting',
+      ruleset,
+      geometry,
+      timeControl,
+      players: bot ? [player, bot] : [player],
+      maxPlayers: 2,
+      createdBy: player,
+      gameId: null,
+      allowSpectators: request.allowSpectators ?? true,
+      spectatorCount: 0,
+      createdAt: new Date(),
+    };
+
+    await this.save(room);
+    await this.setPlayerRoom(player.id, room.id);
+    this.logger.log(`Room ${room.id} created by ${player.username}`);
+    return room;
+  }
+
+  async findById(roomId: string): Promise<Room | null> {
+    const hash = await this.redisService.hgetall(this.roomKey(roomId));
+    if (!hash.id) {
+      return null;
+    }
+
+    const room = this.deserialize(hash);
+    room.spectatorCount = await this.redisService.scard(
+      this.spectatorsKey(roomId),
+    );
+    return room;
+  }
+
+  async getOrThrow(roomId: string): Promise<Room> {
+    const room = await this.findById(roomId);
+    if (!room) {
+      throw new GameException('ROOM_NOT_FOUND', 'Room not found');
+    }
+    return room;
+  }
+
+  async findByPlayer(playerId: string): Promise<Room | null> {
+    const roomId = await this.redisService.get(this.playerRoomKey(playerId));
+    return roomId ? this.findById(roomId) : null;
+  }
+
+  // The room the player holds a seat in, if any
+  async findSeatedRoom(playerId: string): Promise<Room | null> {
+    const room = await this.findByPlayer(playerId);
+    return room && this.isSeated(room, playerId) ? room : null;
+  }
+
+  /**
+   * Seats a player in the room. Rejoining a room you are already in is a
+   * no-op; the second seat fills the room.
+   */
+  async join(roomId: string, player: Player): Promise<Room> {
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      if (this.isSeated(room, player.id)) {
+        return room;
+      }
+
+      await this.assertNotSeatedElsewhere(player.id);
+      if (room.status !== 'waiting' || room.players.length >= room.maxPlayers) {
+        throw new GameException('ROOM_FULL', 'Room is full');
+      }
+
+      room.players.push(player);
+      if (room.players.length >= room.maxPlayers) {
+        room.status = 'full';
+      }
+
+      await this.save(room);
+      await this.setPlayerRoom(player.id, room.id);
+      return room;
+    });
+  }
+
+  /**
+   * Removes a player from the room. Returns null once the last human player
+   * has left and the room is gone.
+   */
+  async leave(roomId: string, playerId: string): Promise<Room | null> {
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      if (!this.isSeated(room, playerId)) {
+        return room;
+      }
+
+      room.players = room.players.filter((player) => player.id !== playerId);
+      await this.redisService.del(this.playerRoomKey(playerId));
+
+      if (room.players.every((player) => player.isBot)) {
+        await this.remove(room.id);
+        return null;
+      }
+
+      room.status = 'waiting';
+      await this.save(room);
+      return room;
+    });
+  }
+
+  /**
+   * Counts a socket among the room's spectators. Spectators are tracked by
+   * socket, so a player watching from two tabs counts twice; a player
+   * seated in a room cannot watch one.
+   */
+  async addSpectator(
+    roomId: string,
+    socketId: string,
+    playerId: string,
+  ): Promise<Room> {
+    // Under the lock, so spectating cannot be turned off in between
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      if (!room.allowSpectators) {
+        throw new GameException(
+          'INVALID_STATE',
+          'Spectating is turned off in this room',
+        );
+      }
+      await this.assertNotSeatedElsewhere(playerId);
+
+      const key = this.spectatorsKey(roomId);
+      await this.redisService.sadd(key, socketId);
+      await this.redisService.expire(key, ROOM_TTL_SECONDS);
+      room.spectatorCount = await this.redisService.scard(key);
+      return room;
+    });
+  }
+
+  /**
+   * Returns the room with its updated spectator count, or null once it has
+   * closed.
+   */
+  async removeSpectator(
+    roomId: string,
+    socketId: string,
+  ): Promise<Room | null> {
+    await this.redisService.srem(this.spectatorsKey(roomId), socketId);
+    return this.findById(roomId);
+  }
+
+  /**
+   * Lets the room's owner turn spectating on or off. Turning it off drops
+   * every current spectator.
+   */
+  async setAllowSpectators(
+    roomId: string,
+    playerId: string,
+    allowSpectators: boolean,
+  ): Promise<Room> {
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      if (room.createdBy.id !== playerId) {
+        throw new GameException(
+          'NOT_ROOM_OWNER',
+          'Only the room owner can change this',
+        );
+      }
+
+      room.allowSpectators = allowSpectators;
+      if (!allowSpectators) {
+        await this.redisService.del(this.spectatorsKey(roomId));
+        room.spectatorCount = 0;
+      }
+      await this.save(room);
+      return room;
+    });
+  }
+
+  async setGame(roomId: string, gameId: string): Promise<Room> {
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      room.gameId = gameId;
+      await this.save(room);
+      return room;
+    });
+  }
+
+  async startGame(roomId: string, gameId: string): Promise<Room> {
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      room.gameId = gameId;
+      room.status = 'in_progress';
+      await this.save(room);
+      return room;
+    });
+  }
+
+  async endGame(roomId: string): Promise<Room> {
+    return this.withRoomLock(roomId, async () => {
+      const room = await this.getOrThrow(roomId);
+      room.status = room.players.length >= room.maxPlayers ? 'full' : 'waiting';
+      await this.save(room);
+      return room;
+    });
+  }
+
+  /**
+   * Lists rooms newest first, reading only the requested page of the index.
+   * Index entries whose room has expired are pruned as they are met, so one
+   * can leave a page short until then.
+   */
+  async list(query: GetRoomsRequest = {}): Promise<GetRoomsResponse['data']> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const key = query.status
+      ? this.statusIndexKey(query.status)
+      : ROOM_INDEX_KEY;
+
+    const start = (page - 1) * limit;
+    const ids = await this.redisService.zrevrange(
+      key,
+      start,
+      start + limit - 1,
+    );
+    const total = await this.redisService.zcard(key);
+    const rooms: Room[] = [];
+    for (const id of ids) {
+      const room = await this.findById(id);
+      if (room) {
+        rooms.push(room);
+      } else {
+        await this.unindex(id).exec();
+      }
+    }
+
+    return {
+      rooms: rooms.map((room) => this.toListItem(room)),
+      total: total - (ids.length - rooms.length),
+      page,
+      limit,
+    };
+  }
+
+  toListItem(room: Room): RoomListItem {
+    return {
+      id: room.id,
+      name: room.name,
+      status: room.status,
+      ruleset: room.ruleset,
+      geometry: room.geometry,
+      timeControl: room.timeControl,
+      playerCount: room.players.length,
+      maxPlayers: room.maxPlayers,
+      allowSpectators: room.allowSpectators,
+      spectatorCount: room.spectatorCount,
+      createdBy: room.createdBy.username,
+    };
+  }
+
+  // Rooms are saved whole, so changes to one room must not interleave
+  private async withRoomLock<T>(
+    roomId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    return this.redisService.withLock(`${this.roomKey(roomId)}:lock`, task);
+  }
+
+  private async remove(roomId: string): Promise<void> {
+    await this.unindex(roomId)
+      .del(this.roomKey(roomId), this.spectatorsKey(roomId))
+      .exec();
+    this.logger.log(`Room ${roomId} closed`);
+  }
+
+  private async assertNotSeatedElsewhere(playerId: string): Promise<void> {
+    const current = await this.findSeatedRoom(playerId);
+    if (current) {
+      throw new GameException(
+        'INVALID_STATE',
+        'Leave your current room first',
+        { roomId: current.id },
+      );
+    }
+  }
+
+  private isSeated(room: Room, playerId: string): boolean {
+    return room.players.some((player) => player.id === playerId);
+  }
+
+  private async setPlayerRoom(playerId: string, roomId: string): Promise<void> {
+    await this.redisService.set(
+      this.playerRoomKey(playerId),
+      roomId,
+      ROOM_TTL_SECONDS,
+    );
+  }
+
+  /**
+   * Writes the room and files it under its status in one transaction, so a
+   * listing never sees it half saved or under two statuses.
+   */
+  private async save(room: Room): Promise<void> {
+    const key = this.roomKey(room.id);
+    const score = room.createdAt.getTime();
+    const transaction = this.redisService
+      .multi()
+      .hset(key, {
+        id: room.id,
+        name: room.name,
+        status: room.status,
+        ruleset: room.ruleset,
+        geometry: JSON.stringify(room.geometry),
+        timeControl: JSON.stringify(room.timeControl),
+        players: JSON.stringify(room.players),
+        createdBy: JSON.stringify(room.createdBy),
+        gameId: room.gameId ?? '',
+        allowSpectators: String(room.allowSpectators),
+        createdAt: room.createdAt.toISOString(),
+      })
+      .expire(key, ROOM_TTL_SECONDS)
+      .zadd(ROOM_INDEX_KEY, score, room.id);
+    for (const status of ROOM_STATUSES) {
+      if (status === room.status) {
+        transaction.zadd(this.statusIndexKey(status), score, room.id);
+      } else {
+        transaction.zrem(this.statusIndexKey(status), room.id);
+      }
+    }
+    await transaction.exec();
+  }
+
+  // Queues the room's removal from every index
+  private unindex(roomId: string): ChainableCommander {
+    const transaction = this.redisService.multi().zrem(ROOM_INDEX_KEY, roomId);
+    for (const status of ROOM_STATUSES) {
+      transaction.zrem(this.statusIndexKey(status), roomId);
+    }
+    return transaction;
+  }
+
+  private deserialize(hash: Record<string, string>): Room {
+    const players = (JSON.parse(hash.players) as Player[]).map((player) =>
+      this.revivePlayer(player),
+    );
+
+    return {
+      id: hash.id,
+      name: hash.name,
+      status: hash.status as Room['status'],
+      ruleset: isRuleVariant(hash.ruleset)
+        ? hash.ruleset
+        : DEFAULT_RULE_VARIANT,
+      geometry: JSON.parse(hash.geometry) as Room['geometry'],
+      timeControl: JSON.parse(hash.timeControl) as Room['timeControl'],
+      players,
+      maxPlayers: 2,
+      createdBy: this.revivePlayer(JSON.parse(hash.createdBy) as Player),
+      gameId: hash.gameId || null,
+      allowSpectators: hash.allowSpectators === 'true',
+      spectatorCount: 0,
+      createdAt: new Date(hash.createdAt),
+    };
+  }
+
+  private revivePlayer(player: Player): Player {
+    return { ...player, createdAt: new Date(player.createdAt) };
+  }
+
+  // Ids of the rooms in one status, scored by creation time
+  private statusIndexKey(status: Room['status']): string {
+    return `${ROOM_INDEX_KEY}:${status}`;
+  }
+
+  private roomKey(roomId: string): string {
+    return `room:${roomId}`;
+  }
+
+  // Socket ids of the room's spectators
+  private spectatorsKey(roomId: string): string {
+    return `room:${roomId}:spectators`;
+  }
+
+  private playerRoomKey(playerId: string): string {
+    return `player:${playerId}:room`;
+  }
+}
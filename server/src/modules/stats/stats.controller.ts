@@ -0,0 +1,17 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query } from '@nestjs/common';
+import { GetPlayerStatsResponse } from '@shared/types/game.types';
+import { GetPlayerStatsDto } from './dto/get-player-stats.dto';
+import { StatsService } from './stats.service';
+
+@Controller('players')
+export class StatsController {
+  constructor(private readonly statsService: StatsService) {}
+
+  @Get(':id/stats')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: GetPlayerStatsDto,
+  ): Promise<GetPlayerStatsResponse> {
+    return { success: true, data: await this.statsService.getStats(id, query) };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EloHistoryEntity } from '../../entities/elo-history.entity';
+import { PlayerModule } from '../player/player.module';
+import { StatsController } from './stats.controller';
+import { StatsService } from './stats.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([EloHistoryEntity]), PlayerModule],
+  controllers: [StatsController],
+  providers: [StatsService],
+})
+export class StatsModule {}
@@ -0,0 +1,112 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, FindOptionsWhere, Repository } from 'typeorm';
+import {
+  GetPlayerStatsRequest,
+  PlayerStats,
+  StatsWindow,
+} from '@shared/types/game.types';
+import { EloHistoryEntity } from '../../entities/elo-history.entity';
+import { PlayerService } from '../player/player.service';
+import { breakdown, countResults } from './stats';
+
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+
+interface TimeWindow {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Player statistics derived from the Elo history, which holds one row per
+ * rated game, rather than from the counters on the player row.
+ */
+@Injectable()
+export class StatsService {
+  constructor(
+    @InjectRepository(EloHistoryEntity)
+    private readonly historyRepository: Repository<EloHistoryEntity>,
+    private readonly playerService: PlayerService,
+  ) {}
+
+  async getStats(
+    playerId: string,
+    query: GetPlayerStatsRequest = {},
+  ): Promise<PlayerStats> {
+    const player = await this.playerService.findById(playerId);
+    if (!player) {
+      throw new NotFoundException('Player not found');
+    }
+    const window = this.parseWindow(query);
+
+    const games = await this.historyRepository.find({
+      where: { playerId },
+      select: ['result', 'symbol', 'moveCount', 'change', 'createdAt'],
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_HISTORY_PAGE_SIZE;
+    const where: FindOptionsWhere<EloHistoryEntity> = window
+      ? { playerId, createdAt: Between(window.from, window.to) }
+      : { playerId };
+    const [history, eloHistoryTotal] =
+      await this.historyRepository.findAndCount({
+        where,
+        order: { createdAt: 'DESC', id: 'DESC' },
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+    return {
+      ...countResults(games),
+      currentElo: player.elo,
+      breakdown: breakdown(games),
+      window: window && this.windowStats(games, window),
+      eloHistory: history.map((entry) => ({
+        gameId: entry.gameId,
+        previousElo: entry.previousElo,
+        newElo: entry.newElo,
+        change: entry.change,
+        result: entry.result,
+        timestamp: entry.createdAt,
+      })),
+      eloHistoryTotal,
+    };
+  }
+
+  /** An open-ended window runs from the first game or up to now. */
+  private parseWindow(query: GetPlayerStatsRequest): TimeWindow | null {
+    if (!query.from && !query.to) {
+      return null;
+    }
+
+    const from = query.from ? new Date(query.from) : new Date(0);
+    const to = query.to ? new Date(query.to) : new Date();
+    if (from > to) {
+      throw new BadRequestException('`from` must not be after `to`');
+    }
+    return { from, to };
+  }
+
+  private windowStats(
+    games: EloHistoryEntity[],
+    { from, to }: TimeWindow,
+  ): StatsWindow {
+    const inWindow = games.filter(
+      (game) => game.createdAt >= from && game.createdAt <= to,
+    );
+
+    return {
+      from,
+      to,
+      ...countResults(inWindow),
+      eloChange: inWindow.reduce((sum, game) => sum + game.change, 0),
+      breakdown: breakdown(inWindow),
+    };
+  }
+}
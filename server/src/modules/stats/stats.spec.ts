@@ -0,0 +1,64 @@
+import { GAME_CONFIG } from '@shared/types/game.types';
+import {
+  PlayedGame,
+  breakdown,
+  countResults,
+  gameLength,
+  streaks,
+} from './stats';
+
+function game(
+  result: PlayedGame['result'],
+  symbol: PlayedGame['symbol'] = 'X',
+  moveCount = 10,
+): PlayedGame {
+  return { result, symbol, moveCount };
+}
+
+describe('stats', () => {
+  it('should count results and the win rate', () => {
+    expect(
+      countResults([game('win'), game('win'), game('loss'), game('draw')]),
+    ).toEqual({ totalGames: 4, wins: 2, losses: 1, draws: 1, winRate: 0.5 });
+    expect(countResults([]).winRate).toBe(0);
+  });
+
+  it('should bucket games by the moves played', () => {
+    expect(gameLength(GAME_CONFIG.SHORT_GAME_MAX_MOVES)).toBe('short');
+    expect(gameLength(GAME_CONFIG.SHORT_GAME_MAX_MOVES + 1)).toBe('medium');
+    expect(gameLength(GAME_CONFIG.MEDIUM_GAME_MAX_MOVES + 1)).toBe('long');
+  });
+
+  it('should track the current and longest streaks', () => {
+    const results: PlayedGame['result'][] = [
+      'win',
+      'win',
+      'win',
+      'loss',
+      'loss',
+      'draw',
+      'win',
+    ];
+
+    expect(streaks(results.map((result) => game(result)))).toEqual({
+      current: { result: 'win', length: 1 },
+      longestWin: 3,
+      longestLoss: 2,
+    });
+    expect(streaks([]).current).toBeNull();
+  });
+
+  it('should split results by symbol and game length', () => {
+    const stats = breakdown([
+      game('win', 'X', 9),
+      game('loss', 'O', 9),
+      game('win', 'O', 80),
+    ]);
+
+    expect(stats.bySymbol.X).toMatchObject({ wins: 1, totalGames: 1 });
+    expect(stats.bySymbol.O).toMatchObject({ wins: 1, losses: 1 });
+    expect(stats.byLength.short.totalGames).toBe(2);
+    expect(stats.byLength.medium.totalGames).toBe(0);
+    expect(stats.byLength.long.winRate).toBe(1);
+  });
+});
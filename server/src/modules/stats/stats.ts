@@ -0,0 +1,78 @@
+import {
+  GAME_CONFIG,
+  GameLength,
+  GameResult,
+  PlayerSymbol,
+  ResultCounts,
+  StatsBreakdown,
+  StreakStats,
+} from '@shared/types/game.types';
+
+export interface PlayedGame {
+  result: GameResult;
+  symbol: PlayerSymbol;
+  moveCount: number;
+}
+
+export function countResults(games: PlayedGame[]): ResultCounts {
+  const wins = games.filter((game) => game.result === 'win').length;
+  const losses = games.filter((game) => game.result === 'loss').length;
+  const draws = games.length - wins - losses;
+
+  return {
+    totalGames: games.length,
+    wins,
+    losses,
+    draws,
+    winRate: games.length === 0 ? 0 : wins / games.length,
+  };
+}
+
+export function gameLength(moveCount: number): GameLength {
+  if (moveCount <= GAME_CONFIG.SHORT_GAME_MAX_MOVES) {
+    return 'short';
+  }
+  return moveCount <= GAME_CONFIG.MEDIUM_GAME_MAX_MOVES ? 'medium' : 'long';
+}
+
+/** Games must be in the order they were played; a draw breaks any streak. */
+export function streaks(games: PlayedGame[]): StreakStats {
+  let currentResult: GameResult | null = null;
+  let currentLength = 0;
+  let longestWin = 0;
+  let longestLoss = 0;
+
+  for (const { result } of games) {
+    currentLength = result === currentResult ? currentLength + 1 : 1;
+    currentResult = result;
+
+    if (result === 'win') {
+      longestWin = Math.max(longestWin, currentLength);
+    } else if (result === 'loss') {
+      longestLoss = Math.max(longestLoss, currentLength);
+    }
+  }
+
+  return {
+    current: currentResult && { result: currentResult, length: currentLength },
+    longestWin,
+    longestLoss,
+  };
+}
+
+export function breakdown(games: PlayedGame[]): StatsBreakdown {
+  const withSymbol = (symbol: PlayerSymbol) =>
+    countResults(games.filter((game) => game.symbol === symbol));
+  const withLength = (length: GameLength) =>
+    countResults(games.filter((game) => gameLength(game.moveCount) === length));
+
+  return {
+    bySymbol: { X: withSymbol('X'), O: withSymbol('O') },
+    byLength: {
+      short: withLength('short'),
+      medium: withLength('medium'),
+      long: withLength('long'),
+    },
+    streaks: streaks(games),
+  };
+}
@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { RULESETS } from '@shared/types/game.rules';
+import {
+  CreateTournamentRequest,
+  GAME_CONFIG,
+  TournamentSubscriptionPayload,
+} from '@shared/types/game.types';
+import type { RuleVariant, TournamentFormat } from '@shared/types/game.types';
+import { TimeControlDto } from '../../room/dto/create-room.dto';
+
+const FORMATS: TournamentFormat[] = [
+  'round-robin',
+  'swiss',
+  'single-elimination',
+];
+
+export class CreateTournamentDto implements CreateTournamentRequest {
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @IsIn(FORMATS)
+  format: TournamentFormat;
+
+  @IsOptional()
+  @IsIn(Object.keys(RULESETS))
+  ruleset?: RuleVariant;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeControlDto)
+  timeControl?: TimeControlDto;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(GAME_CONFIG.TOURNAMENT_MAX_PLAYERS - 1)
+  rounds?: number;
+}
+
+export class TournamentSubscriptionDto
+  implements TournamentSubscriptionPayload
+{
+  @IsString()
+  @IsNotEmpty()
+  tournamentId: string;
+}
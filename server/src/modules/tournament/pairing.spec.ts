@@ -0,0 +1,136 @@
+import { PairingResult } from '@shared/types/game.types';
+import {
+  advanceBracket,
+  Pairing,
+  pairRoundRobin,
+  pairSwiss,
+  PlayedPairing,
+  plannedRounds,
+  seedBracket,
+} from './pairing';
+
+function played(
+  round: number,
+  pairings: Pairing[],
+  result: PairingResult = 'first',
+): PlayedPairing[] {
+  return pairings.map((pairing) => ({
+    ...pairing,
+    round,
+    result: pairing.second === null ? 'first' : result,
+  }));
+}
+
+function opponents(pairings: Pairing[]): (string | null)[][] {
+  return pairings.map(({ first, second }) => [first, second]);
+}
+
+describe('plannedRounds', () => {
+  it('should plan rounds by format and field size', () => {
+    expect(plannedRounds('round-robin', 6)).toBe(5);
+    expect(plannedRounds('round-robin', 5)).toBe(5);
+    expect(plannedRounds('single-elimination', 5)).toBe(3);
+    expect(plannedRounds('swiss', 20)).toBe(5);
+    expect(plannedRounds('swiss', 20, 7)).toBe(7);
+  });
+
+  it('should not run Swiss longer than a round robin', () => {
+    expect(plannedRounds('swiss', 4, 9)).toBe(3);
+  });
+});
+
+describe('pairRoundRobin', () => {
+  it('should have everyone meet everyone once', () => {
+    const players = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const met = new Set<string>();
+
+    for (let round = 1; round <= 5; round++) {
+      const pairings = pairRoundRobin(players, round);
+      expect(pairings).toHaveLength(3);
+      expect(new Set(pairings.flatMap((p) => [p.first, p.second])).size).toBe(
+        6,
+      );
+      for (const { first, second } of pairings) {
+        met.add([first, second].sort().join());
+      }
+    }
+    expect(met.size).toBe(15);
+  });
+
+  it('should give each player of an odd field one bye', () => {
+    const players = ['a', 'b', 'c', 'd', 'e'];
+    const byes = [1, 2, 3, 4, 5].map((round) => {
+      const pairings = pairRoundRobin(players, round);
+      expect(pairings).toHaveLength(3);
+      return pairings.find((pairing) => pairing.second === null)!.first;
+    });
+
+    expect(byes.sort()).toEqual(players);
+  });
+});
+
+describe('pairSwiss', () => {
+  it('should pair neighbours in the ranking', () => {
+    expect(opponents(pairSwiss(['a', 'b', 'c', 'd'], []))).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('should avoid rematches', () => {
+    const history = played(1, [
+      { board: 1, first: 'a', second: 'b' },
+      { board: 2, first: 'c', second: 'd' },
+    ]);
+
+    expect(opponents(pairSwiss(['a', 'c', 'b', 'd'], history))).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+    // a has met b; backtracking keeps c and d apart too
+    expect(opponents(pairSwiss(['a', 'b', 'c', 'd'], history))).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+  });
+
+  it('should give the bye to the lowest ranked player without one', () => {
+    const history = played(1, [
+      { board: 1, first: 'a', second: 'b' },
+      { board: 2, first: 'c', second: null },
+    ]);
+
+    const pairings = pairSwiss(['a', 'b', 'c'], history);
+    expect(pairings.at(-1)).toEqual({ board: 2, first: 'b', second: null });
+    expect(opponents(pairings)[0]).toEqual(['a', 'c']);
+  });
+});
+
+describe('seedBracket', () => {
+  it('should keep the top seeds apart and give them the byes', () => {
+    expect(
+      opponents(seedBracket(['s1', 's2', 's3', 's4', 's5', 's6'])),
+    ).toEqual([
+      ['s1', null],
+      ['s4', 's5'],
+      ['s2', null],
+      ['s3', 's6'],
+    ]);
+  });
+});
+
+describe('advanceBracket', () => {
+  it('should pair the winners of neighbouring boards', () => {
+    const first = seedBracket(['s1', 's2', 's3', 's4']);
+    const results = played(1, first, 'second');
+
+    expect(opponents(advanceBracket(results))).toEqual([['s4', 's3']]);
+  });
+
+  it('should refuse an unfinished round', () => {
+    const results = played(1, seedBracket(['s1', 's2', 's3', 's4']));
+    results[1].result = null;
+
+    expect(() => advanceBracket(results)).toThrow('not finished');
+  });
+});
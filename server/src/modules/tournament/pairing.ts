@@ -0,0 +1,196 @@
+import { PairingResult, TournamentFormat } from '@shared/types/game.types';
+
+/** A pairing between players by id; `second` is null for a bye. */
+export interface Pairing {
+  board: number;
+  first: string;
+  second: string | null;
+}
+
+export interface PlayedPairing extends Pairing {
+  round: number;
+  result: PairingResult | null;
+}
+
+// Swiss pairing backtracks to avoid rematches; past this many steps it
+// settles for the greedy pairing instead
+const SWISS_SEARCH_BUDGET = 10_000;
+
+function bracketSize(players: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(players, 2)));
+}
+
+/**
+ * Rounds a tournament of this many players takes. Swiss defaults to enough
+ * rounds to leave one player unbeaten, and never runs longer than a round
+ * robin, past which rematches could not be avoided.
+ */
+export function plannedRounds(
+  format: TournamentFormat,
+  players: number,
+  swissRounds?: number,
+): number {
+  switch (format) {
+    case 'round-robin':
+      return players % 2 === 0 ? players - 1 : players;
+    case 'swiss':
+      return Math.min(
+        swissRounds ?? Math.ceil(Math.log2(Math.max(players, 2))),
+        plannedRounds('round-robin', players),
+      );
+    case 'single-elimination':
+      return Math.log2(bracketSize(players));
+  }
+}
+
+/**
+ * One round of a round robin by the circle method: the first seed stays
+ * put while the others rotate a place each round. With an odd number of
+ * players, whoever meets the empty seat has a bye.
+ */
+export function pairRoundRobin(seeded: string[], round: number): Pairing[] {
+  const seats: (string | null)[] =
+    seeded.length % 2 === 0 ? [...seeded] : [...seeded, null];
+  const [fixed, ...rest] = seats;
+  const shift = (round - 1) % rest.length;
+  const circle = [
+    fixed,
+    ...rest.slice(rest.length - shift),
+    ...rest.slice(0, rest.length - shift),
+  ];
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < seats.length / 2; i++) {
+    const a = circle[i];
+    const b = circle[seats.length - 1 - i];
+    if (a !== null || b !== null) {
+      pairings.push({
+        board: pairings.length + 1,
+        first: (a ?? b) as string,
+        second: a === null ? null : b,
+      });
+    }
+  }
+  return pairings;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * One Swiss round, Monrad style: players are ranked by standing and paired
+ * top down with the nearest player they have not met. With an odd number
+ * of players, the lowest ranked player who has not had a bye gets one.
+ */
+export function pairSwiss(
+  ranked: string[],
+  history: PlayedPairing[],
+): Pairing[] {
+  const played = new Set<string>();
+  const hadBye = new Set<string>();
+  for (const pairing of history) {
+    if (pairing.second === null) {
+      hadBye.add(pairing.first);
+    } else {
+      played.add(pairKey(pairing.first, pairing.second));
+    }
+  }
+
+  const pool = [...ranked];
+  let bye: string | null = null;
+  if (pool.length % 2 === 1) {
+    const index = pool.findLastIndex((id) => !hadBye.has(id));
+    [bye] = pool.splice(index === -1 ? pool.length - 1 : index, 1);
+  }
+
+  let budget = SWISS_SEARCH_BUDGET;
+  const search = (remaining: string[]): [string, string][] | null => {
+    if (remaining.length === 0) {
+      return [];
+    }
+    const [first, ...others] = remaining;
+    for (let i = 0; i < others.length && budget-- > 0; i++) {
+      if (played.has(pairKey(first, others[i]))) {
+        continue;
+      }
+      const rest = search(others.filter((_, j) => j !== i));
+      if (rest) {
+        return [[first, others[i]], ...rest];
+      }
+    }
+    return null;
+  };
+
+  const pairs =
+    search(pool) ??
+    Array.from({ length: pool.length / 2 }, (_, i): [string, string] => [
+      pool[2 * i],
+      pool[2 * i + 1],
+    ]);
+  const pairings: Pairing[] = pairs.map(([first, second], i) => ({
+    board: i + 1,
+    first,
+    second,
+  }));
+  if (bye !== null) {
+    pairings.push({ board: pairings.length + 1, first: bye, second: null });
+  }
+  return pairings;
+}
+
+// Seeds in bracket order, so the top two seeds can only meet in the final
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * The first round of a single elimination bracket. The bracket is padded
+ * to a power of two with byes, which go to the top seeds.
+ */
+export function seedBracket(seeded: string[]): Pairing[] {
+  const order = bracketOrder(bracketSize(seeded.length));
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    pairings.push({
+      board: i / 2 + 1,
+      first: seeded[order[i] - 1],
+      second: seeded[order[i + 1] - 1] ?? null,
+    });
+  }
+  return pairings;
+}
+
+export function pairingWinner(pairing: PlayedPairing): string | null {
+  switch (pairing.result) {
+    case 'first':
+      return pairing.first;
+    case 'second':
+      return pairing.second;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The next bracket round: the winners of boards 1 and 2 meet on board 1,
+ * those of boards 3 and 4 on board 2, and so on.
+ */
+export function advanceBracket(previous: PlayedPairing[]): Pairing[] {
+  const boards = [...previous].sort((a, b) => a.board - b.board);
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < boards.length; i += 2) {
+    const first = pairingWinner(boards[i]);
+    const second = pairingWinner(boards[i + 1]);
+    if (!first || !second) {
+      throw new Error(`Round ${boards[i].round} is not finished`);
+    }
+    pairings.push({ board: i / 2 + 1, first, second });
+  }
+  return pairings;
+}
@@ -0,0 +1,100 @@
+import { PairingResult, TournamentPlayer } from '@shared/types/game.types';
+import { PlayedPairing } from './pairing';
+import { computeStandings } from './standings';
+
+const players: TournamentPlayer[] = ['a', 'b', 'c', 'd'].map((id, index) => ({
+  id,
+  username: id,
+  elo: 1000,
+  seed: index + 1,
+}));
+
+function game(
+  round: number,
+  first: string,
+  second: string | null,
+  result: PairingResult | null,
+): PlayedPairing {
+  return { round, board: 1, first, second, result };
+}
+
+describe('computeStandings', () => {
+  it('should score wins, draws and byes', () => {
+    const standings = computeStandings('swiss', players, [
+      game(1, 'a', 'b', 'draw'),
+      game(1, 'c', null, 'first'),
+      game(2, 'd', 'a', 'second'),
+      game(2, 'b', 'c', null),
+    ]);
+
+    expect(
+      standings.map(({ player, points, wins, draws, losses }) => [
+        player.id,
+        points,
+        wins,
+        draws,
+        losses,
+      ]),
+    ).toEqual([
+      ['a', 1.5, 1, 1, 0],
+      ['c', 1, 1, 0, 0],
+      ['b', 0.5, 0, 1, 0],
+      ['d', 0, 0, 0, 1],
+    ]);
+  });
+
+  it('should break Swiss ties by Buchholz, leaving byes out', () => {
+    const standings = computeStandings('swiss', players, [
+      game(1, 'a', 'b', 'first'),
+      game(1, 'c', 'd', 'first'),
+      game(2, 'b', 'd', 'first'),
+      game(2, 'a', 'c', 'draw'),
+    ]);
+
+    // a and c have 1.5; a met b (1) and c, c met d (0) and a
+    expect(standings.map(({ player }) => player.id)).toEqual([
+      'a',
+      'c',
+      'b',
+      'd',
+    ]);
+    expect(standings[0]).toMatchObject({ rank: 1, buchholz: 2.5 });
+    expect(standings[1]).toMatchObject({ rank: 2, buchholz: 1.5 });
+  });
+
+  it('should break round robin ties by Sonneborn-Berger', () => {
+    // a, b and c beat each other in a circle and all beat d
+    const standings = computeStandings('round-robin', players, [
+      game(1, 'a', 'b', 'first'),
+      game(1, 'c', 'd', 'first'),
+      game(2, 'b', 'c', 'first'),
+      game(2, 'a', 'd', 'first'),
+      game(3, 'c', 'a', 'first'),
+      game(3, 'd', 'b', 'draw'),
+    ]);
+
+    // c and a both have 2, but c beat a while a beat the weaker b
+    expect(
+      standings.map(({ player, sonnebornBerger }) => [
+        player.id,
+        sonnebornBerger,
+      ]),
+    ).toEqual([
+      ['c', 2.5],
+      ['a', 2],
+      ['b', 2.25],
+      ['d', 0.75],
+    ]);
+  });
+
+  it('should fall back on the seed', () => {
+    const standings = computeStandings('single-elimination', players, []);
+
+    expect(standings.map(({ player }) => player.id)).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  TournamentFormat,
+  TournamentPlayer,
+  TournamentStanding,
+} from '@shared/types/game.types';
+import { PlayedPairing } from './pairing';
+
+type Score = Omit<TournamentStanding, 'rank' | 'player'>;
+
+// Tie-breaks after points, in order; the seed settles any tie left
+const TIE_BREAKS: Record<TournamentFormat, (keyof Score)[]> = {
+  swiss: ['buchholz', 'sonnebornBerger'],
+  // Everyone meets everyone, so Buchholz cannot tell players apart
+  'round-robin': ['sonnebornBerger'],
+  'single-elimination': [],
+};
+
+function resultFor(
+  pairing: PlayedPairing,
+  playerId: string,
+): 'win' | 'draw' | 'loss' {
+  if (pairing.result === 'draw') {
+    return 'draw';
+  }
+  const won = pairing.result === 'first' ? pairing.first : pairing.second;
+  return won === playerId ? 'win' : 'loss';
+}
+
+/**
+ * Ranks the players by points and the format's tie-breaks. Only finished
+ * pairings count. A bye is worth a win but adds nothing to the tie-breaks.
+ */
+export function computeStandings(
+  format: TournamentFormat,
+  players: TournamentPlayer[],
+  pairings: PlayedPairing[],
+): TournamentStanding[] {
+  const finished = pairings.filter((pairing) => pairing.result !== null);
+  const scores = new Map<string, Score>(
+    players.map((player) => [
+      player.id,
+      {
+        points: 0,
+        buchholz: 0,
+        sonnebornBerger: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+      },
+    ]),
+  );
+
+  for (const pairing of finished) {
+    for (const id of [pairing.first, pairing.second]) {
+      const score = id === null ? undefined : scores.get(id);
+      if (id === null || !score) {
+        continue;
+      }
+      const result = resultFor(pairing, id);
+      score.points += result === 'win' ? 1 : result === 'draw' ? 0.5 : 0;
+      score[
+        result === 'win' ? 'wins' : result === 'draw' ? 'draws' : 'losses'
+      ]++;
+    }
+  }
+
+  // Tie-breaks need every player's final points
+  for (const pairing of finished) {
+    if (pairing.second === null) {
+      continue;
+    }
+    for (const [id, opponent] of [
+      [pairing.first, pairing.second],
+      [pairing.second, pairing.first],
+    ]) {
+      const score = scores.get(id);
+      const opponentPoints = scores.get(opponent)?.points ?? 0;
+      if (!score) {
+        continue;
+      }
+      score.buchholz += opponentPoints;
+      const result = resultFor(pairing, id);
+      score.sonnebornBerger +=
+        result === 'win'
+          ? opponentPoints
+          : result === 'draw'
+            ? opponentPoints / 2
+            : 0;
+    }
+  }
+
+  const criteria: (keyof Score)[] = ['points', ...TIE_BREAKS[format]];
+  return players
+    .map((player) => ({ player, ...(scores.get(player.id) as Score) }))
+    .sort((a, b) => {
+      for (const key of criteria) {
+        if (a[key] !== b[key]) {
+          return b[key] - a[key];
+        }
+      }
+      return (
+        (a.player.seed ?? Number.MAX_SAFE_INTEGER) -
+        (b.player.seed ?? Number.MAX_SAFE_INTEGER)
+      );
+    })
+    .map((standing, index) => ({ rank: index + 1, ...standing }));
+}
@@ -0,0 +1,97 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiResponse,
+  GetTournamentResponse,
+  GetTournamentsResponse,
+  Player,
+  Tournament,
+} from '@shared/types/game.types';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { GameExceptionFilter } from '../../common/filters/game-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { PlayerService } from '../player/player.service';
+import { CreateTournamentDto } from './dto/tournament.dto';
+import { TournamentGateway } from './tournament.gateway';
+import { TournamentService } from './tournament.service';
+
+@Controller('tournaments')
+@UseFilters(new GameExceptionFilter())
+export class TournamentController {
+  constructor(
+    private readonly tournamentService: TournamentService,
+    private readonly playerService: PlayerService,
+    private readonly tournamentGateway: TournamentGateway,
+  ) {}
+
+  @Get()
+  async findAll(): Promise<GetTournamentsResponse> {
+    return { success: true, data: await this.tournamentService.list() };
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<GetTournamentResponse> {
+    return { success: true, data: await this.tournamentService.getDetail(id) };
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateTournamentDto,
+  ): Promise<ApiResponse<Tournament>> {
+    const organizer = await this.findPlayer(user.id);
+    return {
+      success: true,
+      data: await this.tournamentService.create(organizer, dto),
+    };
+  }
+
+  @Post(':id/register')
+  @UseGuards(JwtAuthGuard)
+  async register(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<GetTournamentResponse> {
+    await this.tournamentService.register(id, await this.findPlayer(user.id));
+    return { success: true, data: await this.tournamentGateway.publish(id) };
+  }
+
+  @Delete(':id/register')
+  @UseGuards(JwtAuthGuard)
+  async withdraw(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<GetTournamentResponse> {
+    await this.tournamentService.withdraw(id, user.id);
+    return { success: true, data: await this.tournamentGateway.publish(id) };
+  }
+
+  @Post(':id/start')
+  @UseGuards(JwtAuthGuard)
+  async start(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<GetTournamentResponse> {
+    await this.tournamentService.start(id, user.id);
+    return { success: true, data: await this.tournamentGateway.publish(id) };
+  }
+
+  private async findPlayer(playerId: string): Promise<Player> {
+    const entity = await this.playerService.findById(playerId);
+    if (!entity) {
+      throw new NotFoundException('Player not found');
+    }
+    return this.playerService.toPlayer(entity);
+  }
+}
@@ -0,0 +1,56 @@
+import { UseFilters, UsePipes, ValidationPipe } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { SocketEvent, TournamentDetail } from '@shared/types/game.types';
+import { WsExceptionFilter } from '../../common/filters/ws-exception.filter';
+import type { GameServer, GameSocket } from '../game/game-socket.types';
+import { GATEWAY_OPTIONS, tournamentChannel } from '../game/game-socket.types';
+import { TournamentSubscriptionDto } from './dto/tournament.dto';
+import { TournamentService } from './tournament.service';
+
+/**
+ * Pushes a tournament's players, pairings and standings to the sockets
+ * following it whenever they change.
+ */
+@WebSocketGateway(GATEWAY_OPTIONS)
+@UseFilters(new WsExceptionFilter())
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class TournamentGateway {
+  @WebSocketServer()
+  server: GameServer;
+
+  constructor(private readonly tournamentService: TournamentService) {}
+
+  // The tournament as it stands comes straight back
+  @SubscribeMessage(SocketEvent.SUBSCRIBE_TOURNAMENT)
+  async handleSubscribe(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: TournamentSubscriptionDto,
+  ) {
+    const tournament = await this.tournamentService.getDetail(dto.tournamentId);
+    await client.join(tournamentChannel(dto.tournamentId));
+    client.emit(SocketEvent.TOURNAMENT_UPDATED, { tournament });
+  }
+
+  @SubscribeMessage(SocketEvent.UNSUBSCRIBE_TOURNAMENT)
+  async handleUnsubscribe(
+    @ConnectedSocket() client: GameSocket,
+    @MessageBody() dto: TournamentSubscriptionDto,
+  ) {
+    await client.leave(tournamentChannel(dto.tournamentId));
+  }
+
+  // Returns the tournament as sent
+  async publish(tournamentId: string): Promise<TournamentDetail> {
+    const tournament = await this.tournamentService.getDetail(tournamentId);
+    this.server
+      .to(tournamentChannel(tournamentId))
+      .emit(SocketEvent.TOURNAMENT_UPDATED, { tournament });
+    return tournament;
+  }
+}
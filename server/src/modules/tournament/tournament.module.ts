@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TournamentPairingEntity } from '../../entities/tournament-pairing.entity';
+import { TournamentPlayerEntity } from '../../entities/tournament-player.entity';
+import { TournamentEntity } from '../../entities/tournament.entity';
+import { PlayerModule } from '../player/player.module';
+import { TournamentController } from './tournament.controller';
+import { TournamentGateway } from './tournament.gateway';
+import { TournamentService } from './tournament.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      TournamentEntity,
+      TournamentPlayerEntity,
+      TournamentPairingEntity,
+    ]),
+    PlayerModule,
+  ],
+  controllers: [TournamentController],
+  providers: [TournamentService, TournamentGateway],
+  exports: [TournamentService, TournamentGateway],
+})
+export class TournamentModule {}
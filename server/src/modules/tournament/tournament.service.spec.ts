@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { DataSource } from 'typeorm';
+import { Player, TournamentFormat } from '@shared/types/game.types';
+import { PlayerEntity } from '../../entities/player.entity';
+import { TournamentPairingEntity } from '../../entities/tournament-pairing.entity';
+import { TournamentPlayerEntity } from '../../entities/tournament-player.entity';
+import { TournamentEntity } from '../../entities/tournament.entity';
+import { createTestDataSource } from '../../testing/test-data-source';
+import { PlayerService } from '../player/player.service';
+import { TournamentService } from './tournament.service';
+
+describe('TournamentService', () => {
+  let dataSource: DataSource;
+  let tournamentService: TournamentService;
+  let players: Player[];
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TournamentService,
+        PlayerService,
+        { provide: DataSource, useValue: dataSource },
+        ...[
+          PlayerEntity,
+          TournamentEntity,
+          TournamentPlayerEntity,
+          TournamentPairingEntity,
+        ].map((entity) => ({
+          provide: getRepositoryToken(entity),
+          useValue: dataSource.getRepository(entity),
+        })),
+      ],
+    }).compile();
+    tournamentService = module.get(TournamentService);
+
+    const playerService = module.get(PlayerService);
+    const entities = await dataSource.getRepository(PlayerEntity).save(
+      ['alice', 'bob', 'carol', 'dave'].map((username, index) => ({
+        username,
+        passwordHash: 'hash',
+        elo: 1000 + index * 100,
+      })),
+    );
+    players = entities.map((entity) => playerService.toPlayer(entity));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  async function startWith(format: TournamentFormat, entrants: Player[]) {
+    const { id } = await tournamentService.create(players[0], {
+      name: 'Spring Open',
+      format,
+    });
+    for (const player of entrants) {
+      await tournamentService.register(id, player);
+    }
+    return tournamentService.start(id, players[0].id);
+  }
+
+  // Opens every pending game and returns the rooms by the players' names
+  async function openGames(): Promise<Map<string, string>> {
+    const rooms = new Map<string, string>();
+    for (const game of await tournamentService.findPendingGames()) {
+      const roomId = randomUUID();
+      expect(await tournamentService.setRoom(game.pairingId, roomId)).toBe(
+        true,
+      );
+      rooms.set(game.players.map(({ username }) => username).join(), roomId);
+    }
+    return rooms;
+  }
+
+  it('should register players once and count them', async () => {
+    const tournament = await tournamentService.create(players[0], {
+      name: ' Spring Open ',
+      format: 'swiss',
+      rounds: 3,
+    });
+    expect(tournament).toMatchObject({
+      name: 'Spring Open',
+      status: 'registration',
+      organizer: 'alice',
+      ruleset: 'caro',
+    });
+
+    await tournamentService.register(tournament.id, players[1]);
+    await tournamentService.register(tournament.id, players[1]);
+    await tournamentService.register(tournament.id, players[2]);
+    await tournamentService.withdraw(tournament.id, players[2].id);
+
+    expect(await tournamentService.list()).toMatchObject([
+      { id: tournament.id, playerCount: 1 },
+    ]);
+  });
+
+  it('should reject rounds outside Swiss', async () => {
+    await expect(
+      tournamentService.create(players[0], {
+        name: 'Cup',
+        format: 'single-elimination',
+        rounds: 2,
+      }),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should only let the organizer start, with two players or more', async () => {
+    const { id } = await tournamentService.create(players[0], {
+      name: 'Cup',
+      format: 'round-robin',
+    });
+    await tournamentService.register(id, players[1]);
+
+    await expect(
+      tournamentService.start(id, players[1].id),
+    ).rejects.toMatchObject({ code: 'NOT_ORGANIZER' });
+    await expect(
+      tournamentService.start(id, players[0].id),
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    await expect(
+      tournamentService.getDetail(randomUUID()),
+    ).rejects.toMatchObject({ code: 'TOURNAMENT_NOT_FOUND' });
+  });
+
+  it('should seed by rating and play a round robin to the end', async () => {
+    // bob, carol and dave: a bye each round
+    const started = await startWith('round-robin', players.slice(1));
+    const id = started.tournament.id;
+    expect(started.tournament).toMatchObject({
+      status: 'in_progress',
+      rounds: 3,
+      currentRound: 1,
+    });
+    expect(
+      started.players.map(({ username, seed }) => [username, seed]),
+    ).toEqual([
+      ['dave', 1],
+      ['carol', 2],
+      ['bob', 3],
+    ]);
+    await expect(
+      tournamentService.register(id, players[0]),
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+
+    // The higher seed wins every game
+    for (let round = 1; round <= 3; round++) {
+      const detail = await tournamentService.getDetail(id);
+      expect(detail.tournament.currentRound).toBe(round);
+      const [game] = await tournamentService.findPendingGames();
+      const [roomId] = (await openGames()).values();
+      const winner = [...game.players].sort((a, b) => b.elo - a.elo)[0];
+      expect(await tournamentService.recordResult(roomId, winner.id)).toBe(id);
+    }
+
+    const detail = await tournamentService.getDetail(id);
+    expect(detail.tournament.status).toBe('completed');
+    expect(detail.rounds).toHaveLength(3);
+    expect(
+      detail.standings.map(({ player, points }) => [player.username, points]),
+    ).toEqual([
+      ['dave', 3],
+      ['carol', 2],
+      ['bob', 1],
+    ]);
+  });
+
+  it('should replay a drawn knockout game', async () => {
+    const { tournament } = await startWith(
+      'single-elimination',
+      players.slice(0, 2),
+    );
+    const [roomId] = (await openGames()).values();
+
+    expect(await tournamentService.recordResult(roomId, null)).toBe(
+      tournament.id,
+    );
+    const [pairing] = (await tournamentService.getDetail(tournament.id))
+      .rounds[0];
+    expect(pairing).toMatchObject({ roomId: null, result: null });
+    expect(await tournamentService.findPendingGames()).toHaveLength(1);
+  });
+
+  it('should score no-shows and pair the next round', async () => {
+    const { tournament } = await startWith('single-elimination', players);
+    const rooms = await openGames();
+
+    // dave (1) v alice (4) and carol (2) v bob (3)
+    await tournamentService.recordNoShow(rooms.get('dave,alice')!, [
+      players[3].id,
+    ]);
+    await tournamentService.recordNoShow(rooms.get('carol,bob')!, [
+      players[1].id,
+      players[2].id,
+    ]);
+    expect(await tournamentService.recordNoShow(randomUUID(), [])).toBeNull();
+
+    const detail = await tournamentService.getDetail(tournament.id);
+    expect(detail.tournament.currentRound).toBe(2);
+    expect(detail.rounds[0].map(({ result }) => result)).toEqual([
+      'second',
+      'first',
+    ]);
+    // Neither turned up, so the higher seed went through
+    expect(detail.rounds[1]).toMatchObject([
+      { firstPlayerId: players[0].id, secondPlayerId: players[2].id },
+    ]);
+  });
+});
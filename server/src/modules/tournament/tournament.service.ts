@@ -0,0 +1,587 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, IsNull, Not, Repository } from 'typeorm';
+import { validateTimeControl } from '@shared/types/game.clock';
+import { DEFAULT_RULE_VARIANT } from '@shared/types/game.rules';
+import {
+  CreateTournamentRequest,
+  DEFAULT_TIME_CONTROL,
+  GAME_CONFIG,
+  isRuleVariant,
+  PairingResult,
+  Player,
+  RuleVariant,
+  TimeControl,
+  Tournament,
+  TournamentDetail,
+  TournamentFormat,
+  TournamentPairing,
+  TournamentPlayer,
+} from '@shared/types/game.types';
+import { GameException } from '../../common/exceptions/game.exception';
+import { TournamentPairingEntity } from '../../entities/tournament-pairing.entity';
+import { TournamentPlayerEntity } from '../../entities/tournament-player.entity';
+import { TournamentEntity } from '../../entities/tournament.entity';
+import { PlayerService } from '../player/player.service';
+import {
+  advanceBracket,
+  Pairing,
+  pairRoundRobin,
+  pairSwiss,
+  PlayedPairing,
+  plannedRounds,
+  seedBracket,
+} from './pairing';
+import { computeStandings } from './standings';
+
+const LIST_LIMIT = 50;
+
+/** A pairing of the current round that still needs a room. */
+export interface PendingGame {
+  pairingId: string;
+  tournamentId: string;
+  name: string; // for the room
+  ruleset: RuleVariant;
+  timeControl: TimeControl;
+  players: [Player, Player];
+}
+
+/**
+ * Tournaments, their players and the pairings of each round, kept in
+ * Postgres. The games are ordinary rooms opened by the TournamentScheduler;
+ * their results come back through recordResult, and each result that
+ * finishes a round pairs the next one.
+ */
+@Injectable()
+export class TournamentService {
+  private readonly logger = new Logger(TournamentService.name);
+
+  constructor(
+    @InjectRepository(TournamentEntity)
+    private readonly tournamentRepository: Repository<TournamentEntity>,
+    @InjectRepository(TournamentPlayerEntity)
+    private readonly entrantRepository: Repository<TournamentPlayerEntity>,
+    @InjectRepository(TournamentPairingEntity)
+    private readonly pairingRepository: Repository<TournamentPairingEntity>,
+    private readonly dataSource: DataSource,
+    private readonly playerService: PlayerService,
+  ) {}
+
+  async create(
+    organizer: Player,
+    request: CreateTournamentRequest,
+  ): Promise<Tournament> {
+    const ruleset = request.ruleset ?? DEFAULT_RULE_VARIANT;
+    if (!isRuleVariant(ruleset)) {
+      throw new GameException('VALIDATION_ERROR', 'Unknown rule variant');
+    }
+    const timeControl = request.timeControl ?? DEFAULT_TIME_CONTROL;
+    const timeControlError = validateTimeControl(timeControl);
+    if (timeControlError) {
+      throw new GameException('VALIDATION_ERROR', timeControlError);
+    }
+    if (request.rounds !== undefined && request.format !== 'swiss') {
+      throw new GameException(
+        'VALIDATION_ERROR',
+        'Only Swiss tournaments take a number of rounds',
+      );
+    }
+
+    const { identifiers } = await this.tournamentRepository.insert({
+      name: request.name.trim(),
+      format: request.format,
+      ruleset,
+      timeControl,
+      organizerId: organizer.id,
+      requestedRounds: request.rounds ?? null,
+    });
+    const id = (identifiers[0] as Pick<TournamentEntity, 'id'>).id;
+    this.logger.log(`Tournament ${id} created by ${organizer.username}`);
+    return this.toTournament(await this.getOrThrow(id), 0);
+  }
+
+  /** The latest tournaments, newest first. */
+  async list(): Promise<Tournament[]> {
+    const tournaments = await this.tournamentRepository.find({
+      relations: { organizer: true },
+      order: { createdAt: 'DESC' },
+      take: LIST_LIMIT,
+    });
+    const counts = await this.countPlayers(tournaments.map(({ id }) => id));
+    return tournaments.map((tournament) =>
+      this.toTournament(tournament, counts.get(tournament.id) ?? 0),
+    );
+  }
+
+  async getDetail(tournamentId: string): Promise<TournamentDetail> {
+    const tournament = await this.getOrThrow(tournamentId);
+    const players = await this.findPlayers(tournamentId);
+    const pairings = await this.pairingRepository.find({
+      where: { tournamentId },
+      order: { round: 'ASC', board: 'ASC' },
+    });
+
+    const rounds: TournamentPairing[][] = [];
+    for (const pairing of pairings) {
+      (rounds[pairing.round - 1] ??= []).push(this.toPairing(pairing));
+    }
+    return {
+      tournament: this.toTournament(tournament, players.length),
+      players,
+      standings: computeStandings(
+        tournament.format,
+        players,
+        pairings.map((pairing) => this.toPlayed(pairing)),
+      ),
+      rounds,
+    };
+  }
+
+  /** Registering again is a no-op. */
+  async register(tournamentId: string, player: Player): Promise<void> {
+    const tournament = await this.getOrThrow(tournamentId);
+    this.assertRegistrationOpen(tournament);
+
+    if (
+      await this.entrantRepository.existsBy({
+        tournamentId,
+        playerId: player.id,
+      })
+    ) {
+      return;
+    }
+    const count = await this.entrantRepository.countBy({ tournamentId });
+    if (count >= GAME_CONFIG.TOURNAMENT_MAX_PLAYERS) {
+      throw new GameException('INVALID_STATE', 'Tournament is full');
+    }
+
+    await this.entrantRepository.insert({
+      tournamentId,
+      playerId: player.id,
+      elo: player.elo,
+    });
+  }
+
+  async withdraw(tournamentId: string, playerId: string): Promise<void> {
+    const tournament = await this.getOrThrow(tournamentId);
+    this.assertRegistrationOpen(tournament);
+    await this.entrantRepository.delete({ tournamentId, playerId });
+  }
+
+  /**
+   * Closes registration, seeds the players by rating and pairs the first
+   * round. Byes are scored at once.
+   */
+  async start(
+    tournamentId: string,
+    organizerId: string,
+  ): Promise<TournamentDetail> {
+    const tournament = await this.getOrThrow(tournamentId);
+    if (tournament.organizerId !== organizerId) {
+      throw new GameException(
+        'NOT_ORGANIZER',
+        'Only the organizer can start the tournament',
+      );
+    }
+    this.assertRegistrationOpen(tournament);
+
+    const entrants = await this.entrantRepository.find({
+      where: { tournamentId },
+      relations: { player: true },
+      order: { elo: 'DESC', registeredAt: 'ASC' },
+    });
+    if (entrants.length < 2) {
+      throw new GameException(
+        'INVALID_STATE',
+        'A tournament needs at least two players',
+      );
+    }
+
+    const players = entrants.map((entrant, index) =>
+      this.toTournamentPlayer({ ...entrant, seed: index + 1 }),
+    );
+    const pairings = this.pairRound(tournament.format, players, [], 1);
+    await this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        TournamentEntity,
+        { id: tournamentId, status: 'registration' },
+        {
+          status: 'in_progress',
+          rounds: plannedRounds(
+            tournament.format,
+            players.length,
+            tournament.requestedRounds ?? undefined,
+          ),
+          currentRound: 1,
+          startedAt: new Date(),
+        },
+      );
+      if (!affected) {
+        throw new GameException(
+          'INVALID_STATE',
+          'Tournament has already started',
+        );
+      }
+
+      for (const [index, entrant] of entrants.entries()) {
+        await manager.update(
+          TournamentPlayerEntity,
+          { id: entrant.id },
+          { seed: index + 1 },
+        );
+      }
+      await manager.insert(
+        TournamentPairingEntity,
+        this.toRows(tournamentId, 1, pairings),
+      );
+    });
+
+    this.logger.log(
+      `Tournament ${tournamentId} started with ${players.length} players`,
+    );
+    return this.getDetail(tournamentId);
+  }
+
+  /** Games of current rounds that have yet to be opened. */
+  async findPendingGames(): Promise<PendingGame[]> {
+    const pairings = await this.pairingRepository
+      .createQueryBuilder('pairing')
+      .innerJoinAndSelect('pairing.tournament', 'tournament')
+      .where('tournament.status = :status', { status: 'in_progress' })
+      .andWhere('pairing.round = tournament.currentRound')
+      .andWhere('pairing.secondPlayerId IS NOT NULL')
+      .andWhere('pairing.roomId IS NULL')
+      .andWhere('pairing.result IS NULL')
+      .orderBy('pairing.board', 'ASC')
+      .getMany();
+
+    const games: PendingGame[] = [];
+    for (const pairing of pairings) {
+      const first = await this.playerService.findById(pairing.firstPlayerId);
+      const second = await this.playerService.findById(pairing.secondPlayerId!);
+      if (!first || !second) {
+        continue;
+      }
+
+      games.push({
+        pairingId: pairing.id,
+        tournamentId: pairing.tournamentId,
+        name: `${pairing.tournament.name}, round ${pairing.round} board ${pairing.board}`,
+        ruleset: pairing.tournament.ruleset,
+        timeControl: pairing.tournament.timeControl,
+        players: [
+          this.playerService.toPlayer(first),
+          this.playerService.toPlayer(second),
+        ],
+      });
+    }
+    return games;
+  }
+
+  /** Ties the game's room to its pairing, unless it already has one. */
+  async setRoom(pairingId: string, roomId: string): Promise<boolean> {
+    const { affected } = await this.pairingRepository.update(
+      { id: pairingId, roomId: IsNull(), result: IsNull() },
+      { roomId },
+    );
+    return !!affected;
+  }
+
+  /**
+   * Scores the tournament game played in the room. A drawn knockout game
+   * is played again. Returns the tournament, or null for a room outside
+   * any tournament.
+   */
+  async recordResult(
+    roomId: string,
+    winnerId: string | null,
+  ): Promise<string | null> {
+    const pairing = await this.findPlaying(roomId);
+    if (!pairing) {
+      return null;
+    }
+
+    if (!winnerId && pairing.tournament.format === 'single-elimination') {
+      await this.pairingRepository.update(
+        { id: pairing.id, result: IsNull() },
+        { roomId: null },
+      );
+      return pairing.tournamentId;
+    }
+
+    await this.settle(
+      pairing,
+      !winnerId
+        ? 'draw'
+        : winnerId === pairing.firstPlayerId
+          ? 'first'
+          : 'second',
+    );
+    return pairing.tournamentId;
+  }
+
+  /**
+   * Scores a game that did not start because players did not accept or
+   * left: a player who turned up wins. When neither did, the game is drawn,
+   * or in a knockout the higher seed goes through.
+   */
+  async recordNoShow(
+    roomId: string,
+    absentIds: string[],
+  ): Promise<string | null> {
+    const pairing = await this.findPlaying(roomId);
+    const firstAbsent = absentIds.includes(pairing?.firstPlayerId ?? '');
+    const secondAbsent = absentIds.includes(pairing?.secondPlayerId ?? '');
+    if (!pairing || (!firstAbsent && !secondAbsent)) {
+      return null;
+    }
+
+    let result: PairingResult = firstAbsent ? 'second' : 'first';
+    if (firstAbsent && secondAbsent) {
+      result =
+        pairing.tournament.format === 'single-elimination'
+          ? await this.higherSeed(pairing)
+          : 'draw';
+    }
+    await this.settle(pairing, result);
+    return pairing.tournamentId;
+  }
+
+  private async settle(
+    pairing: TournamentPairingEntity,
+    result: PairingResult,
+  ): Promise<void> {
+    const { affected } = await this.pairingRepository.update(
+      { id: pairing.id, result: IsNull() },
+      { result },
+    );
+    if (affected) {
+      await this.advance(pairing.tournamentId);
+    }
+  }
+
+  /**
+   * Pairs the next round once every game of the current one has a result,
+   * or completes the tournament after its last round. Moving currentRound
+   * on claims the round, so results landing together pair it once.
+   */
+  private async advance(tournamentId: string): Promise<void> {
+    const tournament = await this.tournamentRepository.findOneBy({
+      id: tournamentId,
+    });
+    if (tournament?.status !== 'in_progress') {
+      return;
+    }
+
+    const round = tournament.currentRound;
+    const unfinished = await this.pairingRepository.existsBy({
+      tournamentId,
+      round,
+      result: IsNull(),
+    });
+    if (unfinished) {
+      return;
+    }
+
+    if (round >= (tournament.rounds ?? 0)) {
+      const { affected } = await this.tournamentRepository.update(
+        { id: tournamentId, status: 'in_progress', currentRound: round },
+        { status: 'completed', endedAt: new Date() },
+      );
+      if (affected) {
+        this.logger.log(`Tournament ${tournamentId} completed`);
+      }
+      return;
+    }
+
+    const history = await this.pairingRepository.find({
+      where: { tournamentId, result: Not(IsNull()) },
+    });
+    const pairings = this.pairRound(
+      tournament.format,
+      await this.findPlayers(tournamentId),
+      history.map((pairing) => this.toPlayed(pairing)),
+      round + 1,
+    );
+    await this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        TournamentEntity,
+        { id: tournamentId, currentRound: round },
+        { currentRound: round + 1 },
+      );
+      if (affected) {
+        await manager.insert(
+          TournamentPairingEntity,
+          this.toRows(tournamentId, round + 1, pairings),
+        );
+      }
+    });
+  }
+
+  // Players must be in seed order
+  private pairRound(
+    format: TournamentFormat,
+    players: TournamentPlayer[],
+    history: PlayedPairing[],
+    round: number,
+  ): Pairing[] {
+    const seeded = players.map(({ id }) => id);
+    switch (format) {
+      case 'round-robin':
+        return pairRoundRobin(seeded, round);
+      case 'swiss':
+        return pairSwiss(
+          computeStandings(format, players, history).map(
+            ({ player }) => player.id,
+          ),
+          history,
+        );
+      case 'single-elimination':
+        return round === 1
+          ? seedBracket(seeded)
+          : advanceBracket(
+              history.filter((pairing) => pairing.round === round - 1),
+            );
+    }
+  }
+
+  private async higherSeed(
+    pairing: TournamentPairingEntity,
+  ): Promise<PairingResult> {
+    const entrants = await this.entrantRepository.findBy({
+      tournamentId: pairing.tournamentId,
+      playerId: In([pairing.firstPlayerId, pairing.secondPlayerId]),
+    });
+    const seedOf = (playerId: string | null): number =>
+      entrants.find((entrant) => entrant.playerId === playerId)?.seed ??
+      Number.MAX_SAFE_INTEGER;
+    return seedOf(pairing.secondPlayerId) < seedOf(pairing.firstPlayerId)
+      ? 'second'
+      : 'first';
+  }
+
+  // The unscored pairing played in the room
+  private async findPlaying(
+    roomId: string,
+  ): Promise<TournamentPairingEntity | null> {
+    return this.pairingRepository.findOne({
+      where: { roomId, result: IsNull() },
+      relations: { tournament: true },
+    });
+  }
+
+  // In seed order once seeded, by rating before
+  private async findPlayers(tournamentId: string): Promise<TournamentPlayer[]> {
+    const entrants = await this.entrantRepository.find({
+      where: { tournamentId },
+      relations: { player: true },
+      order: { elo: 'DESC', registeredAt: 'ASC' },
+    });
+    return entrants
+      .map((entrant) => this.toTournamentPlayer(entrant))
+      .sort(
+        (a, b) =>
+          (a.seed ?? Number.MAX_SAFE_INTEGER) -
+          (b.seed ?? Number.MAX_SAFE_INTEGER),
+      );
+  }
+
+  private async countPlayers(
+    tournamentIds: string[],
+  ): Promise<Map<string, number>> {
+    if (!tournamentIds.length) {
+      return new Map();
+    }
+
+    const rows = await this.entrantRepository
+      .createQueryBuilder('entrant')
+      .select('entrant.tournamentId', 'tournamentId')
+      .addSelect('COUNT(*)', 'count')
+      .where('entrant.tournamentId IN (:...tournamentIds)', { tournamentIds })
+      .groupBy('entrant.tournamentId')
+      .getRawMany<{ tournamentId: string; count: string }>();
+    return new Map(rows.map((row) => [row.tournamentId, Number(row.count)]));
+  }
+
+  private async getOrThrow(tournamentId: string): Promise<TournamentEntity> {
+    const tournament = await this.tournamentRepository.findOne({
+      where: { id: tournamentId },
+      relations: { organizer: true },
+    });
+    if (!tournament) {
+      throw new GameException('TOURNAMENT_NOT_FOUND', 'Tournament not found');
+    }
+    return tournament;
+  }
+
+  private assertRegistrationOpen(tournament: TournamentEntity): void {
+    if (tournament.status !== 'registration') {
+      throw new GameException('INVALID_STATE', 'Registration is closed');
+    }
+  }
+
+  private toRows(
+    tournamentId: string,
+    round: number,
+    pairings: Pairing[],
+  ): Partial<TournamentPairingEntity>[] {
+    return pairings.map(({ board, first, second }) => ({
+      tournamentId,
+      round,
+      board,
+      firstPlayerId: first,
+      secondPlayerId: second,
+      // A bye is scored as a win straight away
+      result: second === null ? 'first' : null,
+    }));
+  }
+
+  private toTournament(
+    entity: TournamentEntity,
+    playerCount: number,
+  ): Tournament {
+    return {
+      id: entity.id,
+      name: entity.name,
+      format: entity.format,
+      ruleset: entity.ruleset,
+      timeControl: entity.timeControl,
+      status: entity.status,
+      organizer: entity.organizer.username,
+      rounds: entity.rounds,
+      currentRound: entity.currentRound,
+      playerCount,
+      createdAt: entity.createdAt,
+    };
+  }
+
+  private toTournamentPlayer(entity: TournamentPlayerEntity): TournamentPlayer {
+    return {
+      id: entity.playerId,
+      username: entity.player.username,
+      elo: entity.elo,
+      seed: entity.seed,
+    };
+  }
+
+  private toPairing(entity: TournamentPairingEntity): TournamentPairing {
+    return {
+      round: entity.round,
+      board: entity.board,
+      firstPlayerId: entity.firstPlayerId,
+      secondPlayerId: entity.secondPlayerId,
+      roomId: entity.roomId,
+      result: entity.result,
+    };
+  }
+
+  private toPlayed(entity: TournamentPairingEntity): PlayedPairing {
+    return {
+      round: entity.round,
+      board: entity.board,
+      first: entity.firstPlayerId,
+      second: entity.secondPlayerId,
+      result: entity.result,
+    };
+  }
+}
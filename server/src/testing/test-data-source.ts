@@ -0,0 +1,69 @@
+import { randomUUID } from 'crypto';
+import { DataType, newDb } from 'pg-mem';
+import { DataSource } from 'typeorm';
+import { EloHistoryEntity } from '../entities/elo-history.entity';
+import { GameParticipantEntity } from '../entities/game-participant.entity';
+import { GameEntity } from '../entities/game.entity';
+import { MoveEntity } from '../entities/move.entity';
+import { PlayerEntity } from '../entities/player.entity';
+import { TournamentPairingEntity } from '../entities/tournament-pairing.entity';
+import { TournamentPlayerEntity } from '../entities/tournament-player.entity';
+import { TournamentEntity } from '../entities/tournament.entity';
+import { InitialSchema1792404000000 } from '../migrations/1792404000000-InitialSchema';
+import { AddMoveTimeRemaining1792407600000 } from '../migrations/1792407600000-AddMoveTimeRemaining';
+import { AddPlayerIsBot1792411200000 } from '../migrations/1792411200000-AddPlayerIsBot';
+import { AddGameAnalysis1792414800000 } from '../migrations/1792414800000-AddGameAnalysis';
+import { AddTournaments1792418400000 } from '../migrations/1792418400000-AddTournaments';
+import { AddTimeControls1792422000000 } from '../migrations/1792422000000-AddTimeControls';
+import { RequireTimeControls1792425600000 } from '../migrations/1792425600000-RequireTimeControls';
+
+/**
+ * An in-memory Postgres (pg-mem) with the schema built by the real
+ * migrations, for specs that need a database. pg-mem does not roll back
+ * transactions opened through TypeORM, so specs cannot rely on rollbacks.
+ */
+export async function createTestDataSource(): Promise<DataSource> {
+  const db = newDb();
+  db.public.registerFunction({
+    name: 'current_database',
+    implementation: () => 'caro_game_test',
+  });
+  db.public.registerFunction({
+    name: 'version',
+    implementation: () => 'PostgreSQL 16 (pg-mem)',
+  });
+  db.registerExtension('uuid-ossp', (schema) =>
+    schema.registerFunction({
+      name: 'uuid_generate_v4',
+      returns: DataType.uuid,
+      implementation: randomUUID,
+      impure: true,
+    }),
+  );
+
+  const dataSource = (await db.adapters.createTypeormDataSource({
+    type: 'postgres',
+    entities: [
+      PlayerEntity,
+      GameEntity,
+      GameParticipantEntity,
+      MoveEntity,
+      EloHistoryEntity,
+      TournamentEntity,
+      TournamentPlayerEntity,
+      TournamentPairingEntity,
+    ],
+    migrations: [
+      InitialSchema1792404000000,
+      AddMoveTimeRemaining1792407600000,
+      AddPlayerIsBot1792411200000,
+      AddGameAnalysis1792414800000,
+      AddTournaments1792418400000,
+      AddTimeControls1792422000000,
+      RequireTimeControls1792425600000,
+    ],
+  })) as DataSource;
+  await dataSource.initialize();
+  await dataSource.runMigrations();
+  return dataSource;
+}
@@ -0,0 +1,16 @@
+import { Player } from '@shared/types/game.types';
+
+/** A new, provisional player for specs that only need one in Redis. */
+export function makePlayer(id: string, elo = 1000): Player {
+  return {
+    id,
+    username: id,
+    elo,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    isProvisional: true,
+    isOnline: true,
+    createdAt: new Date(),
+  };
+}
@@ -0,0 +1,228 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { randomBytes, randomUUID } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { RedisOptions } from 'ioredis';
+import { io, Socket } from 'socket.io-client';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import {
+  AuthResponse,
+  ChallengePayload,
+  CreateRoomResponse,
+  ErrorPayload,
+  GameStartPayload,
+  GameStateUpdatePayload,
+  MoveMadePayload,
+  PlayerJoinedPayload,
+  SocketEvent,
+} from '@shared/types/game.types';
+import { AppModule } from './../src/app.module';
+import { RedisIoAdapter } from './../src/common/adapters/redis-io.adapter';
+import { SchedulerLeaseService } from './../src/common/services/scheduler-lease.service';
+
+interface TestPlayer {
+  id: string;
+  token: string;
+}
+
+/**
+ * Two server instances against one Redis and Postgres, as they run behind
+ * a load balancer. Needs both running locally (`docker-compose up -d
+ * postgres redis`) and nothing else holding the scheduler lease.
+ */
+describe('Multiple instances (e2e)', () => {
+  let apps: INestApplication<App>[];
+  const sockets: Socket[] = [];
+
+  // Set up as in main.ts
+  async function startInstance(): Promise<INestApplication<App>> {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    const app = moduleFixture.createNestApplication<INestApplication<App>>();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    app.setGlobalPrefix('api');
+    const ioAdapter = new RedisIoAdapter(app);
+    ioAdapter.connectToRedis(
+      app.get(ConfigService).getOrThrow<RedisOptions>('redis'),
+    );
+    app.useWebSocketAdapter(ioAdapter);
+    await app.listen(0);
+    return app;
+  }
+
+  async function register(app: INestApplication<App>): Promise<TestPlayer> {
+    const response = await request(app.getHttpServer())
+      .post('/api/auth/register')
+      .send({
+        username: `e2e_${randomBytes(6).toString('hex')}`,
+        password: 'password123',
+      })
+      .expect(201);
+    const { data } = response.body as AuthResponse;
+    return { id: data.user.id, token: data.accessToken };
+  }
+
+  async function connect(
+    app: INestApplication<App>,
+    player: TestPlayer,
+  ): Promise<Socket> {
+    const server = app.getHttpServer() as Server;
+    const { port } = server.address() as AddressInfo;
+    const socket = io(`http://localhost:${port}`, {
+      auth: { token: player.token },
+      transports: ['websocket'],
+      forceNew: true,
+    });
+    sockets.push(socket);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('connect_error', reject);
+    });
+    return socket;
+  }
+
+  function next<T>(socket: Socket, event: SocketEvent): Promise<T> {
+    return new Promise((resolve) => socket.once(event, resolve));
+  }
+
+  function collect<T>(socket: Socket, event: SocketEvent): T[] {
+    const received: T[] = [];
+    socket.on(event, (payload: T) => received.push(payload));
+    return received;
+  }
+
+  function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  beforeAll(async () => {
+    apps = [await startInstance(), await startInstance()];
+  }, 30_000);
+
+  afterAll(async () => {
+    sockets.forEach((socket) => socket.disconnect());
+    await Promise.all(apps.map((app) => app.close()));
+  });
+
+  describe('a game played across both instances', () => {
+    let alice: TestPlayer;
+    let bob: TestPlayer;
+    // Each player has a socket on either instance
+    let aliceSockets: Socket[];
+    let bobSockets: Socket[];
+    let roomId: string;
+    let gameId: string;
+
+    beforeAll(async () => {
+      alice = await register(apps[0]);
+      bob = await register(apps[1]);
+      aliceSockets = [
+        await connect(apps[0], alice),
+        await connect(apps[1], alice),
+      ];
+      bobSockets = [await connect(apps[0], bob), await connect(apps[1], bob)];
+
+      const response = await request(apps[0].getHttpServer())
+        .post('/api/rooms')
+        .set('Authorization', `Bearer ${alice.token}`)
+        .send({ name: 'Across instances' })
+        .expect(201);
+      roomId = (response.body as CreateRoomResponse).data.id;
+    }, 30_000);
+
+    it('should relay broadcasts from one instance to the other', async () => {
+      // Alice is seated through the first instance, Bob the second
+      const joined = next(aliceSockets[0], SocketEvent.ROOM_JOINED);
+      aliceSockets[0].emit(SocketEvent.JOIN_ROOM, { roomId });
+      await joined;
+
+      const playerJoined = next<PlayerJoinedPayload>(
+        aliceSockets[0],
+        SocketEvent.PLAYER_JOINED,
+      );
+      const challenge = next<ChallengePayload>(
+        aliceSockets[0],
+        SocketEvent.CHALLENGE,
+      );
+      bobSockets[1].emit(SocketEvent.JOIN_ROOM, { roomId });
+
+      expect((await playerJoined).player.id).toBe(bob.id);
+      const { players } = await challenge;
+      expect(players.map((seat) => seat.player.id).sort()).toEqual(
+        [alice.id, bob.id].sort(),
+      );
+      gameId = (await challenge).gameId;
+    });
+
+    it('should accept only one of two moves raced on both instances', async () => {
+      const started = next<GameStartPayload>(
+        aliceSockets[0],
+        SocketEvent.GAME_START,
+      );
+      aliceSockets[0].emit(SocketEvent.CHALLENGE_ACCEPTED, { gameId });
+      bobSockets[1].emit(SocketEvent.CHALLENGE_ACCEPTED, { gameId });
+      const { game } = await started;
+
+      const aliceMoves =
+        game.players.find((seat) => seat.symbol === game.currentTurn)?.player
+          .id === alice.id;
+      const movers = aliceMoves ? aliceSockets : bobSockets;
+      // The socket the opponent joined the room with
+      const watcher = aliceMoves ? bobSockets[1] : aliceSockets[0];
+      const moves = collect<MoveMadePayload>(watcher, SocketEvent.MOVE_MADE);
+      const errors = movers.map((socket) =>
+        collect<ErrorPayload>(socket, SocketEvent.ERROR),
+      );
+
+      // The same player sends two different first moves, one to each
+      movers.forEach((socket, index) =>
+        socket.emit(SocketEvent.MAKE_MOVE, {
+          gameId,
+          position: { row: 7, col: 7 + index },
+          moveNumber: 1,
+          moveId: randomUUID(),
+        }),
+      );
+      await sleep(1_000);
+
+      expect(moves).toHaveLength(1);
+      expect(moves[0].version).toBe(1);
+      expect(errors.flat()).toEqual([
+        expect.objectContaining({ code: 'OUT_OF_SEQUENCE' }),
+      ]);
+
+      const synced = next<GameStateUpdatePayload>(
+        watcher,
+        SocketEvent.GAME_STATE_UPDATE,
+      );
+      watcher.emit(SocketEvent.SYNC_GAME, { gameId });
+      expect((await synced).game.moveHistory).toEqual([moves[0].move]);
+    });
+  });
+
+  it('should run the schedulers on one instance at a time', async () => {
+    // Let both instances finish with the players leaving first
+    sockets.forEach((socket) => socket.disconnect());
+    await sleep(500);
+
+    const [first, second] = apps.map((app) => app.get(SchedulerLeaseService));
+    expect([first.isLeader(), second.isLeader()].sort()).toEqual([false, true]);
+
+    const [leader, follower] = first.isLeader() ? [0, 1] : [1, 0];
+    await apps[leader].close();
+    apps = [apps[follower]];
+
+    expect(await apps[0].get(SchedulerLeaseService).renew()).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  bestClockOffset,
+  completeMove,
+  currentClocks,
+  formatTimeControl,
+  isFlagged,
+  runClock,
+  sampleClockOffset,
+  startingClock,
+  timeUntilFlag,
+  validateTimeControl,
+} from './game.clock';
+import { DEFAULT_TIME_CONTROL, TimeControl } from './game.types';
+
+// 5 minutes + 3 seconds, then three 30 second periods
+const control: TimeControl = {
+  initial: 300_000,
+  increment: 3_000,
+  byoyomiPeriods: 3,
+  byoyomiTime: 30_000,
+};
+
+describe('validateTimeControl', () => {
+  it('should accept sensible time controls', () => {
+    expect(validateTimeControl(control)).toBeNull();
+    expect(validateTimeControl(DEFAULT_TIME_CONTROL)).toBeNull();
+    expect(validateTimeControl({ ...control, byoyomiPeriods: 0 })).toBeNull();
+  });
+
+  it('should reject time controls that cannot be played', () => {
+    expect(validateTimeControl({ ...control, initial: -1 })).not.toBeNull();
+    expect(validateTimeControl({ ...control, increment: 0.5 })).not.toBeNull();
+    expect(
+      validateTimeControl({ ...control, byoyomiTime: 1_000 }),
+    ).not.toBeNull();
+    expect(
+      validateTimeControl({ ...control, initial: 0, byoyomiPeriods: 0 }),
+    ).not.toBeNull();
+    expect(validateTimeControl({ ...control, initial: 0 })).not.toBeNull();
+  });
+});
+
+describe('runClock', () => {
+  it('should run down main time first', () => {
+    expect(runClock(startingClock(control), control, 10_000)).toEqual({
+      remaining: 290_000,
+      periods: 3,
+      inByoyomi: false,
+    });
+  });
+
+  it('should use up byo-yomi periods once main time is gone', () => {
+    expect(runClock(startingClock(control), control, 340_000)).toEqual({
+      remaining: 20_000,
+      periods: 2,
+      inByoyomi: true,
+    });
+  });
+
+  it('should flag a player whose last period runs out', () => {
+    const clock = runClock(startingClock(control), control, 390_000);
+    expect(isFlagged(clock)).toBe(true);
+    expect(timeUntilFlag(startingClock(control), control)).toBe(390_000);
+  });
+
+  it('should go straight into byo-yomi without main time', () => {
+    const clock = startingClock(DEFAULT_TIME_CONTROL);
+    expect(clock).toEqual({ remaining: 30_000, periods: 1, inByoyomi: true });
+    expect(timeUntilFlag(clock, DEFAULT_TIME_CONTROL)).toBe(30_000);
+  });
+});
+
+describe('completeMove', () => {
+  it('should add the increment in main time', () => {
+    const clock = runClock(startingClock(control), control, 10_000);
+    expect(completeMove(clock, control).remaining).toBe(293_000);
+  });
+
+  it('should start a byo-yomi period over', () => {
+    const clock = runClock(startingClock(control), control, 325_000);
+    expect(completeMove(clock, control)).toEqual({
+      remaining: 30_000,
+      periods: 3,
+      inByoyomi: true,
+    });
+  });
+});
+
+describe('currentClocks', () => {
+  it('should run only the clock of the player to move', () => {
+    const game = {
+      timeControl: control,
+      clocks: { X: startingClock(control), O: startingClock(control) },
+      currentTurn: 'O' as const,
+      turnStartedAt: 1_000,
+    };
+    const clocks = currentClocks(game, 6_000);
+    expect(clocks.X.remaining).toBe(300_000);
+    expect(clocks.O.remaining).toBe(295_000);
+    expect(currentClocks({ ...game, turnStartedAt: null }, 6_000)).toBe(
+      game.clocks,
+    );
+  });
+});
+
+describe('formatTimeControl', () => {
+  it('should describe main time, increment and byo-yomi', () => {
+    expect(formatTimeControl(control)).toBe('5 min + 3s, 3×30s');
+    expect(formatTimeControl({ ...control, byoyomiPeriods: 0 })).toBe(
+      '5 min + 3s',
+    );
+    expect(formatTimeControl(DEFAULT_TIME_CONTROL)).toBe('1×30s');
+  });
+});
+
+describe('sampleClockOffset', () => {
+  it('should assume the reply took half the round trip', () => {
+    // Sent at 1000 by the client, answered at 5060 by a server 4000 ahead
+    expect(
+      sampleClockOffset({ clientTime: 1_000, serverTime: 5_060 }, 1_120),
+    ).toEqual({ offset: 4_000, roundTrip: 120 });
+  });
+
+  it('should discard a trip the client clock went back during', () => {
+    expect(
+      sampleClockOffset({ clientTime: 1_000, serverTime: 5_000 }, 900),
+    ).toBeNull();
+  });
+});
+
+describe('bestClockOffset', () => {
+  it('should keep the sample with the shortest round trip', () => {
+    expect(
+      bestClockOffset([
+        { offset: 4_100, roundTrip: 300 },
+        { offset: 4_000, roundTrip: 40 },
+        { offset: 3_950, roundTrip: 90 },
+      ]),
+    ).toEqual({ offset: 4_000, roundTrip: 40 });
+    expect(bestClockOffset([])).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Game clocks
+ * Main time with a Fischer increment, then byo-yomi periods. A clock is
+ * stored as it stood when its player's turn began; the time since then is
+ * applied on reading, so the server and every client can run the same
+ * clock from the same snapshot.
+ */
+
+import {
+  ClockSyncedPayload,
+  GAME_CONFIG,
+  GameState,
+  PlayerClock,
+  TimeControl,
+} from './game.types';
+
+const FLAGGED: PlayerClock = { remaining: 0, periods: 0, inByoyomi: true };
+
+export function validateTimeControl(control: TimeControl): string | null {
+  const { initial, increment, byoyomiPeriods, byoyomiTime } = control;
+  if (
+    ![initial, increment, byoyomiPeriods, byoyomiTime].every(
+      (value) => Number.isInteger(value) && value >= 0,
+    )
+  ) {
+    return 'Time control values must be whole, non-negative numbers';
+  }
+  if (initial > GAME_CONFIG.MAX_INITIAL_TIME) {
+    return `Main time cannot exceed ${GAME_CONFIG.MAX_INITIAL_TIME / 60000} minutes`;
+  }
+  if (increment > GAME_CONFIG.MAX_INCREMENT) {
+    return `Increment cannot exceed ${GAME_CONFIG.MAX_INCREMENT / 1000} seconds`;
+  }
+  if (byoyomiPeriods > GAME_CONFIG.MAX_BYOYOMI_PERIODS) {
+    return `At most ${GAME_CONFIG.MAX_BYOYOMI_PERIODS} byo-yomi periods are allowed`;
+  }
+  if (
+    byoyomiPeriods > 0 &&
+    (byoyomiTime < GAME_CONFIG.MIN_BYOYOMI_TIME ||
+      byoyomiTime > GAME_CONFIG.MAX_BYOYOMI_TIME)
+  ) {
+    return `Byo-yomi periods must be between ${GAME_CONFIG.MIN_BYOYOMI_TIME / 1000} and ${GAME_CONFIG.MAX_BYOYOMI_TIME / 1000} seconds`;
+  }
+  if (initial === 0 && byoyomiPeriods === 0) {
+    return 'A time control needs main time, byo-yomi or both';
+  }
+  if (initial === 0 && increment > 0) {
+    return 'An increment needs main time';
+  }
+  return null;
+}
+
+export function startingClock(control: TimeControl): PlayerClock {
+  return control.initial > 0
+    ? {
+        remaining: control.initial,
+        periods: control.byoyomiPeriods,
+        inByoyomi: false,
+      }
+    : {
+        remaining: control.byoyomiTime,
+        periods: control.byoyomiPeriods,
+        inByoyomi: true,
+      };
+}
+
+/**
+ * The clock after its player has thought for `elapsed` ms: main time runs
+ * down first, then each byo-yomi period that runs out is used up.
+ */
+export function runClock(
+  clock: PlayerClock,
+  control: TimeControl,
+  elapsed: number,
+): PlayerClock {
+  let left = Math.max(elapsed, 0);
+  let { remaining, periods } = clock;
+
+  if (!clock.inByoyomi) {
+    if (left < remaining) {
+      return { ...clock, remaining: remaining - left };
+    }
+    left -= remaining;
+    remaining = control.byoyomiTime;
+  }
+
+  while (periods > 0 && left >= remaining) {
+    left -= remaining;
+    periods -= 1;
+    remaining = control.byoyomiTime;
+  }
+  return periods === 0
+    ? FLAGGED
+    : { remaining: remaining - left, periods, inByoyomi: true };
+}
+
+export function isFlagged(clock: PlayerClock): boolean {
+  return clock.periods === 0 && clock.remaining <= 0;
+}
+
+/** How long the player can think before their clock runs out. */
+export function timeUntilFlag(
+  clock: PlayerClock,
+  control: TimeControl,
+): number {
+  const periods = clock.inByoyomi ? clock.periods - 1 : clock.periods;
+  return clock.remaining + Math.max(periods, 0) * control.byoyomiTime;
+}
+
+/**
+ * The clock once its player has moved in time: main time gains the
+ * increment, and a byo-yomi period starts over.
+ */
+export function completeMove(
+  clock: PlayerClock,
+  control: TimeControl,
+): PlayerClock {
+  return clock.inByoyomi
+    ? { ...clock, remaining: control.byoyomiTime }
+    : { ...clock, remaining: clock.remaining + control.increment };
+}
+
+/** Both clocks as they stand at `now`, the running one included. */
+export function currentClocks(
+  game: Pick<
+    GameState,
+    'clocks' | 'currentTurn' | 'timeControl' | 'turnStartedAt'
+  >,
+  now: number,
+): GameState['clocks'] {
+  const { clocks, currentTurn, turnStartedAt } = game;
+  if (!currentTurn || turnStartedAt === null) {
+    return clocks;
+  }
+  return {
+    ...clocks,
+    [currentTurn]: runClock(
+      clocks[currentTurn],
+      game.timeControl,
+      now - turnStartedAt,
+    ),
+  };
+}
+
+function formatDuration(ms: number): string {
+  return ms % 60000 === 0 ? `${ms / 60000} min` : `${ms / 1000}s`;
+}
+
+/** A label such as "5 min + 3s" or "10 min, 3×30s". */
+export function formatTimeControl(control: TimeControl): string {
+  const parts: string[] = [];
+  if (control.initial > 0) {
+    parts.push(
+      control.increment > 0
+        ? `${formatDuration(control.initial)} + ${control.increment / 1000}s`
+        : formatDuration(control.initial),
+    );
+  }
+  if (control.byoyomiPeriods > 0) {
+    parts.push(
+      `${control.byoyomiPeriods}×${formatDuration(control.byoyomiTime)}`,
+    );
+  }
+  return parts.join(', ');
+}
+
+export interface ClockOffsetSample {
+  offset: number; // server clock minus client clock, in ms
+  roundTrip: number;
+}
+
+/**
+ * The server clock's offset from the client's, from one SYNC_CLOCK round
+ * trip answered at `receivedAt`. The reply is assumed to have taken half
+ * the round trip. Null when the client clock went back during the trip.
+ */
+export function sampleClockOffset(
+  { clientTime, serverTime }: ClockSyncedPayload,
+  receivedAt: number,
+): ClockOffsetSample | null {
+  const roundTrip = receivedAt - clientTime;
+  if (roundTrip < 0) {
+    return null;
+  }
+  return { offset: serverTime + roundTrip / 2 - receivedAt, roundTrip };
+}
+
+/**
+ * The least skewed of the samples: the shorter a round trip, the less the
+ * two legs can differ.
+ */
+export function bestClockOffset(
+  samples: ClockOffsetSample[],
+): ClockOffsetSample | null {
+  return samples.reduce<ClockOffsetSample | null>(
+    (best, sample) =>
+      best === null || sample.roundTrip < best.roundTrip ? sample : best,
+    null,
+  );
+}
@@ -0,0 +1,336 @@
+import {
+  applyMove,
+  checkWin,
+  createBoard,
+  findForbiddenMove,
+  getCell,
+  playMove,
+  validateBoardGeometry,
+  validateMove,
+} from './game.engine';
+import { GameBoard, Move, PlayerSymbol, Position } from './game.types';
+
+function move(player: PlayerSymbol, row: number, col: number): Move {
+  return { player, position: { row, col }, timestamp: 0 };
+}
+
+function place(board: GameBoard, player: PlayerSymbol, cells: Position[]) {
+  return cells.reduce(
+    (next, { row, col }) => applyMove(next, move(player, row, col)),
+    board,
+  );
+}
+
+function col(c: number, from: number, to: number): Position[] {
+  return row(c, from, to).map(({ row, col }) => ({ row: col, col: row }));
+}
+
+function row(r: number, from: number, to: number): Position[] {
+  const cells: Position[] = [];
+  for (let c = from; c <= to; c++) cells.push({ row: r, col: c });
+  return cells;
+}
+
+describe('game engine', () => {
+  describe('validateMove', () => {
+    it('should accept a move on an empty cell', () => {
+      expect(validateMove(createBoard(), move('X', 7, 7), 'X')).toEqual({
+        isValid: true,
+      });
+    });
+
+    it('should reject moves outside the board', () => {
+      const result = validateMove(createBoard(), move('X', 16, 0));
+      expect(result.isValid).toBe(false);
+      expect(result.code).toBe('OUT_OF_BOUNDS');
+    });
+
+    it('should reject moves on an occupied cell', () => {
+      const board = applyMove(createBoard(), move('X', 3, 3));
+      expect(validateMove(board, move('O', 3, 3)).code).toBe('CELL_OCCUPIED');
+    });
+
+    it('should reject moves out of turn', () => {
+      expect(validateMove(createBoard(), move('O', 0, 0), 'X').code).toBe(
+        'NOT_YOUR_TURN',
+      );
+    });
+
+    it('should reject moves when the game is over', () => {
+      expect(validateMove(createBoard(), move('X', 0, 0), null).code).toBe(
+        'GAME_OVER',
+      );
+    });
+  });
+
+  describe('applyMove', () => {
+    it('should not mutate the input board', () => {
+      const board = createBoard();
+      const next = applyMove(board, move('X', 1, 2));
+      expect(board.cells[1][2]).toBeNull();
+      expect(next.cells[1][2]).toBe('X');
+    });
+
+    it('should throw on an invalid move', () => {
+      const board = applyMove(createBoard(), move('X', 1, 2));
+      expect(() => applyMove(board, move('O', 1, 2))).toThrow();
+    });
+  });
+
+  describe('checkWin', () => {
+    it('should detect a horizontal five', () => {
+      const board = place(createBoard(), 'X', row(4, 2, 6));
+      expect(checkWin(board, { row: 4, col: 4 })).toEqual({
+        isWin: true,
+        winningLine: {
+          start: { row: 4, col: 2 },
+          end: { row: 4, col: 6 },
+          direction: 'horizontal',
+        },
+      });
+    });
+
+    it('should detect vertical and diagonal fives', () => {
+      const vertical = place(
+        createBoard(),
+        'O',
+        [0, 1, 2, 3, 4].map((r) => ({ row: r, col: 9 })),
+      );
+      expect(
+        checkWin(vertical, { row: 2, col: 9 }).winningLine?.direction,
+      ).toBe('vertical');
+
+      const down = place(
+        createBoard(),
+        'X',
+        [0, 1, 2, 3, 4].map((i) => ({ row: 5 + i, col: 5 + i })),
+      );
+      expect(checkWin(down, { row: 9, col: 9 }).winningLine).toEqual({
+        start: { row: 5, col: 5 },
+        end: { row: 9, col: 9 },
+        direction: 'diagonal-down',
+      });
+
+      const up = place(
+        createBoard(),
+        'X',
+        [0, 1, 2, 3, 4].map((i) => ({ row: 10 - i, col: 3 + i })),
+      );
+      expect(checkWin(up, { row: 8, col: 5 }).winningLine).toEqual({
+        start: { row: 10, col: 3 },
+        end: { row: 6, col: 7 },
+        direction: 'diagonal-up',
+      });
+    });
+
+    it('should not count four in a row', () => {
+      const board = place(createBoard(), 'X', row(0, 0, 3));
+      expect(checkWin(board, { row: 0, col: 3 })).toEqual({ isWin: false });
+    });
+
+    it('should not count a five blocked on both ends', () => {
+      let board = place(createBoard(), 'X', row(4, 2, 6));
+      board = place(board, 'O', [
+        { row: 4, col: 1 },
+        { row: 4, col: 7 },
+      ]);
+      expect(checkWin(board, { row: 4, col: 4 })).toEqual({
+        isWin: false,
+        isTwoEndBlocked: true,
+      });
+    });
+
+    it('should count a five blocked on one end or by the board edge', () => {
+      let board = place(createBoard(), 'X', row(4, 0, 4));
+      board = place(board, 'O', [{ row: 4, col: 5 }]);
+      expect(checkWin(board, { row: 4, col: 0 }).isWin).toBe(true);
+    });
+  });
+
+  describe('rule variants', () => {
+    const overline = () => place(createBoard(), 'X', row(4, 2, 7));
+    const blockedFive = () =>
+      place(place(createBoard(), 'X', row(4, 2, 6)), 'O', [
+        { row: 4, col: 1 },
+        { row: 4, col: 7 },
+      ]);
+
+    it('should let overlines win in freestyle and caro', () => {
+      const pos = { row: 4, col: 4 };
+      expect(checkWin(overline(), pos, { ruleset: 'freestyle' }).isWin).toBe(
+        true,
+      );
+      expect(checkWin(overline(), pos, { ruleset: 'caro' }).isWin).toBe(true);
+    });
+
+    it('should require exactly five in standard', () => {
+      expect(
+        checkWin(overline(), { row: 4, col: 4 }, { ruleset: 'standard' }),
+      ).toEqual({ isWin: false });
+    });
+
+    it('should only apply the two-end block rule in caro', () => {
+      const pos = { row: 4, col: 4 };
+      expect(checkWin(blockedFive(), pos, { ruleset: 'caro' }).isWin).toBe(
+        false,
+      );
+      expect(checkWin(blockedFive(), pos, { ruleset: 'standard' }).isWin).toBe(
+        true,
+      );
+      expect(checkWin(blockedFive(), pos, { ruleset: 'freestyle' }).isWin).toBe(
+        true,
+      );
+    });
+
+    it('should let O win with an overline in renju but not X', () => {
+      const o = place(createBoard(), 'O', row(4, 2, 7));
+      expect(checkWin(o, { row: 4, col: 4 }, { ruleset: 'renju' }).isWin).toBe(
+        true,
+      );
+      expect(
+        checkWin(overline(), { row: 4, col: 4 }, { ruleset: 'renju' }).isWin,
+      ).toBe(false);
+    });
+
+    describe('renju forbidden moves', () => {
+      it('should forbid a double-three for X', () => {
+        const board = place(createBoard(), 'X', [
+          { row: 7, col: 5 },
+          { row: 7, col: 6 },
+          { row: 5, col: 7 },
+          { row: 6, col: 7 },
+        ]);
+        expect(findForbiddenMove(board, { row: 7, col: 7 }, 'X')).toBe(
+          'double-three',
+        );
+        const result = validateMove(board, move('X', 7, 7), 'X', {
+          ruleset: 'renju',
+        });
+        expect(result.code).toBe('FORBIDDEN_MOVE');
+      });
+
+      it('should forbid a double-four for X', () => {
+        const board = place(createBoard(), 'X', [
+          ...row(7, 4, 6),
+          ...col(7, 4, 6),
+        ]);
+        expect(findForbiddenMove(board, { row: 7, col: 7 }, 'X')).toBe(
+          'double-four',
+        );
+      });
+
+      it('should forbid an overline for X', () => {
+        const board = place(createBoard(), 'X', [
+          ...row(7, 2, 4),
+          ...row(7, 6, 7),
+        ]);
+        expect(findForbiddenMove(board, { row: 7, col: 5 }, 'X')).toBe(
+          'overline',
+        );
+      });
+
+      it('should allow a four-three and a move that makes five', () => {
+        const fourThree = place(createBoard(), 'X', [
+          ...row(7, 4, 6),
+          { row: 5, col: 7 },
+          { row: 6, col: 7 },
+        ]);
+        expect(
+          findForbiddenMove(fourThree, { row: 7, col: 7 }, 'X'),
+        ).toBeNull();
+
+        const five = place(createBoard(), 'X', [
+          ...row(7, 3, 6),
+          ...col(7, 4, 6),
+        ]);
+        expect(findForbiddenMove(five, { row: 7, col: 7 }, 'X')).toBeNull();
+      });
+
+      it('should not restrict O or other rulesets', () => {
+        const board = place(createBoard(), 'O', [
+          { row: 7, col: 5 },
+          { row: 7, col: 6 },
+          { row: 5, col: 7 },
+          { row: 6, col: 7 },
+        ]);
+        expect(
+          validateMove(board, move('O', 7, 7), 'O', { ruleset: 'renju' })
+            .isValid,
+        ).toBe(true);
+        const xBoard = place(createBoard(), 'X', [
+          { row: 7, col: 5 },
+          { row: 7, col: 6 },
+          { row: 5, col: 7 },
+          { row: 6, col: 7 },
+        ]);
+        expect(
+          validateMove(xBoard, move('X', 7, 7), 'X', { ruleset: 'caro' })
+            .isValid,
+        ).toBe(true);
+      });
+    });
+  });
+
+  describe('board geometry', () => {
+    it('should bound moves by the board size', () => {
+      expect(validateMove(createBoard(15), move('X', 15, 0)).code).toBe(
+        'OUT_OF_BOUNDS',
+      );
+      expect(validateMove(createBoard(19), move('X', 15, 0)).isValid).toBe(
+        true,
+      );
+    });
+
+    it('should use the configured win length', () => {
+      const board = place(createBoard(15), 'X', row(0, 0, 3));
+      expect(checkWin(board, { row: 0, col: 0 }).isWin).toBe(false);
+      expect(checkWin(board, { row: 0, col: 0 }, { winLength: 4 }).isWin).toBe(
+        true,
+      );
+    });
+
+    it('should grow an infinite board without moving existing stones', () => {
+      const board = applyMove(createBoard(9, true), move('X', 0, 0));
+      expect(board.size).toBe(17);
+      expect(board.origin).toEqual({ row: -4, col: -4 });
+      expect(getCell(board, { row: 0, col: 0 })).toBe('X');
+      expect(validateMove(board, move('O', -4, -4)).isValid).toBe(true);
+    });
+
+    it('should not grow an infinite board for moves near the centre', () => {
+      const board = applyMove(createBoard(15, true), move('X', 7, 7));
+      expect(board.size).toBe(15);
+    });
+
+    it('should validate geometry', () => {
+      expect(
+        validateBoardGeometry({ size: 19, winLength: 5, infinite: false }),
+      ).toBeNull();
+      expect(
+        validateBoardGeometry({ size: 4, winLength: 5, infinite: false }),
+      ).not.toBeNull();
+      expect(
+        validateBoardGeometry({ size: 15, winLength: 9, infinite: false }),
+      ).not.toBeNull();
+    });
+  });
+
+  describe('playMove', () => {
+    it('should report a draw when the board fills without a win', () => {
+      let board = createBoard(2);
+      board = place(board, 'X', [{ row: 0, col: 0 }]);
+      board = place(board, 'O', [{ row: 0, col: 1 }]);
+      board = place(board, 'X', [{ row: 1, col: 1 }]);
+      const outcome = playMove(board, move('O', 1, 0), 'O');
+      expect(outcome.validation.isValid).toBe(true);
+      expect(outcome.isDraw).toBe(true);
+    });
+
+    it('should return the original board for an invalid move', () => {
+      const board = createBoard();
+      const outcome = playMove(board, move('O', 0, 0), 'X');
+      expect(outcome.board).toBe(board);
+      expect(outcome.validation.code).toBe('NOT_YOUR_TURN');
+    });
+  });
+});
@@ -0,0 +1,553 @@
+/**
+ * Caro rules engine
+ * Pure, dependency-free move validation and win detection.
+ * The server uses it to decide moves, the client to preview them.
+ */
+
+import {
+  BoardGeometry,
+  CellValue,
+  GAME_CONFIG,
+  GameBoard,
+  Move,
+  MoveValidation,
+  PlayerSymbol,
+  Position,
+  RuleVariant,
+  WinCheckResult,
+  WinningLine,
+} from './game.types';
+import { RuleSet, getRuleSet } from './game.rules';
+
+// ============================================================================
+// Engine Types
+// ============================================================================
+
+export interface EngineOptions {
+  ruleset?: RuleVariant;
+  winLength?: number;
+}
+
+export type ForbiddenMove = 'overline' | 'double-four' | 'double-three';
+
+export interface MoveOutcome {
+  validation: MoveValidation;
+  board: GameBoard;
+  win: WinCheckResult;
+  isDraw: boolean;
+}
+
+type LineDirection = WinningLine['direction'];
+
+// Each direction steps "forward"; the opposite walk is (-dRow, -dCol).
+const DIRECTION_STEPS: Record<LineDirection, { dRow: number; dCol: number }> = {
+  horizontal: { dRow: 0, dCol: 1 },
+  vertical: { dRow: 1, dCol: 0 },
+  'diagonal-down': { dRow: 1, dCol: 1 },
+  'diagonal-up': { dRow: -1, dCol: 1 },
+};
+
+const LINE_DIRECTIONS = Object.keys(DIRECTION_STEPS) as LineDirection[];
+
+const FORBIDDEN_MOVE_REASONS: Record<ForbiddenMove, string> = {
+  overline: 'Overline is forbidden for this player',
+  'double-four': 'Double-four is forbidden for this player',
+  'double-three': 'Double-three is forbidden for this player',
+};
+
+function resolveOptions(options: EngineOptions): {
+  rules: RuleSet;
+  winLength: number;
+} {
+  return {
+    rules: getRuleSet(options.ruleset),
+    winLength: options.winLength ?? GAME_CONFIG.WIN_CONDITION,
+  };
+}
+
+// ============================================================================
+// Board Helpers
+// ============================================================================
+
+export function createBoard(
+  size: number = GAME_CONFIG.BOARD_SIZE,
+  infinite = false,
+): GameBoard {
+  return {
+    size,
+    cells: Array.from({ length: size }, () =>
+      Array.from({ length: size }, (): CellValue => null),
+    ),
+    origin: { row: 0, col: 0 },
+    infinite,
+  };
+}
+
+export function createBoardFromGeometry(geometry: BoardGeometry): GameBoard {
+  return createBoard(geometry.size, geometry.infinite);
+}
+
+export function toGameBoard(
+  cells: CellValue[][],
+  origin: Position = { row: 0, col: 0 },
+  infinite = false,
+): GameBoard {
+  return { cells, size: cells.length, origin, infinite };
+}
+
+function originOf(board: GameBoard): Position {
+  return board.origin ?? { row: 0, col: 0 };
+}
+
+export function isOnBoard(board: GameBoard, pos: Position): boolean {
+  const origin = originOf(board);
+  const row = pos.row - origin.row;
+  const col = pos.col - origin.col;
+  return (
+    Number.isInteger(row) &&
+    Number.isInteger(col) &&
+    row >= 0 &&
+    row < board.size &&
+    col >= 0 &&
+    col < board.size
+  );
+}
+
+export function getCell(board: GameBoard, pos: Position): CellValue {
+  if (!isOnBoard(board, pos)) {
+    return null;
+  }
+  const origin = originOf(board);
+  return board.cells[pos.row - origin.row][pos.col - origin.col];
+}
+
+// Only for scratch boards owned by the engine; public functions never mutate.
+function setCell(board: GameBoard, pos: Position, value: CellValue): void {
+  const origin = originOf(board);
+  board.cells[pos.row - origin.row][pos.col - origin.col] = value;
+}
+
+function cloneBoard(board: GameBoard): GameBoard {
+  return { ...board, cells: board.cells.map((row) => [...row]) };
+}
+
+/**
+ * Infinite boards grow by the same amount on every side once a stone lands
+ * within INFINITE_BOARD_MARGIN of an edge. Existing coordinates never move;
+ * the origin shifts instead.
+ */
+function growAround(board: GameBoard, pos: Position): GameBoard {
+  const margin = GAME_CONFIG.INFINITE_BOARD_MARGIN;
+  const origin = originOf(board);
+  const row = pos.row - origin.row;
+  const col = pos.col - origin.col;
+  const nearEdge =
+    row < margin ||
+    col < margin ||
+    row >= board.size - margin ||
+    col >= board.size - margin;
+  const growth = Math.min(
+    margin,
+    Math.floor((GAME_CONFIG.INFINITE_BOARD_MAX_SIZE - board.size) / 2),
+  );
+
+  if (!board.infinite || !nearEdge || growth <= 0) {
+    return board;
+  }
+
+  const size = board.size + growth * 2;
+  const cells = Array.from({ length: size }, (_, r) =>
+    Array.from(
+      { length: size },
+      (_, c): CellValue => board.cells[r - growth]?.[c - growth] ?? null,
+    ),
+  );
+  return {
+    ...board,
+    size,
+    cells,
+    origin: { row: origin.row - growth, col: origin.col - growth },
+  };
+}
+
+/**
+ * Returns a reason the geometry cannot be used for a game, or null.
+ */
+export function validateBoardGeometry(geometry: BoardGeometry): string | null {
+  const { size, winLength } = geometry;
+  if (
+    !Number.isInteger(size) ||
+    size < GAME_CONFIG.MIN_BOARD_SIZE ||
+    size > GAME_CONFIG.MAX_BOARD_SIZE
+  ) {
+    return `Board size must be between ${GAME_CONFIG.MIN_BOARD_SIZE} and ${GAME_CONFIG.MAX_BOARD_SIZE}`;
+  }
+  if (
+    !Number.isInteger(winLength) ||
+    winLength < GAME_CONFIG.MIN_WIN_CONDITION ||
+    winLength > GAME_CONFIG.MAX_WIN_CONDITION
+  ) {
+    return `Win length must be between ${GAME_CONFIG.MIN_WIN_CONDITION} and ${GAME_CONFIG.MAX_WIN_CONDITION}`;
+  }
+  if (winLength > size) {
+    return 'Win length cannot exceed the board size';
+  }
+  return null;
+}
+
+export function isBoardFull(board: GameBoard): boolean {
+  return board.cells.every((row) => row.every((cell) => cell !== null));
+}
+
+export function getOpponent(symbol: PlayerSymbol): PlayerSymbol {
+  return symbol === 'X' ? 'O' : 'X';
+}
+
+// ============================================================================
+// Move Validation and Application
+// ============================================================================
+
+/**
+ * Checks a move against the board, the ruleset and, when given, the side to
+ * move. `currentTurn === null` means the game is not accepting moves.
+ */
+export function validateMove(
+  board: GameBoard,
+  move: Move,
+  currentTurn?: PlayerSymbol | null,
+  options: EngineOptions = {},
+): MoveValidation {
+  if (currentTurn === null) {
+    return {
+      isValid: false,
+      code: 'GAME_OVER',
+      reason: 'The game is not accepting moves',
+    };
+  }
+
+  if (currentTurn !== undefined && move.player !== currentTurn) {
+    return {
+      isValid: false,
+      code: 'NOT_YOUR_TURN',
+      reason: `It is ${currentTurn}'s turn`,
+    };
+  }
+
+  if (!isOnBoard(board, move.position)) {
+    return {
+      isValid: false,
+      code: 'OUT_OF_BOUNDS',
+      reason: 'Position is outside the board',
+    };
+  }
+
+  if (getCell(board, move.position) !== null) {
+    return {
+      isValid: false,
+      code: 'CELL_OCCUPIED',
+      reason: 'Cell is already occupied',
+    };
+  }
+
+  const { rules, winLength } = resolveOptions(options);
+  if (rules.restrictedSymbol === move.player) {
+    const forbidden = findForbiddenMove(
+      board,
+      move.position,
+      move.player,
+      winLength,
+    );
+    if (forbidden) {
+      return {
+        isValid: false,
+        code: 'FORBIDDEN_MOVE',
+        reason: FORBIDDEN_MOVE_REASONS[forbidden],
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Returns a new board with the move placed, grown first if it is an infinite
+ * board. The input board is not mutated. Throws if the move is not valid on
+ * this board.
+ */
+export function applyMove(board: GameBoard, move: Move): GameBoard {
+  const validation = validateMove(board, move);
+  if (!validation.isValid) {
+    throw new Error(validation.reason);
+  }
+
+  const next = cloneBoard(board);
+  setCell(next, move.position, move.player);
+  return growAround(next, move.position);
+}
+
+/**
+ * Validates and applies a move, then checks for a win or a full board.
+ * On an invalid move the original board is returned untouched.
+ */
+export function playMove(
+  board: GameBoard,
+  move: Move,
+  currentTurn?: PlayerSymbol | null,
+  options: EngineOptions = {},
+): MoveOutcome {
+  const validation = validateMove(board, move, currentTurn, options);
+  if (!validation.isValid) {
+    return { validation, board, win: { isWin: false }, isDraw: false };
+  }
+
+  const next = applyMove(board, move);
+  const win = checkWin(next, move.position, options);
+  return {
+    validation,
+    board: next,
+    win,
+    isDraw: !win.isWin && isBoardFull(next),
+  };
+}
+
+// ============================================================================
+// Win Detection
+// ============================================================================
+
+function walk(
+  board: GameBoard,
+  from: Position,
+  dRow: number,
+  dCol: number,
+  symbol: PlayerSymbol,
+): Position {
+  let last = from;
+  let next = { row: from.row + dRow, col: from.col + dCol };
+  while (getCell(board, next) === symbol) {
+    last = next;
+    next = { row: next.row + dRow, col: next.col + dCol };
+  }
+  return last;
+}
+
+function lineLength(start: Position, end: Position): number {
+  return (
+    Math.max(Math.abs(end.row - start.row), Math.abs(end.col - start.col)) + 1
+  );
+}
+
+/**
+ * A run is two-end blocked when the cells just past both of its ends hold
+ * opponent stones. The board edge does not count as a block.
+ */
+export function isTwoEndBlocked(
+  board: GameBoard,
+  line: WinningLine,
+  symbol: PlayerSymbol,
+): boolean {
+  const { dRow, dCol } = DIRECTION_STEPS[line.direction];
+  const opponent = getOpponent(symbol);
+  const before = { row: line.start.row - dRow, col: line.start.col - dCol };
+  const after = { row: line.end.row + dRow, col: line.end.col + dCol };
+  return (
+    getCell(board, before) === opponent && getCell(board, after) === opponent
+  );
+}
+
+/**
+ * Looks for a winning run through the stone at `lastMove` under the ruleset:
+ * overlines only count where the ruleset allows them, and under the Caro
+ * rule a run blocked on both ends does not count.
+ */
+export function checkWin(
+  board: GameBoard,
+  lastMove: Position,
+  options: EngineOptions = {},
+): WinCheckResult {
+  const symbol = getCell(board, lastMove);
+  if (!symbol) {
+    return { isWin: false };
+  }
+
+  const { rules, winLength } = resolveOptions(options);
+  const exact = rules.exactLengthFor.includes(symbol);
+
+  let blocked = false;
+  for (const direction of LINE_DIRECTIONS) {
+    const { dRow, dCol } = DIRECTION_STEPS[direction];
+    const line: WinningLine = {
+      start: walk(board, lastMove, -dRow, -dCol, symbol),
+      end: walk(board, lastMove, dRow, dCol, symbol),
+      direction,
+    };
+    const length = lineLength(line.start, line.end);
+
+    if (length < winLength || (exact && length > winLength)) {
+      continue;
+    }
+
+    if (rules.twoEndBlockRule && isTwoEndBlocked(board, line, symbol)) {
+      blocked = true;
+      continue;
+    }
+
+    return { isWin: true, winningLine: line };
+  }
+
+  return blocked ? { isWin: false, isTwoEndBlocked: true } : { isWin: false };
+}
+
+// ============================================================================
+// Forbidden Moves (Renju)
+// ============================================================================
+
+function runLength(
+  board: GameBoard,
+  pos: Position,
+  direction: LineDirection,
+  symbol: PlayerSymbol,
+): number {
+  const { dRow, dCol } = DIRECTION_STEPS[direction];
+  return lineLength(
+    walk(board, pos, -dRow, -dCol, symbol),
+    walk(board, pos, dRow, dCol, symbol),
+  );
+}
+
+/**
+ * Offsets along `direction` of the empty cells that would turn the run
+ * through `pos` into exactly `winLength` stones.
+ */
+function fiveCompletions(
+  board: GameBoard,
+  pos: Position,
+  direction: LineDirection,
+  symbol: PlayerSymbol,
+  winLength: number,
+): number[] {
+  const { dRow, dCol } = DIRECTION_STEPS[direction];
+  const offsets: number[] = [];
+
+  for (let k = -(winLength - 1); k < winLength; k++) {
+    const target = { row: pos.row + k * dRow, col: pos.col + k * dCol };
+    if (k === 0 || !isOnBoard(board, target) || getCell(board, target)) {
+      continue;
+    }
+
+    setCell(board, target, symbol);
+    if (runLength(board, target, direction, symbol) === winLength) {
+      const between = Array.from({ length: Math.abs(k) - 1 }, (_, i) => {
+        const step = (i + 1) * Math.sign(k);
+        return getCell(board, {
+          row: pos.row + step * dRow,
+          col: pos.col + step * dCol,
+        });
+      });
+      if (between.every((cell) => cell === symbol)) {
+        offsets.push(k);
+      }
+    }
+    setCell(board, target, null);
+  }
+
+  return offsets;
+}
+
+function countFours(
+  board: GameBoard,
+  pos: Position,
+  direction: LineDirection,
+  symbol: PlayerSymbol,
+  winLength: number,
+): number {
+  const offsets = fiveCompletions(board, pos, direction, symbol, winLength);
+  // Both ends of one straight four (_XXXX_) complete the same four.
+  if (offsets.length === 2 && offsets[1] - offsets[0] === winLength) {
+    return 1;
+  }
+  return offsets.length;
+}
+
+function isStraightFour(
+  board: GameBoard,
+  pos: Position,
+  direction: LineDirection,
+  symbol: PlayerSymbol,
+  winLength: number,
+): boolean {
+  const offsets = fiveCompletions(board, pos, direction, symbol, winLength);
+  return offsets.length === 2 && offsets[1] - offsets[0] === winLength;
+}
+
+/**
+ * A three is a line that one more stone turns into a straight four.
+ * Whether that extra stone would itself be forbidden is not considered.
+ */
+function isOpenThree(
+  board: GameBoard,
+  pos: Position,
+  direction: LineDirection,
+  symbol: PlayerSymbol,
+  winLength: number,
+): boolean {
+  const { dRow, dCol } = DIRECTION_STEPS[direction];
+
+  for (let k = -(winLength - 1); k < winLength; k++) {
+    const target = { row: pos.row + k * dRow, col: pos.col + k * dCol };
+    if (k === 0 || !isOnBoard(board, target) || getCell(board, target)) {
+      continue;
+    }
+
+    setCell(board, target, symbol);
+    const straight = isStraightFour(board, pos, direction, symbol, winLength);
+    setCell(board, target, null);
+    if (straight) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Reports why placing `symbol` at `pos` is forbidden under Renju, or null.
+ * A move that makes exactly five is never forbidden.
+ */
+export function findForbiddenMove(
+  board: GameBoard,
+  pos: Position,
+  symbol: PlayerSymbol,
+  winLength: number = GAME_CONFIG.WIN_CONDITION,
+): ForbiddenMove | null {
+  const scratch = cloneBoard(board);
+  setCell(scratch, pos, symbol);
+
+  const lengths = LINE_DIRECTIONS.map((direction) =>
+    runLength(scratch, pos, direction, symbol),
+  );
+  if (lengths.includes(winLength)) {
+    return null;
+  }
+  if (lengths.some((length) => length > winLength)) {
+    return 'overline';
+  }
+
+  let fours = 0;
+  let threes = 0;
+  for (const direction of LINE_DIRECTIONS) {
+    const lineFours = countFours(scratch, pos, direction, symbol, winLength);
+    if (lineFours > 0) {
+      fours += lineFours;
+    } else if (isOpenThree(scratch, pos, direction, symbol, winLength)) {
+      threes++;
+    }
+  }
+
+  if (fours >= 2) {
+    return 'double-four';
+  }
+  if (threes >= 2) {
+    return 'double-three';
+  }
+  return null;
+}
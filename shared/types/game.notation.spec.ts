@@ -0,0 +1,156 @@
+import {
+  NotationError,
+  defaultOrigin,
+  exportRecord,
+  formatMoves,
+  formatPosition,
+  parseMoves,
+  parsePosition,
+  parseRecord,
+  validateRecord,
+} from './game.notation';
+import { GameRecord, Move, PlayerSymbol } from './game.types';
+
+const geometry = { size: 15, winLength: 5, infinite: false };
+const origin = defaultOrigin(geometry);
+
+function move(player: PlayerSymbol, row: number, col: number): Move {
+  return { player, position: { row, col }, timestamp: 0 };
+}
+
+// X plays row 7 from h across, O answers on row 8
+function winningMoves(): Move[] {
+  const moves: Move[] = [];
+  for (let col = 7; col < 12; col++) {
+    moves.push(move('X', 7, col));
+    if (col < 11) moves.push(move('O', 8, col));
+  }
+  return moves;
+}
+
+function makeRecord(overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    gameId: 'game-1',
+    players: {
+      X: { username: 'alice', elo: 1020 },
+      O: { username: 'bob "the builder"', elo: 980 },
+    },
+    ruleset: 'freestyle',
+    geometry,
+    winner: 'X',
+    isFinished: true,
+    reason: 'five-in-a-row',
+    startedAt: new Date('2026-01-01T10:00:00.000Z'),
+    endedAt: new Date('2026-01-01T10:05:00.000Z'),
+    moves: winningMoves(),
+    ...overrides,
+  };
+}
+
+describe('game notation', () => {
+  it('should write squares with columns from the left and rows from the bottom', () => {
+    expect(formatPosition({ row: 7, col: 7 }, origin)).toBe('h8');
+    expect(formatPosition({ row: 14, col: 0 }, origin)).toBe('a1');
+    expect(formatPosition({ row: 0, col: 27 }, origin)).toBe('ab15');
+    expect(parsePosition('H8', origin)).toEqual({ row: 7, col: 7 });
+    expect(parsePosition('ab15', origin)).toEqual({ row: 0, col: 27 });
+  });
+
+  it('should reject squares it cannot read', () => {
+    expect(() => parsePosition('8h', origin)).toThrow(NotationError);
+    expect(() => parsePosition('h0', origin)).toThrow(NotationError);
+  });
+
+  it('should round-trip move lists with or without move numbers', () => {
+    const moves = [move('X', 7, 7), move('O', 6, 8)];
+
+    expect(formatMoves(moves, origin)).toBe('h8 i9');
+    expect(parseMoves('h8 i9', origin)).toEqual(moves);
+    expect(parseMoves('1. h8 i9', origin)).toEqual(moves);
+  });
+
+  it('should export tags and numbered move text ending in the result', () => {
+    const text = exportRecord(makeRecord());
+
+    expect(text).toContain('[O "bob \\"the builder\\""]');
+    expect(text).toContain('[XElo "1020"]');
+    expect(text).toContain('[Result "1-0"]');
+    expect(text).toContain('[Termination "five-in-a-row"]');
+    expect(text).not.toContain('[Origin');
+    expect(text).toMatch(/\n1\. h8 h7 2\. i8 i7 .* 5\. l8 1-0\n$/);
+  });
+
+  it('should read back what it exports', () => {
+    const record = makeRecord();
+    const parsed = parseRecord(exportRecord(record));
+
+    expect(parsed).toEqual({
+      ...record,
+      moves: record.moves.map((m) => ({
+        ...m,
+        timestamp: record.startedAt!.getTime(),
+      })),
+    });
+  });
+
+  it('should keep every move on the record of an infinite board', () => {
+    const record = makeRecord({
+      geometry: { size: 9, winLength: 5, infinite: true },
+      winner: null,
+      isFinished: false,
+      reason: null,
+      moves: [move('X', 4, 4), move('O', 12, -3)],
+    });
+
+    const text = exportRecord(record);
+    expect(text).toContain('[Origin "12,-3"]');
+    expect(parseRecord(text).moves.map((m) => m.position)).toEqual([
+      { row: 4, col: 4 },
+      { row: 12, col: -3 },
+    ]);
+  });
+
+  it('should reject malformed records', () => {
+    expect(() => parseRecord('[Ruleset "chess"]\n\n*')).toThrow(
+      'Unknown ruleset',
+    );
+    expect(() => parseRecord('[Result "1-0"]\n\n1. h8 0-1')).toThrow(
+      'does not match',
+    );
+  });
+
+  it('should accept a legal game whose result matches the board', () => {
+    const validation = validateRecord(makeRecord());
+
+    expect(validation.isValid).toBe(true);
+    expect(validation.winningLine).toMatchObject({
+      direction: 'horizontal',
+    });
+  });
+
+  it('should point at the first illegal move', () => {
+    const moves = winningMoves();
+    moves[3] = move('O', 7, 7);
+
+    expect(validateRecord(makeRecord({ moves }))).toMatchObject({
+      isValid: false,
+      moveNumber: 4,
+    });
+  });
+
+  it('should reject moves after the game was won', () => {
+    const moves = [...winningMoves(), move('O', 0, 0)];
+
+    expect(validateRecord(makeRecord({ moves }))).toMatchObject({
+      isValid: false,
+      moveNumber: moves.length,
+    });
+  });
+
+  it('should reject a result the board contradicts', () => {
+    expect(validateRecord(makeRecord({ winner: 'O' })).isValid).toBe(false);
+    expect(
+      validateRecord(makeRecord({ moves: winningMoves().slice(0, 4) })).isValid,
+    ).toBe(false);
+  });
+});
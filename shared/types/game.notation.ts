@@ -0,0 +1,405 @@
+/**
+ * Caro game notation
+ * Squares are written as a column letter and a row number, like chess and
+ * renju: columns run a, b, … z, aa, ab … from the left and rows count up from
+ * the bottom, so the centre of a 15×15 board is h8. A game record follows
+ * PGN: tag pairs, then numbered move text ending in the result.
+ */
+
+import {
+  BoardGeometry,
+  GAME_CONFIG,
+  GameEndReason,
+  GameRecord,
+  GameRecordPlayer,
+  Move,
+  PlayerSymbol,
+  Position,
+  RecordValidation,
+  RuleVariant,
+} from './game.types';
+import {
+  createBoardFromGeometry,
+  getOpponent,
+  playMove,
+  validateBoardGeometry,
+} from './game.engine';
+import { DEFAULT_RULE_VARIANT, RULESETS } from './game.rules';
+
+/** Thrown when a position, move list or record cannot be read. */
+export class NotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotationError';
+  }
+}
+
+const RESULT_TOKENS = {
+  X: '1-0',
+  O: '0-1',
+  draw: '1/2-1/2',
+  unfinished: '*',
+} as const;
+
+const END_REASONS: GameEndReason[] = [
+  'five-in-a-row',
+  'board-full',
+  'surrender',
+  'draw-agreed',
+  'timeout',
+  'abandoned',
+];
+
+const TAG_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const SQUARE_PATTERN = /^([a-z]+)([1-9]\d*)$/;
+const MOVE_NUMBER_PATTERN = /^\d+\.+/;
+const MOVE_TEXT_WIDTH = 80;
+
+// ============================================================================
+// Squares
+// ============================================================================
+
+/** The square a1: bottom-left corner of the starting board. */
+export function defaultOrigin(geometry: BoardGeometry): Position {
+  return { row: geometry.size - 1, col: 0 };
+}
+
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(97 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function columnIndex(letters: string): number {
+  let n = 0;
+  for (const letter of letters) {
+    n = n * 26 + (letter.charCodeAt(0) - 96);
+  }
+  return n - 1;
+}
+
+/** `origin` is the board position of a1. */
+export function formatPosition(position: Position, origin: Position): string {
+  const col = position.col - origin.col;
+  const rank = origin.row - position.row + 1;
+  if (col < 0 || rank < 1) {
+    throw new NotationError(
+      `Position (${position.row}, ${position.col}) is left of or below a1`,
+    );
+  }
+  return `${columnLetters(col)}${rank}`;
+}
+
+export function parsePosition(square: string, origin: Position): Position {
+  const match = SQUARE_PATTERN.exec(square.toLowerCase());
+  if (!match) {
+    throw new NotationError(`"${square}" is not a square`);
+  }
+  return {
+    row: origin.row - (Number(match[2]) - 1),
+    col: origin.col + columnIndex(match[1]),
+  };
+}
+
+// ============================================================================
+// Move Lists
+// ============================================================================
+
+export function formatMoves(moves: Move[], origin: Position): string {
+  return moves.map((move) => formatPosition(move.position, origin)).join(' ');
+}
+
+/**
+ * Reads a space-separated move list such as "h8 i9 j10", with or without
+ * move numbers. X always moves first. Records carry no move times, so every
+ * move gets `timestamp`.
+ */
+export function parseMoves(
+  text: string,
+  origin: Position,
+  timestamp = 0,
+): Move[] {
+  const squares = text
+    .split(/\s+/)
+    .map((token) => token.replace(MOVE_NUMBER_PATTERN, ''))
+    .filter((token) => token.length > 0);
+
+  return squares.map((square, index) => ({
+    position: parsePosition(square, origin),
+    player: index % 2 === 0 ? 'X' : 'O',
+    timestamp,
+  }));
+}
+
+// ============================================================================
+// Game Records
+// ============================================================================
+
+/**
+ * Finite boards use the default a1. On infinite boards stones can land left
+ * of or below the starting board, so a1 moves to cover every move.
+ */
+export function recordOrigin(
+  record: Pick<GameRecord, 'geometry' | 'moves'>,
+): Position {
+  const origin = defaultOrigin(record.geometry);
+  if (!record.geometry.infinite) {
+    return origin;
+  }
+
+  for (const { position } of record.moves) {
+    origin.row = Math.max(origin.row, position.row);
+    origin.col = Math.min(origin.col, position.col);
+  }
+  return origin;
+}
+
+function resultToken(record: GameRecord): string {
+  if (!record.isFinished) {
+    return RESULT_TOKENS.unfinished;
+  }
+  return record.winner ? RESULT_TOKENS[record.winner] : RESULT_TOKENS.draw;
+}
+
+function formatTag(name: string, value: string): string {
+  return `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
+}
+
+function wrap(tokens: string[]): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > MOVE_TEXT_WIDTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  return line ? [...lines, line] : lines;
+}
+
+export function exportRecord(record: GameRecord): string {
+  const origin = recordOrigin(record);
+  const tags: [string, string | null][] = [
+    ['Game', record.gameId],
+    ['X', record.players.X.username],
+    ['O', record.players.O.username],
+    ['XElo', record.players.X.elo?.toString() ?? null],
+    ['OElo', record.players.O.elo?.toString() ?? null],
+    ['Ruleset', record.ruleset],
+    ['Size', String(record.geometry.size)],
+    ['WinLength', String(record.geometry.winLength)],
+    ['Infinite', String(record.geometry.infinite)],
+    ['Origin', record.geometry.infinite ? `${origin.row},${origin.col}` : null],
+    ['Result', resultToken(record)],
+    ['Termination', record.reason],
+    ['StartTime', record.startedAt?.toISOString() ?? null],
+    ['EndTime', record.endedAt?.toISOString() ?? null],
+  ];
+
+  const moveText = record.moves.flatMap((move, index) => {
+    const square = formatPosition(move.position, origin);
+    return index % 2 === 0 ? [`${index / 2 + 1}.`, square] : [square];
+  });
+
+  return [
+    ...tags.flatMap(([name, value]) =>
+      value === null ? [] : [formatTag(name, value)],
+    ),
+    '',
+    ...wrap([...moveText, resultToken(record)]),
+    '',
+  ].join('\n');
+}
+
+function readTags(lines: string[]): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const line of lines) {
+    const match = TAG_PATTERN.exec(line);
+    if (!match) {
+      throw new NotationError(`Malformed tag: ${line}`);
+    }
+    tags.set(match[1], match[2].replace(/\\(.)/g, '$1'));
+  }
+  return tags;
+}
+
+function readInt(tags: Map<string, string>, name: string, fallback: number) {
+  const value = tags.get(name);
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!/^-?\d+$/.test(value)) {
+    throw new NotationError(`${name} must be a whole number`);
+  }
+  return Number(value);
+}
+
+function readDate(tags: Map<string, string>, name: string): Date | null {
+  const value = tags.get(name);
+  if (value === undefined) {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new NotationError(`${name} is not a valid date`);
+  }
+  return date;
+}
+
+function readPlayer(
+  tags: Map<string, string>,
+  symbol: PlayerSymbol,
+): GameRecordPlayer {
+  const elo = tags.get(`${symbol}Elo`);
+  return {
+    username: tags.get(symbol) ?? '?',
+    elo: elo === undefined ? null : readInt(tags, `${symbol}Elo`, 0),
+  };
+}
+
+function readOrigin(
+  tags: Map<string, string>,
+  geometry: BoardGeometry,
+): Position {
+  const value = tags.get('Origin');
+  if (value === undefined) {
+    return defaultOrigin(geometry);
+  }
+  const match = /^(-?\d+),(-?\d+)$/.exec(value);
+  if (!match) {
+    throw new NotationError('Origin must be "row,col"');
+  }
+  return { row: Number(match[1]), col: Number(match[2]) };
+}
+
+/**
+ * Reads a record written by exportRecord. Missing tags fall back to the
+ * defaults of a new game; the moves are not checked against the rules here,
+ * see validateRecord.
+ */
+export function parseRecord(text: string): GameRecord {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const tagLines = lines.filter((line) => line.startsWith('['));
+  const tags = readTags(tagLines);
+
+  const ruleset = (tags.get('Ruleset') ?? DEFAULT_RULE_VARIANT) as RuleVariant;
+  if (!(ruleset in RULESETS)) {
+    throw new NotationError(`Unknown ruleset "${ruleset}"`);
+  }
+  const geometry: BoardGeometry = {
+    size: readInt(tags, 'Size', GAME_CONFIG.BOARD_SIZE),
+    winLength: readInt(tags, 'WinLength', GAME_CONFIG.WIN_CONDITION),
+    infinite: tags.get('Infinite') === 'true',
+  };
+
+  const reason = (tags.get('Termination') ?? null) as GameEndReason | null;
+  if (reason !== null && !END_REASONS.includes(reason)) {
+    throw new NotationError(`Unknown termination "${reason}"`);
+  }
+
+  const tokens = lines
+    .filter((line) => !line.startsWith('['))
+    .join(' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+  const results: string[] = Object.values(RESULT_TOKENS);
+  const trailing = results.includes(tokens[tokens.length - 1] ?? '')
+    ? tokens.pop()!
+    : null;
+  const result = tags.get('Result') ?? trailing ?? RESULT_TOKENS.unfinished;
+  if (!results.includes(result)) {
+    throw new NotationError(`Unknown result "${result}"`);
+  }
+  if (trailing !== null && trailing !== result) {
+    throw new NotationError('The move text result does not match the tag');
+  }
+
+  const startedAt = readDate(tags, 'StartTime');
+  return {
+    gameId: tags.get('Game') ?? null,
+    players: { X: readPlayer(tags, 'X'), O: readPlayer(tags, 'O') },
+    ruleset,
+    geometry,
+    winner:
+      result === RESULT_TOKENS.X
+        ? 'X'
+        : result === RESULT_TOKENS.O
+          ? 'O'
+          : null,
+    isFinished: result !== RESULT_TOKENS.unfinished,
+    reason,
+    startedAt,
+    endedAt: readDate(tags, 'EndTime'),
+    moves: parseMoves(
+      tokens.join(' '),
+      readOrigin(tags, geometry),
+      startedAt?.getTime() ?? 0,
+    ),
+  };
+}
+
+function invalid(reason: string, moveNumber?: number): RecordValidation {
+  return { isValid: false, reason, moveNumber };
+}
+
+/**
+ * Replays a record through the rules engine: every move must be legal, no
+ * move may follow the end of the game, and the stated result must agree
+ * with the board.
+ */
+export function validateRecord(record: GameRecord): RecordValidation {
+  const geometryError = validateBoardGeometry(record.geometry);
+  if (geometryError) {
+    return invalid(geometryError);
+  }
+
+  const options = {
+    ruleset: record.ruleset,
+    winLength: record.geometry.winLength,
+  };
+  let board = createBoardFromGeometry(record.geometry);
+  let turn: PlayerSymbol = 'X';
+  let winner: PlayerSymbol | null = null;
+  let winningLine: RecordValidation['winningLine'] = null;
+  let isBoardFull = false;
+
+  for (const [index, move] of record.moves.entries()) {
+    if (winner || isBoardFull) {
+      return invalid('Move played after the game was over', index + 1);
+    }
+
+    const outcome = playMove(board, move, turn, options);
+    if (!outcome.validation.isValid) {
+      return invalid(outcome.validation.reason ?? 'Illegal move', index + 1);
+    }
+
+    board = outcome.board;
+    isBoardFull = outcome.isDraw;
+    if (outcome.win.isWin) {
+      winner = move.player;
+      winningLine = outcome.win.winningLine ?? null;
+    }
+    turn = getOpponent(turn);
+  }
+
+  if (winner) {
+    if (!record.isFinished || record.winner !== winner) {
+      return invalid(`${winner} has five in a row but the result disagrees`);
+    }
+    if (record.reason !== null && record.reason !== 'five-in-a-row') {
+      return invalid('The game ended in five in a row');
+    }
+  } else if (record.reason === 'five-in-a-row') {
+    return invalid('There is no five in a row on the board');
+  } else if (isBoardFull && (!record.isFinished || record.winner)) {
+    return invalid('The board is full, so the game is a draw');
+  } else if (record.reason === 'board-full' && !isBoardFull) {
+    return invalid('The board is not full');
+  }
+
+  return { isValid: true, winningLine };
+}
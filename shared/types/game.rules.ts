@@ -0,0 +1,63 @@
+/**
+ * Rule variants for Caro / Gomoku
+ * Declarative descriptions consumed by the rules engine
+ */
+
+import { PlayerSymbol, RuleVariant } from './game.types';
+
+export interface RuleSet {
+  variant: RuleVariant;
+  name: string;
+  description: string;
+  // Symbols whose line must be exactly the win length; longer lines do not win
+  exactLengthFor: PlayerSymbol[];
+  // A line blocked by opponent stones on both ends does not win
+  twoEndBlockRule: boolean;
+  // Symbol that may not play double-three, double-four or overline moves
+  restrictedSymbol: PlayerSymbol | null;
+}
+
+export const RULESETS: Record<RuleVariant, RuleSet> = {
+  freestyle: {
+    variant: 'freestyle',
+    name: 'Freestyle Gomoku',
+    description: 'Five or more in a row wins.',
+    exactLengthFor: [],
+    twoEndBlockRule: false,
+    restrictedSymbol: null,
+  },
+  standard: {
+    variant: 'standard',
+    name: 'Standard Gomoku',
+    description: 'Exactly five in a row wins; six or more does not.',
+    exactLengthFor: ['X', 'O'],
+    twoEndBlockRule: false,
+    restrictedSymbol: null,
+  },
+  caro: {
+    variant: 'caro',
+    name: 'Caro',
+    description:
+      'Five or more in a row wins, unless both ends are blocked by the opponent.',
+    exactLengthFor: [],
+    twoEndBlockRule: true,
+    restrictedSymbol: null,
+  },
+  renju: {
+    variant: 'renju',
+    name: 'Renju',
+    description:
+      'X must make exactly five and may not play double-three, double-four or overline moves. O wins with five or more.',
+    exactLengthFor: ['X'],
+    twoEndBlockRule: false,
+    restrictedSymbol: 'X',
+  },
+};
+
+export const DEFAULT_RULE_VARIANT: RuleVariant = 'caro';
+
+export function getRuleSet(
+  variant: RuleVariant = DEFAULT_RULE_VARIANT,
+): RuleSet {
+  return RULESETS[variant];
+}
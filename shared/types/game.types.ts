@@ -12,10 +12,31 @@ export const GAME_CONFIG = {
   WIN_CONDITION: 5,
   TURN_TIMEOUT: 30000, // 30 seconds in milliseconds
   CHALLENGE_TIMEOUT: 10000, // 10 seconds in milliseconds
+  MAX_DRAW_OFFERS: 3, // per player per game
   STARTING_ELO: 1000,
-  ELO_WIN_POINTS: 3,
-  ELO_DRAW_POINTS: 1,
-  ELO_LOSE_POINTS: 0,
+  ELO_FLOOR: 100,
+  ELO_PROVISIONAL_GAMES: 20, // players are provisional for their first games
+  ELO_EXPERIENCED_GAMES: 100,
+  ELO_K_FACTOR_PROVISIONAL: 40,
+  ELO_K_FACTOR: 20,
+  ELO_K_FACTOR_EXPERIENCED: 10,
+  RANKING_MIN_GAMES_FOR_WIN_RATE: 10, // win-rate rankings ignore players below this
+  MIN_BOARD_SIZE: 9,
+  MAX_BOARD_SIZE: 25,
+  MIN_WIN_CONDITION: 4,
+  MAX_WIN_CONDITION: 6,
+  INFINITE_BOARD_MARGIN: 4, // grow when a stone lands this close to an edge
+  INFINITE_BOARD_MAX_SIZE: 99,
+  SHORT_GAME_MAX_MOVES: 20, // stats bucket games by total moves played
+  MEDIUM_GAME_MAX_MOVES: 50,
+  CHAT_MAX_LENGTH: 500, // characters per message
+  CHAT_HISTORY_SIZE: 50, // recent messages kept per room and channel
+  TOURNAMENT_MAX_PLAYERS: 64,
+  MAX_INITIAL_TIME: 3 * 60 * 60 * 1000, // time controls, in milliseconds
+  MAX_INCREMENT: 60000,
+  MAX_BYOYOMI_PERIODS: 10,
+  MIN_BYOYOMI_TIME: 5000,
+  MAX_BYOYOMI_TIME: 5 * 60 * 1000,
 } as const;
 
 // ============================================================================
@@ -30,6 +51,18 @@ export type GameResult = 'win' | 'loss' | 'draw';
 
 export type PlayerSymbol = 'X' | 'O';
 
+export type RuleVariant = 'freestyle' | 'standard' | 'caro' | 'renju';
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export type GameEndReason =
+  | 'five-in-a-row'
+  | 'board-full'
+  | 'surrender'
+  | 'draw-agreed'
+  | 'timeout'
+  | 'abandoned';
+
 // ============================================================================
 // Position and Move Types
 // ============================================================================
@@ -43,20 +76,70 @@ export interface Move {
   position: Position;
   player: PlayerSymbol;
   timestamp: number;
+  timeRemaining?: number; // ms left on the mover's clock when played
 }
 
+export type MoveRejectionCode =
+  | 'OUT_OF_BOUNDS'
+  | 'CELL_OCCUPIED'
+  | 'NOT_YOUR_TURN'
+  | 'GAME_OVER'
+  | 'FORBIDDEN_MOVE';
+
 export interface MoveValidation {
   isValid: boolean;
   reason?: string;
+  code?: MoveRejectionCode;
 }
 
 // ============================================================================
 // Game State Types
 // ============================================================================
 
+export interface BoardGeometry {
+  size: number; // starting side length for infinite boards
+  winLength: number;
+  infinite: boolean;
+}
+
+export const DEFAULT_BOARD_GEOMETRY: BoardGeometry = {
+  size: GAME_CONFIG.BOARD_SIZE,
+  winLength: GAME_CONFIG.WIN_CONDITION,
+  infinite: false,
+};
+
 export interface GameBoard {
   cells: CellValue[][];
   size: number;
+  origin?: Position; // coordinates of cells[0][0], shifts as infinite boards grow
+  infinite?: boolean;
+}
+
+/**
+ * A chess-style clock. Each player has `initial` ms of main time, gains
+ * `increment` ms after each move made in main time, then gets
+ * `byoyomiPeriods` periods of `byoyomiTime` ms: a move made within a period
+ * keeps it, and letting one run out uses it up.
+ */
+export interface TimeControl {
+  initial: number;
+  increment: number;
+  byoyomiPeriods: number;
+  byoyomiTime: number;
+}
+
+// A flat 30 seconds per move
+export const DEFAULT_TIME_CONTROL: TimeControl = {
+  initial: 0,
+  increment: 0,
+  byoyomiPeriods: 1,
+  byoyomiTime: GAME_CONFIG.TURN_TIMEOUT,
+};
+
+export interface PlayerClock {
+  remaining: number; // ms of main time, or of the current byo-yomi period
+  periods: number; // byo-yomi periods left, the current one included
+  inByoyomi: boolean;
 }
 
 export interface WinningLine {
@@ -67,10 +150,19 @@ export interface WinningLine {
 
 export interface GameState {
   id: string;
+  roomId: string;
   board: CellValue[][];
   status: GameStatus;
+  ruleset: RuleVariant;
+  geometry: BoardGeometry;
+  boardOrigin: Position;
   currentTurn: PlayerSymbol | null;
-  turnTimeRemaining: number;
+  timeControl: TimeControl;
+  clocks: Record<PlayerSymbol, PlayerClock>; // as of turnStartedAt
+  turnStartedAt: number | null; // epoch ms; set while a clock runs
+  challengeDeadline: number | null; // epoch ms, set while 'challenging'
+  startedAt: number | null; // epoch ms the challenge was accepted
+  drawOfferedBy: string | null; // player ID of a pending draw offer
   players: GamePlayer[];
   winner: GamePlayer | null;
   winningLine: WinningLine | null;
@@ -90,7 +182,9 @@ export interface Player {
   wins: number;
   losses: number;
   draws: number;
+  isProvisional: boolean;
   isOnline: boolean;
+  isBot?: boolean; // computer opponent, never logs in
   createdAt: Date;
 }
 
@@ -99,16 +193,44 @@ export interface GamePlayer {
   symbol: PlayerSymbol;
   hasAcceptedChallenge: boolean;
   isConnected: boolean;
+  drawOffersRemaining: number;
 }
 
-export interface PlayerStats {
+export interface ResultCounts {
   totalGames: number;
   wins: number;
   losses: number;
   draws: number;
-  winRate: number;
+  winRate: number; // 0..1
+}
+
+export type GameLength = 'short' | 'medium' | 'long';
+
+export interface StreakStats {
+  current: { result: GameResult; length: number } | null;
+  longestWin: number;
+  longestLoss: number;
+}
+
+export interface StatsBreakdown {
+  bySymbol: Record<PlayerSymbol, ResultCounts>;
+  byLength: Record<GameLength, ResultCounts>;
+  streaks: StreakStats;
+}
+
+export interface StatsWindow extends ResultCounts {
+  from: Date;
+  to: Date;
+  eloChange: number;
+  breakdown: StatsBreakdown;
+}
+
+export interface PlayerStats extends ResultCounts {
   currentElo: number;
-  eloHistory: EloHistoryEntry[];
+  breakdown: StatsBreakdown;
+  window: StatsWindow | null; // set when a time window is requested
+  eloHistory: EloHistoryEntry[]; // newest first, one page
+  eloHistoryTotal: number;
 }
 
 export interface EloHistoryEntry {
@@ -128,10 +250,15 @@ export interface Room {
   id: string;
   name: string;
   status: 'waiting' | 'full' | 'in_progress';
+  ruleset: RuleVariant;
+  geometry: BoardGeometry;
+  timeControl: TimeControl;
   players: Player[];
   maxPlayers: 2;
   createdBy: Player;
   gameId: string | null;
+  allowSpectators: boolean; // the owner can turn spectating off
+  spectatorCount: number;
   createdAt: Date;
 }
 
@@ -139,11 +266,186 @@ export interface RoomListItem {
   id: string;
   name: string;
   status: Room['status'];
+  ruleset: RuleVariant;
+  geometry: BoardGeometry;
+  timeControl: TimeControl;
   playerCount: number;
   maxPlayers: number;
+  allowSpectators: boolean;
+  spectatorCount: number;
   createdBy: string; // username
 }
 
+// ============================================================================
+// Matchmaking Types
+// ============================================================================
+
+export interface QueueStatus {
+  ruleset: RuleVariant;
+  timeControl: TimeControl;
+  waited: number; // ms in the queue
+  eloRange: number; // ± Elo the search accepts; widens while waiting
+  estimatedWait: number | null; // ms still to wait; null without recent matches
+  playersInQueue: number; // for the same ruleset and time control, this player included
+}
+
+// ============================================================================
+// Tournament Types
+// ============================================================================
+
+export type TournamentFormat = 'round-robin' | 'swiss' | 'single-elimination';
+
+export type TournamentStatus = 'registration' | 'in_progress' | 'completed';
+
+// Which player of the pairing won; a bye is a win for the first player
+export type PairingResult = 'first' | 'second' | 'draw';
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  ruleset: RuleVariant;
+  timeControl: TimeControl;
+  status: TournamentStatus;
+  organizer: string; // username
+  rounds: number | null; // known once the tournament starts
+  currentRound: number; // 0 during registration
+  playerCount: number;
+  createdAt: Date;
+}
+
+export interface TournamentPlayer {
+  id: string;
+  username: string;
+  elo: number; // at registration
+  seed: number | null; // 1 is the highest rated; assigned on start
+}
+
+export interface TournamentPairing {
+  round: number;
+  board: number; // bracket position in single elimination
+  firstPlayerId: string;
+  secondPlayerId: string | null; // null for a bye
+  roomId: string | null; // null until the game is opened
+  result: PairingResult | null;
+}
+
+export interface TournamentStanding {
+  rank: number;
+  player: TournamentPlayer;
+  points: number; // 1 per win or bye, 0.5 per draw
+  buchholz: number; // sum of the opponents' points
+  sonnebornBerger: number; // beaten opponents' points, half for draws
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+export interface TournamentDetail {
+  tournament: Tournament;
+  players: TournamentPlayer[];
+  standings: TournamentStanding[];
+  rounds: TournamentPairing[][]; // by round, boards in order
+}
+
+// ============================================================================
+// Chat Types
+// ============================================================================
+
+// Players and spectators of a room chat separately
+export type ChatChannel = 'players' | 'spectators';
+
+export interface ChatMessage {
+  id: string;
+  roomId: string;
+  channel: ChatChannel;
+  sender: {
+    id: string;
+    username: string;
+  };
+  text: string; // after the word filter
+  sentAt: number; // epoch ms
+}
+
+// ============================================================================
+// Game Record Types
+// ============================================================================
+
+export interface GameRecordPlayer {
+  username: string;
+  elo: number | null; // rating before the game
+}
+
+/** A game as carried by the text record format (see game.notation.ts). */
+export interface GameRecord {
+  gameId: string | null;
+  players: Record<PlayerSymbol, GameRecordPlayer>;
+  ruleset: RuleVariant;
+  geometry: BoardGeometry;
+  winner: PlayerSymbol | null; // null for a draw or an unfinished game
+  isFinished: boolean;
+  reason: GameEndReason | null;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  moves: Move[];
+}
+
+export interface ReplayPlayer {
+  id: string;
+  username: string;
+  symbol: PlayerSymbol;
+  result: GameResult;
+  eloBefore: number;
+  eloAfter: number;
+}
+
+export type MoveQuality = 'good' | 'inaccuracy' | 'blunder';
+
+// Threats that win by force: a five to complete, a four the opponent cannot
+// block at both ends, two fours at once, or a four whose block leaves an
+// open three to make into an open four
+export type ForcedWin = 'five' | 'open-four' | 'double-four' | 'four-three';
+
+export type AnalysisStatus = 'pending' | 'complete' | 'failed';
+
+/** The engine's verdict on one move of a finished game. */
+export interface MoveAnnotation {
+  evaluation: number; // after the move, from -1000 (O wins) to 1000 (X wins)
+  quality: MoveQuality;
+  bestMove: Position | null; // the engine's choice in the position before
+  missedWin: ForcedWin | null; // the mover had this forced win and let it go
+  allowedWin: ForcedWin | null; // the move handed the opponent this forced win
+}
+
+export interface ReplayMove extends Move {
+  moveNumber: number; // 1-based
+  elapsed: number; // ms since the previous move, or since the game started
+  annotation?: MoveAnnotation; // once the game has been analysed
+}
+
+/** A finished game as stored, for stepping through move by move. */
+export interface GameReplay {
+  gameId: string;
+  ruleset: RuleVariant;
+  geometry: BoardGeometry;
+  players: ReplayPlayer[];
+  winner: PlayerSymbol | null;
+  reason: GameEndReason;
+  winningLine: WinningLine | null;
+  timeControl: TimeControl;
+  startedAt: Date;
+  endedAt: Date;
+  analysis: AnalysisStatus | null; // null for games archived before analysis
+  moves: ReplayMove[];
+}
+
+export interface RecordValidation {
+  isValid: boolean;
+  reason?: string;
+  moveNumber?: number; // 1-based move the record fails at
+  winningLine?: WinningLine | null;
+}
+
 // ============================================================================
 // WebSocket Event Types
 // ============================================================================
@@ -153,6 +455,8 @@ export enum SocketEvent {
   CONNECT = 'connect',
   DISCONNECT = 'disconnect',
   RECONNECT = 'reconnect',
+  PLAYER_DISCONNECTED = 'player-disconnected',
+  PLAYER_RECONNECTED = 'player-reconnected',
   
   // Room events
   JOIN_ROOM = 'join-room',
@@ -161,6 +465,38 @@ export enum SocketEvent {
   ROOM_LEFT = 'room-left',
   PLAYER_JOINED = 'player-joined',
   PLAYER_LEFT = 'player-left',
+
+  // Spectator events
+  SPECTATE_ROOM = 'spectate-room',
+  STOP_SPECTATING = 'stop-spectating',
+  SET_SPECTATING = 'set-spectating',
+  SPECTATING_STARTED = 'spectating-started',
+  SPECTATING_STOPPED = 'spectating-stopped',
+
+  // Matchmaking events
+  JOIN_QUEUE = 'join-queue',
+  LEAVE_QUEUE = 'leave-queue',
+  QUEUE_STATUS = 'queue-status',
+  MATCH_FOUND = 'match-found',
+
+  // Tournament events
+  SUBSCRIBE_TOURNAMENT = 'subscribe-tournament',
+  UNSUBSCRIBE_TOURNAMENT = 'unsubscribe-tournament',
+  TOURNAMENT_UPDATED = 'tournament-updated',
+
+  // Chat events
+  SEND_CHAT_MESSAGE = 'send-chat-message',
+  CHAT_MESSAGE = 'chat-message',
+  CHAT_HISTORY = 'chat-history',
+  MUTE_PLAYER = 'mute-player',
+  PLAYER_MUTED = 'player-muted',
+
+  // Lobby events
+  SUBSCRIBE_LOBBY = 'subscribe-lobby',
+  UNSUBSCRIBE_LOBBY = 'unsubscribe-lobby',
+  ROOM_CREATED = 'room-created',
+  ROOM_UPDATED = 'room-updated',
+  ROOM_REMOVED = 'room-removed',
   
   // Challenge events
   CHALLENGE = 'challenge',
@@ -185,6 +521,9 @@ export enum SocketEvent {
   // State sync events
   GAME_STATE_UPDATE = 'game-state-update',
   TIMER_UPDATE = 'timer-update',
+  SYNC_CLOCK = 'sync-clock',
+  CLOCK_SYNCED = 'clock-synced',
+  SYNC_GAME = 'sync-game',
   
   // Error events
   ERROR = 'error',
@@ -205,6 +544,143 @@ export interface LeaveRoomPayload {
 export interface MakeMovePayload {
   gameId: string;
   position: Position;
+  moveNumber: number; // the number this move would get: moves played + 1
+  moveId: string; // generated by the client; a retry resends the same id
+}
+
+export interface GameActionPayload {
+  gameId: string;
+}
+
+export interface RoomJoinedPayload {
+  roomId: string;
+  room: Room;
+  players: Player[];
+  game: GameState | null;
+}
+
+export interface RoomLeftPayload {
+  roomId: string;
+}
+
+export interface SpectateRoomPayload {
+  roomId: string;
+}
+
+export interface SetSpectatingPayload {
+  roomId: string;
+  allowSpectators: boolean;
+}
+
+export interface SpectatingStartedPayload {
+  roomId: string;
+  room: Room;
+  game: GameState | null;
+}
+
+export interface SpectatingStoppedPayload {
+  roomId: string;
+  // 'disabled': the owner turned spectating off
+  reason: 'left' | 'disabled' | 'closed';
+}
+
+export interface JoinQueuePayload {
+  ruleset?: RuleVariant;
+  timeControl?: TimeControl;
+}
+
+export interface QueueStatusPayload {
+  status: QueueStatus | null; // null once out of the queue
+}
+
+export interface MatchFoundPayload {
+  roomId: string;
+  opponent: Player;
+}
+
+export interface TournamentSubscriptionPayload {
+  tournamentId: string;
+}
+
+export interface TournamentUpdatedPayload {
+  tournament: TournamentDetail;
+}
+
+export interface SendChatMessagePayload {
+  roomId: string;
+  text: string;
+}
+
+export interface ChatMessagePayload {
+  message: ChatMessage;
+}
+
+export interface ChatHistoryPayload {
+  roomId: string;
+  channel: ChatChannel;
+  messages: ChatMessage[]; // oldest first
+}
+
+export interface MutePlayerPayload {
+  roomId: string;
+  playerId: string;
+  muted: boolean;
+}
+
+export interface PlayerMutedPayload {
+  roomId: string;
+  playerId: string;
+  muted: boolean;
+}
+
+export interface RoomCreatedPayload {
+  room: RoomListItem;
+}
+
+export interface RoomUpdatedPayload {
+  room: RoomListItem;
+}
+
+export interface RoomRemovedPayload {
+  roomId: string;
+}
+
+export interface PlayerJoinedPayload {
+  roomId: string;
+  player: Player;
+}
+
+export interface PlayerLeftPayload {
+  roomId: string;
+  playerId: string;
+}
+
+export interface ChallengePayload {
+  gameId: string;
+  roomId: string;
+  players: GamePlayer[];
+  deadline: number; // epoch ms
+}
+
+export interface ChallengeAcceptedPayload {
+  gameId: string;
+  playerId: string;
+}
+
+export interface ChallengeTimeoutPayload {
+  gameId: string;
+  roomId: string;
+  declinedBy: string[]; // ids of players who did not accept
+}
+
+export interface GameStartPayload {
+  game: GameState;
+}
+
+export interface InvalidMovePayload {
+  gameId: string;
+  position: Position;
+  validation: MoveValidation;
 }
 
 export interface MoveMadePayload {
@@ -212,6 +688,7 @@ export interface MoveMadePayload {
   move: Move;
   board: CellValue[][];
   nextTurn: PlayerSymbol;
+  version: number; // moves played; one more with every move, so a skipped version means a missed update
 }
 
 export interface GameOverPayload {
@@ -219,6 +696,7 @@ export interface GameOverPayload {
   winner: GamePlayer | null;
   winningLine: WinningLine | null;
   result: GameResult;
+  reason: GameEndReason;
   eloChanges: {
     [playerId: string]: {
       previous: number;
@@ -236,20 +714,136 @@ export interface ProposeDrawPayload {
 export interface DrawProposedPayload {
   gameId: string;
   proposedBy: Player;
+  offersRemaining: number;
+}
+
+export interface DrawRejectedPayload {
+  gameId: string;
+  rejectedBy: string; // player ID
+  reason: 'rejected' | 'move'; // 'move': the opponent played on instead
+}
+
+export interface TurnTimeoutPayload {
+  gameId: string;
+  player: PlayerSymbol;
+}
+
+export interface PlayerDisconnectedPayload {
+  gameId: string;
+  playerId: string;
+  reconnectDeadline: number; // epoch ms; the game is abandoned after it
+}
+
+export interface PlayerReconnectedPayload {
+  gameId: string;
+  playerId: string;
+}
+
+export interface GameStateUpdatePayload {
+  game: GameState;
 }
 
 export interface TimerUpdatePayload {
   gameId: string;
-  timeRemaining: number;
+  clocks: Record<PlayerSymbol, PlayerClock>; // as of serverTime
   currentTurn: PlayerSymbol;
+  serverTime: number; // epoch ms on the server's clock
+}
+
+// Round trip for estimating the offset between client and server clocks
+export interface SyncClockPayload {
+  clientTime: number; // epoch ms on the client's clock when sent
+}
+
+export interface ClockSyncedPayload {
+  clientTime: number; // echoed back
+  serverTime: number;
 }
 
+export type SocketErrorCode =
+  | 'UNAUTHORIZED'
+  | 'VALIDATION_ERROR'
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'GAME_NOT_FOUND'
+  | 'NOT_IN_GAME'
+  | 'INVALID_STATE'
+  | 'SPECTATOR' // a spectator sent a game action
+  | 'NOT_ROOM_OWNER'
+  | 'NOT_ORGANIZER'
+  | 'TOURNAMENT_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'OUT_OF_SEQUENCE' // a move whose moveNumber is not the next one
+  | 'INTERNAL_ERROR';
+
 export interface ErrorPayload {
   message: string;
-  code?: string;
+  code?: SocketErrorCode;
   details?: unknown;
 }
 
+// ============================================================================
+// WebSocket Event Maps
+// ============================================================================
+
+export interface ClientToServerEvents {
+  [SocketEvent.JOIN_ROOM]: (payload: JoinRoomPayload) => void;
+  [SocketEvent.LEAVE_ROOM]: (payload: LeaveRoomPayload) => void;
+  [SocketEvent.SPECTATE_ROOM]: (payload: SpectateRoomPayload) => void;
+  [SocketEvent.STOP_SPECTATING]: (payload: SpectateRoomPayload) => void;
+  [SocketEvent.SET_SPECTATING]: (payload: SetSpectatingPayload) => void;
+  [SocketEvent.JOIN_QUEUE]: (payload: JoinQueuePayload) => void;
+  [SocketEvent.LEAVE_QUEUE]: () => void;
+  [SocketEvent.SUBSCRIBE_TOURNAMENT]: (payload: TournamentSubscriptionPayload) => void;
+  [SocketEvent.UNSUBSCRIBE_TOURNAMENT]: (payload: TournamentSubscriptionPayload) => void;
+  [SocketEvent.SEND_CHAT_MESSAGE]: (payload: SendChatMessagePayload) => void;
+  [SocketEvent.MUTE_PLAYER]: (payload: MutePlayerPayload) => void;
+  [SocketEvent.SUBSCRIBE_LOBBY]: () => void;
+  [SocketEvent.UNSUBSCRIBE_LOBBY]: () => void;
+  [SocketEvent.CHALLENGE_ACCEPTED]: (payload: GameActionPayload) => void;
+  [SocketEvent.MAKE_MOVE]: (payload: MakeMovePayload) => void;
+  [SocketEvent.PROPOSE_DRAW]: (payload: ProposeDrawPayload) => void;
+  [SocketEvent.ACCEPT_DRAW]: (payload: GameActionPayload) => void;
+  [SocketEvent.REJECT_DRAW]: (payload: GameActionPayload) => void;
+  [SocketEvent.SURRENDER]: (payload: GameActionPayload) => void;
+  [SocketEvent.SYNC_CLOCK]: (payload: SyncClockPayload) => void;
+  [SocketEvent.SYNC_GAME]: (payload: GameActionPayload) => void;
+}
+
+export interface ServerToClientEvents {
+  [SocketEvent.PLAYER_DISCONNECTED]: (payload: PlayerDisconnectedPayload) => void;
+  [SocketEvent.PLAYER_RECONNECTED]: (payload: PlayerReconnectedPayload) => void;
+  [SocketEvent.ROOM_JOINED]: (payload: RoomJoinedPayload) => void;
+  [SocketEvent.ROOM_LEFT]: (payload: RoomLeftPayload) => void;
+  [SocketEvent.ROOM_CREATED]: (payload: RoomCreatedPayload) => void;
+  [SocketEvent.ROOM_UPDATED]: (payload: RoomUpdatedPayload) => void;
+  [SocketEvent.ROOM_REMOVED]: (payload: RoomRemovedPayload) => void;
+  [SocketEvent.PLAYER_JOINED]: (payload: PlayerJoinedPayload) => void;
+  [SocketEvent.PLAYER_LEFT]: (payload: PlayerLeftPayload) => void;
+  [SocketEvent.SPECTATING_STARTED]: (payload: SpectatingStartedPayload) => void;
+  [SocketEvent.SPECTATING_STOPPED]: (payload: SpectatingStoppedPayload) => void;
+  [SocketEvent.QUEUE_STATUS]: (payload: QueueStatusPayload) => void;
+  [SocketEvent.MATCH_FOUND]: (payload: MatchFoundPayload) => void;
+  [SocketEvent.TOURNAMENT_UPDATED]: (payload: TournamentUpdatedPayload) => void;
+  [SocketEvent.CHAT_MESSAGE]: (payload: ChatMessagePayload) => void;
+  [SocketEvent.CHAT_HISTORY]: (payload: ChatHistoryPayload) => void;
+  [SocketEvent.PLAYER_MUTED]: (payload: PlayerMutedPayload) => void;
+  [SocketEvent.CHALLENGE]: (payload: ChallengePayload) => void;
+  [SocketEvent.CHALLENGE_ACCEPTED]: (payload: ChallengeAcceptedPayload) => void;
+  [SocketEvent.CHALLENGE_TIMEOUT]: (payload: ChallengeTimeoutPayload) => void;
+  [SocketEvent.GAME_START]: (payload: GameStartPayload) => void;
+  [SocketEvent.MOVE_MADE]: (payload: MoveMadePayload) => void;
+  [SocketEvent.INVALID_MOVE]: (payload: InvalidMovePayload) => void;
+  [SocketEvent.TURN_TIMEOUT]: (payload: TurnTimeoutPayload) => void;
+  [SocketEvent.GAME_OVER]: (payload: GameOverPayload) => void;
+  [SocketEvent.DRAW_PROPOSED]: (payload: DrawProposedPayload) => void;
+  [SocketEvent.REJECT_DRAW]: (payload: DrawRejectedPayload) => void;
+  [SocketEvent.GAME_STATE_UPDATE]: (payload: GameStateUpdatePayload) => void;
+  [SocketEvent.TIMER_UPDATE]: (payload: TimerUpdatePayload) => void;
+  [SocketEvent.CLOCK_SYNCED]: (payload: ClockSyncedPayload) => void;
+  [SocketEvent.ERROR]: (payload: ErrorPayload) => void;
+}
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -257,6 +851,8 @@ export interface ErrorPayload {
 export interface CreateGameRequest {
   name: string;
   mode?: 'classic' | 'ranked';
+  ruleset?: RuleVariant;
+  geometry?: BoardGeometry;
 }
 
 export interface CreateGameResponse {
@@ -269,9 +865,52 @@ export interface GetGameResponse {
   data: GameState;
 }
 
+export interface CreateRoomRequest {
+  name: string;
+  ruleset?: RuleVariant;
+  geometry?: BoardGeometry;
+  bot?: BotDifficulty; // seat a computer opponent; the game is unrated
+  allowSpectators?: boolean; // defaults to true
+  timeControl?: TimeControl; // defaults to DEFAULT_TIME_CONTROL
+}
+
+export interface CreateRoomResponse {
+  success: boolean;
+  data: Room;
+}
+
+export interface GetRoomsRequest {
+  page?: number;
+  limit?: number;
+  status?: Room['status'];
+}
+
 export interface GetRoomsResponse {
   success: boolean;
-  data: RoomListItem[];
+  data: {
+    rooms: RoomListItem[];
+    total: number;
+    page: number;
+    limit: number;
+  };
+}
+
+export interface CreateTournamentRequest {
+  name: string;
+  format: TournamentFormat;
+  ruleset?: RuleVariant;
+  timeControl?: TimeControl;
+  rounds?: number; // Swiss only; defaults to enough rounds for one winner
+}
+
+export interface GetTournamentsResponse {
+  success: boolean;
+  data: Tournament[];
+}
+
+export interface GetTournamentResponse {
+  success: boolean;
+  data: TournamentDetail;
 }
 
 export interface GetRankingsRequest {
@@ -281,21 +920,69 @@ export interface GetRankingsRequest {
   order?: 'asc' | 'desc';
 }
 
+export type RankingSort = NonNullable<GetRankingsRequest['sortBy']>;
+
+export interface RankingEntry {
+  rank: number; // 1-based position in the descending leaderboard
+  player: Player;
+  totalGames: number;
+  winRate: number; // 0..1
+}
+
 export interface GetRankingsResponse {
   success: boolean;
   data: {
-    rankings: Player[];
+    rankings: RankingEntry[];
     total: number;
     page: number;
     limit: number;
   };
 }
 
+export interface GetPlayerRankRequest {
+  sortBy?: RankingSort;
+  radius?: number; // neighbours on each side
+}
+
+export interface GetPlayerRankResponse {
+  success: boolean;
+  data: {
+    sortBy: RankingSort;
+    rank: number | null; // null while the player is unranked
+    total: number;
+    neighbours: RankingEntry[]; // includes the player
+  };
+}
+
+export interface GetPlayerStatsRequest {
+  from?: string; // ISO 8601
+  to?: string; // ISO 8601
+  page?: number; // of the Elo history
+  limit?: number;
+}
+
 export interface GetPlayerStatsResponse {
   success: boolean;
   data: PlayerStats;
 }
 
+export interface GetGameReplayResponse {
+  success: boolean;
+  data: GameReplay;
+}
+
+export interface ImportGameRecordRequest {
+  record: string;
+}
+
+export interface ImportGameRecordResponse {
+  success: boolean;
+  data: {
+    record: GameRecord;
+    winningLine: WinningLine | null;
+  };
+}
+
 // ============================================================================
 // Authentication Types
 // ============================================================================
@@ -387,12 +1074,15 @@ export const BLOCKED_PATTERNS: BlockedPattern[] = [
 // Type Guards
 // ============================================================================
 
-export function isValidPosition(pos: Position): boolean {
+export function isValidPosition(
+  pos: Position,
+  size: number = GAME_CONFIG.BOARD_SIZE,
+): boolean {
   return (
     pos.row >= 0 &&
-    pos.row < GAME_CONFIG.BOARD_SIZE &&
+    pos.row < size &&
     pos.col >= 0 &&
-    pos.col < GAME_CONFIG.BOARD_SIZE
+    pos.col < size
   );
 }
 
@@ -400,6 +1090,19 @@ export function isPlayerSymbol(value: unknown): value is PlayerSymbol {
   return value === 'X' || value === 'O';
 }
 
+export function isRuleVariant(value: unknown): value is RuleVariant {
+  return (
+    value === 'freestyle' ||
+    value === 'standard' ||
+    value === 'caro' ||
+    value === 'renju'
+  );
+}
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return value === 'easy' || value === 'medium' || value === 'hard';
+}
+
 export function isCellValue(value: unknown): value is CellValue {
   return value === 'X' || value === 'O' || value === null;
 }